@@ -19,6 +19,9 @@ import DashboardLayout from './layouts/DashboardLayout';
 // Pages
 import Landing from './pages/Landing';
 import Dashboard from './pages/Dashboard';
+import CallHistory from './pages/CallHistory';
+import ContactSettings from './pages/ContactSettings';
+import Memories from './pages/Memories';
 import Onboarding from './pages/Onboarding';
 import Pricing from './pages/Pricing';
 import NotFound from './pages/NotFound';
@@ -591,6 +594,9 @@ function App() {
             </ProtectedRoute>
           }>
             <Route index element={<Dashboard />} />
+            <Route path="calls" element={<CallHistory />} />
+            <Route path="contact" element={<ContactSettings />} />
+            <Route path="memories" element={<Memories />} />
           </Route>
           
           {/* 404 page */}
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { X, Mic, Loader2, Volume2, CheckCircle, Headphones, AlertCircle } from 'lucide-react';
+import { X, Mic, Loader2, Volume2, CheckCircle, Headphones, AlertCircle, Keyboard, Send } from 'lucide-react';
 import { useUser, useAuth } from '@clerk/clerk-react';
+import { useChatStream } from '../hooks/useChatStream';
 
 interface VoiceChatModalProps {
   onClose: () => void;
@@ -9,11 +10,26 @@ interface VoiceChatModalProps {
 }
 
 interface ConversationMessage {
-  role: 'user' | 'ai';
+  role: 'user' | 'ai' | 'action';
   text: string;
   audio?: string;
 }
 
+type InputMode = 'voice' | 'text';
+
+// Final event of a streamed in-app-voice-chat reply
+interface VoiceChatResult {
+  success: boolean;
+  audioResponse: string | null;
+  speechFallback?: boolean; // No voice could be rendered; read the reply out with the browser's voice
+  textResponse: string;
+  userText: string;
+  callId: string;
+  actions: string[];
+  needsRepeat?: boolean; // The recording was not understood; the reply asks to say it again
+  error?: string;
+}
+
 const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
   const { user } = useUser();
   const { getToken } = useAuth();
@@ -25,6 +41,13 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
   const [conversation, setConversation] = useState<ConversationMessage[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [initialGreetingPlayed, setInitialGreetingPlayed] = useState(false);
+  // The message being answered, shown while the reply streams in
+  const [pendingMessages, setPendingMessages] = useState<ConversationMessage[]>([]);
+  const { partialText, isStreaming, streamReply } = useChatStream();
+  // Typing and speaking share the same conversation, so users can switch at any time
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [typedMessage, setTypedMessage] = useState('');
+  const [speakTypedReplies, setSpeakTypedReplies] = useState(false);
   
   // Refs for audio recording and playback
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -33,13 +56,15 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const conversationEndRef = useRef<HTMLDivElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Call log entry for this conversation, returned by the first response
+  const callIdRef = useRef<string | null>(null);
 
   // Scroll to bottom of conversation when new messages are added
   useEffect(() => {
     if (conversationEndRef.current) {
       conversationEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [conversation]);
+  }, [conversation, pendingMessages, partialText]);
 
   // Clean up resources when component unmounts
   useEffect(() => {
@@ -58,6 +83,9 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
       if (audioSourceRef.current) {
         audioSourceRef.current.stop();
       }
+      if ('speechSynthesis' in window) {
+        window.speechSynthesis.cancel();
+      }
       
       // Close audio context
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
@@ -99,29 +127,11 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
       }
 
       console.log('🔄 Calling in-app-voice-chat Edge Function for initial greeting...');
-      const response = await fetch(`${supabaseUrl}/functions/v1/in-app-voice-chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          userId: user.id,
-          messageText: "Hello, I'd like to talk to my future self."
-        })
+      const result = await streamReply<VoiceChatResult>(`${supabaseUrl}/functions/v1/in-app-voice-chat`, token, {
+        userId: user.id,
+        messageText: "Hello, I'd like to talk to my future self.",
+        ...(callIdRef.current && { callId: callIdRef.current })
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('❌ Edge Function error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData
-        });
-        throw new Error(errorData.error || `Voice chat failed: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
       console.log('✅ Initial greeting received:', {
         success: result.success,
         hasAudioResponse: !!result.audioResponse,
@@ -132,19 +142,19 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
         throw new Error(result.error || 'Voice chat failed');
       }
 
+      callIdRef.current = result.callId || callIdRef.current;
+
       // Update conversation history
       const userText = "Hello, I'd like to talk to my future self.";
       const aiText = result.textResponse || 'Hello! I am your future self. How can I help you today?';
       
       setConversation([
         { role: 'user', text: userText },
-        { role: 'ai', text: aiText, audio: result.audioResponse }
+        { role: 'ai', text: aiText, audio: result.audioResponse || undefined }
       ]);
 
       // Auto-play the response
-      if (result.audioResponse) {
-        await playAudioResponse(result.audioResponse);
-      }
+      await speakReply(result, aiText);
 
       setInitialGreetingPlayed(true);
     } catch (error) {
@@ -267,7 +277,8 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
       console.log('✅ Recording started successfully');
     } catch (error) {
       console.error('❌ Error starting recording:', error);
-      setError('Failed to access microphone. Please check permissions.');
+      setError('Failed to access microphone. You can type your message instead.');
+      setInputMode('text');
       
       setIsRecording(false);
       mediaRecorderRef.current = null;
@@ -330,29 +341,20 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
         }
 
         console.log('🔄 Calling in-app-voice-chat Edge Function...');
-        const response = await fetch(`${supabaseUrl}/functions/v1/in-app-voice-chat`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
+        const result = await streamReply<VoiceChatResult>(
+          `${supabaseUrl}/functions/v1/in-app-voice-chat`,
+          token,
+          {
             audioData: base64Audio,
-            userId: user.id
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          console.error('❌ Edge Function error:', {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorData
-          });
-          throw new Error(errorData.error || `Voice chat failed: ${response.status} ${response.statusText}`);
-        }
-
-        const result = await response.json();
+            userId: user.id,
+            ...(callIdRef.current && { callId: callIdRef.current })
+          },
+          {
+            // Show what was heard and any actions while the reply is still being written
+            onTranscript: (userText) => setPendingMessages([{ role: 'user', text: userText }]),
+            onAction: (action) => setPendingMessages(prev => [...prev, { role: 'action', text: action }])
+          }
+        ).finally(() => setPendingMessages([]));
         console.log('✅ Voice chat response received:', {
           success: result.success,
           hasAudioResponse: !!result.audioResponse,
@@ -364,20 +366,7 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
           throw new Error(result.error || 'Voice chat failed');
         }
 
-        // Update conversation history
-        const userText = result.userText || 'You said something...';
-        const aiText = result.textResponse || 'AI response unavailable';
-        
-        setConversation(prev => [
-          ...prev,
-          { role: 'user', text: userText },
-          { role: 'ai', text: aiText, audio: result.audioResponse }
-        ]);
-
-        // Auto-play the response
-        if (result.audioResponse) {
-          await playAudioResponse(result.audioResponse);
-        }
+        await addExchange(result, result.userText || 'You said something...');
         
         // Clear the audio blob for next recording
         setAudioBlob(null);
@@ -391,6 +380,79 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
     }
   };
 
+  // Add a finished exchange to the conversation and play the reply if it was spoken
+  const addExchange = async (result: VoiceChatResult, userText: string) => {
+    callIdRef.current = result.callId || callIdRef.current;
+
+    const aiText = result.textResponse || 'AI response unavailable';
+
+    // Changes the future self made, such as logging progress, show between the two messages
+    const actions: string[] = result.actions || [];
+
+    // A message that was not understood is left out; only the request to repeat it is shown
+    setConversation(prev => [
+      ...prev,
+      ...(result.needsRepeat ? [] : [{ role: 'user' as const, text: userText }]),
+      ...actions.map((action): ConversationMessage => ({ role: 'action', text: action })),
+      { role: 'ai', text: aiText, audio: result.audioResponse || undefined }
+    ]);
+
+    // Auto-play the response
+    await speakReply(result, aiText);
+  };
+
+  // Send a typed message; it skips transcription and is only spoken back if asked for
+  const sendTypedMessage = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const messageText = typedMessage.trim();
+    if (!messageText || !user?.id || isProcessing) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+      setTypedMessage('');
+      setPendingMessages([{ role: 'user', text: messageText }]);
+
+      const token = await getToken({ template: 'supabase' });
+      if (!token) {
+        throw new Error('No authentication token available');
+      }
+
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      if (!supabaseUrl) {
+        throw new Error('Supabase URL not found in environment variables');
+      }
+
+      const result = await streamReply<VoiceChatResult>(
+        `${supabaseUrl}/functions/v1/in-app-voice-chat`,
+        token,
+        {
+          userId: user.id,
+          messageText,
+          speakReply: speakTypedReplies,
+          ...(callIdRef.current && { callId: callIdRef.current })
+        },
+        {
+          onAction: (action) => setPendingMessages(prev => [...prev, { role: 'action', text: action }])
+        }
+      ).finally(() => setPendingMessages([]));
+
+      if (!result.success) {
+        throw new Error(result.error || 'Chat failed');
+      }
+
+      await addExchange(result, messageText);
+    } catch (error) {
+      console.error('❌ Error sending message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message. Please try again.');
+      // Give the message back so it can be sent again
+      setTypedMessage(messageText);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Play audio response
   const playAudioResponse = async (base64Audio: string): Promise<void> => {
     return new Promise((resolve, reject) => {
@@ -451,6 +513,39 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
     });
   };
 
+  // Read a reply out with the browser's built-in voice, used when the server could not render speech
+  const speakWithBrowserVoice = (text: string): Promise<void> => {
+    return new Promise((resolve) => {
+      if (!('speechSynthesis' in window)) {
+        resolve();
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.onend = () => {
+        setIsPlaying(false);
+        resolve();
+      };
+      utterance.onerror = () => {
+        setIsPlaying(false);
+        resolve();
+      };
+
+      setIsPlaying(true);
+      window.speechSynthesis.speak(utterance);
+    });
+  };
+
+  // Play the rendered reply, or fall back to the browser's voice when it was meant to be spoken
+  const speakReply = async (result: VoiceChatResult, aiText: string): Promise<void> => {
+    if (result.audioResponse) {
+      await playAudioResponse(result.audioResponse);
+    } else if (result.speechFallback) {
+      console.warn('⚠️ No voice was rendered for this reply, using the browser voice');
+      await speakWithBrowserVoice(aiText);
+    }
+  };
+
   // Stop audio playback
   const stopAudioPlayback = () => {
     if (audioSourceRef.current) {
@@ -459,8 +554,19 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
       audioSourceRef.current = null;
       setIsPlaying(false);
     }
+    if ('speechSynthesis' in window && window.speechSynthesis.speaking) {
+      window.speechSynthesis.cancel();
+      setIsPlaying(false);
+    }
   };
 
+  // The conversation so far, plus the reply that is still streaming in
+  const displayedMessages: ConversationMessage[] = [
+    ...conversation,
+    ...pendingMessages,
+    ...(isStreaming && partialText ? [{ role: 'ai' as const, text: partialText }] : [])
+  ];
+
   return (
     <motion.div 
       initial={{ opacity: 0 }}
@@ -508,6 +614,7 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
               {isRecording ? 'I\'m listening...' : 
                isProcessing ? 'Processing your message...' : 
                isPlaying ? 'Your future self is speaking...' :
+               inputMode === 'text' ? 'Type a message to your future self' :
                'Click the microphone to start speaking'}
             </p>
           </motion.div>
@@ -533,14 +640,27 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
           )}
           
           {/* Conversation History */}
-          {conversation.length > 0 && (
+          {displayedMessages.length > 0 && (
             <motion.div 
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               transition={{ delay: 0.2 }}
               className="mb-6 max-h-60 overflow-y-auto bg-white/5 rounded-xl p-4 border border-white/10 text-left"
             >
-              {conversation.map((message, index) => (
+              {displayedMessages.map((message, index) => message.role === 'action' ? (
+                <motion.div
+                  key={index}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="mb-3 pl-4"
+                >
+                  <p className="text-xs text-primary-aqua font-body flex items-center gap-1">
+                    <CheckCircle className="w-3 h-3 flex-shrink-0" />
+                    {message.text}
+                  </p>
+                </motion.div>
+              ) : (
                 <motion.div 
                   key={index} 
                   initial={{ opacity: 0, y: 10 }}
@@ -570,7 +690,64 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
             </motion.div>
           )}
           
-          {/* Recording UI */}
+          {/* Input Mode Toggle */}
+          {!isRecording && (
+            <div className="flex justify-center gap-2 mb-4">
+              <button
+                onClick={() => setInputMode('voice')}
+                className={`px-3 py-1.5 rounded-lg text-sm font-body flex items-center gap-1 transition-colors ${
+                  inputMode === 'voice' ? 'bg-primary-aqua/20 text-primary-aqua' : 'text-white/60 hover:text-white'
+                }`}
+              >
+                <Mic className="w-4 h-4" />
+                Speak
+              </button>
+              <button
+                onClick={() => setInputMode('text')}
+                className={`px-3 py-1.5 rounded-lg text-sm font-body flex items-center gap-1 transition-colors ${
+                  inputMode === 'text' ? 'bg-primary-aqua/20 text-primary-aqua' : 'text-white/60 hover:text-white'
+                }`}
+              >
+                <Keyboard className="w-4 h-4" />
+                Type
+              </button>
+            </div>
+          )}
+
+          {/* Text Input UI */}
+          {inputMode === 'text' && !isRecording ? (
+            <form onSubmit={sendTypedMessage} className="mb-6 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={typedMessage}
+                  onChange={(e) => setTypedMessage(e.target.value)}
+                  placeholder="How are your goals going?"
+                  maxLength={2000}
+                  disabled={isProcessing}
+                  autoFocus
+                  className="flex-1 bg-white/5 text-white border border-white/20 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary-aqua/50 focus:border-transparent font-body disabled:opacity-50"
+                />
+                <button
+                  type="submit"
+                  disabled={isProcessing || !typedMessage.trim()}
+                  className="p-2 rounded-lg bg-gradient-to-br from-primary-aqua to-primary-blue text-white disabled:opacity-50 transition-opacity"
+                  title="Send"
+                >
+                  {isProcessing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+                </button>
+              </div>
+              <label className="flex items-center justify-center gap-2 text-xs text-white/60 font-body">
+                <input
+                  type="checkbox"
+                  checked={speakTypedReplies}
+                  onChange={(e) => setSpeakTypedReplies(e.target.checked)}
+                />
+                Read replies aloud
+              </label>
+            </form>
+          ) : (
+          /* Recording UI */
           <motion.div 
             initial={{ y: 20, opacity: 0 }}
             animate={{ y: 0, opacity: 1 }}
@@ -624,9 +801,10 @@ const VoiceChatModal = ({ onClose, futurePhotoUrl }: VoiceChatModalProps) => {
               </button>
             )}
           </motion.div>
+          )}
           
           {/* Instructions */}
-          {!isRecording && !isProcessing && !isPlaying && conversation.length === 0 && (
+          {inputMode === 'voice' && !isRecording && !isProcessing && !isPlaying && conversation.length === 0 && (
             <motion.div 
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
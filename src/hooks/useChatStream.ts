@@ -0,0 +1,118 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+// Events sent by Edge Functions that stream a reply as server-sent events
+interface StreamCallbacks {
+  onTranscript?: (userText: string) => void;
+  onAction?: (action: string) => void;
+}
+
+interface UseChatStreamReturn {
+  partialText: string;
+  isStreaming: boolean;
+  streamReply: <T>(url: string, token: string, body: Record<string, unknown>, callbacks?: StreamCallbacks) => Promise<T>;
+  cancelStream: () => void;
+}
+
+// Split a server-sent events buffer into complete events and the unfinished rest
+const parseEvents = (buffer: string): { events: { event: string; data: string }[]; rest: string } => {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks.map((block) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      if (line.startsWith('data:')) data.push(line.slice(5).trim());
+    });
+    return { event, data: data.join('\n') };
+  });
+
+  return { events, rest };
+};
+
+// Request a reply with `stream: true` and render its text as it is generated.
+// Resolves with the payload of the final `done` event.
+export const useChatStream = (): UseChatStreamReturn => {
+  const [partialText, setPartialText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancelStream = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }, []);
+
+  // Stop reading when the component using the stream goes away
+  useEffect(() => cancelStream, [cancelStream]);
+
+  const streamReply = useCallback(async <T,>(
+    url: string,
+    token: string,
+    body: Record<string, unknown>,
+    callbacks: StreamCallbacks = {}
+  ): Promise<T> => {
+    cancelStream();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setPartialText('');
+    setIsStreaming(true);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal: abortController.signal
+      });
+
+      // Requests rejected before streaming starts still answer with a JSON error
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const { events, rest } = parseEvents(buffer + value);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          const payload = JSON.parse(data);
+
+          if (event === 'delta') {
+            setPartialText(prev => prev + payload.text);
+          } else if (event === 'transcript') {
+            callbacks.onTranscript?.(payload.userText);
+          } else if (event === 'action') {
+            callbacks.onAction?.(payload.action);
+          } else if (event === 'error') {
+            throw new Error(payload.error || 'Streaming reply failed');
+          } else if (event === 'done') {
+            return payload as T;
+          }
+        }
+      }
+
+      throw new Error('The reply ended before it was complete');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setPartialText('');
+      setIsStreaming(false);
+    }
+  }, [cancelStream]);
+
+  return { partialText, isStreaming, streamReply, cancelStream };
+};
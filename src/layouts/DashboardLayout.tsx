@@ -1,7 +1,7 @@
 import { Outlet } from 'react-router-dom';
 import { Link } from 'react-router-dom';
 import { UserButton, useUser } from '@clerk/clerk-react';
-import { Menu, Home, Settings, User, BarChart3, Sun, Moon, X, DollarSign } from 'lucide-react';
+import { Menu, Home, Settings, User, BarChart3, Sun, Moon, X, DollarSign, Phone, Brain } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
 interface DashboardLayoutProps {
@@ -127,6 +127,57 @@ const DashboardLayout = ({ theme, toggleTheme }: DashboardLayoutProps) => {
                     </div>
                   </Link>
                   
+                  {/* Call History Link */}
+                  <Link
+                    to="/dashboard/calls"
+                    className="flex items-center gap-3 p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <div className="w-10 h-10 bg-gradient-to-r from-primary-aqua to-primary-blue rounded-full flex items-center justify-center text-white">
+                      <Phone className="w-5 h-5" />
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium font-heading">Call History</span>
+                      </div>
+                      <p className="text-white/60 text-sm font-body">Transcripts of past calls</p>
+                    </div>
+                  </Link>
+                  
+                  {/* Contact Settings Link */}
+                  <Link
+                    to="/dashboard/contact"
+                    className="flex items-center gap-3 p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <div className="w-10 h-10 bg-gradient-to-r from-primary-aqua to-primary-blue rounded-full flex items-center justify-center text-white">
+                      <Settings className="w-5 h-5" />
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium font-heading">Contact Settings</span>
+                      </div>
+                      <p className="text-white/60 text-sm font-body">Quiet hours and vacation mode</p>
+                    </div>
+                  </Link>
+                  
+                  {/* Memories Link */}
+                  <Link
+                    to="/dashboard/memories"
+                    className="flex items-center gap-3 p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    <div className="w-10 h-10 bg-gradient-to-r from-primary-aqua to-primary-blue rounded-full flex items-center justify-center text-white">
+                      <Brain className="w-5 h-5" />
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium font-heading">Memories</span>
+                      </div>
+                      <p className="text-white/60 text-sm font-body">What your future self remembers</p>
+                    </div>
+                  </Link>
+                  
                   {/* Pricing Link */}
                   <div className="flex items-center gap-3 p-4 bg-white/5 rounded-xl border border-white/10">
                     <div className="w-10 h-10 bg-gradient-to-r from-primary-aqua to-primary-blue rounded-full flex items-center justify-center text-white">
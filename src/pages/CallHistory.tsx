@@ -0,0 +1,336 @@
+import { useState, useEffect, useRef } from 'react';
+import { useUser, useAuth } from '@clerk/clerk-react';
+import {
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  MessageCircle,
+  Phone,
+  Play,
+  Square,
+  Zap
+} from 'lucide-react';
+import { createAuthenticatedSupabaseClient } from '../lib/supabase';
+import type { Database } from '../types/supabase';
+
+type CallRow = Database['public']['Tables']['calls']['Row'];
+type CallTurnRow = Database['public']['Tables']['call_turns']['Row'];
+
+type CallWithTurns = CallRow & {
+  call_turns: Pick<CallTurnRow, 'id' | 'turn_index' | 'role' | 'content' | 'audio_path'>[];
+};
+
+// Labels for outcomes of calls that never became a conversation
+const outcomeLabels: Record<string, string> = {
+  'no-answer': 'No answer',
+  'busy': 'Busy',
+  'failed': 'Failed',
+  'canceled': 'Canceled',
+  'voicemail_left': 'Voicemail left'
+};
+
+// Helper function to format call start time
+const formatCallDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+// Helper function to format duration as m:ss
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+// Component for a single call and its transcript
+const CallCard = ({
+  call,
+  playingTurnId,
+  onPlayTurn
+}: {
+  call: CallWithTurns,
+  playingTurnId: string | null,
+  onPlayTurn: (turnId: string, audioPath: string) => Promise<void>
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isPhone = call.channel === 'phone';
+
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden transition-all duration-300">
+      {/* Call Header */}
+      <div
+        className="p-4 flex items-center justify-between cursor-pointer"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center gap-3 flex-1">
+          <div className="w-10 h-10 bg-gradient-to-r from-primary-aqua to-primary-blue rounded-full flex items-center justify-center text-white">
+            {isPhone ? <Phone className="w-5 h-5" /> : <MessageCircle className="w-5 h-5" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-white font-heading truncate">
+              {isPhone ? (call.direction === 'inbound' ? 'You called' : 'Phone call') : 'In-app voice chat'}
+            </h3>
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs text-white/60 font-body">{formatCallDate(call.started_at)}</span>
+              <span className="text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 font-body flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {formatDuration(call.duration_seconds)}
+              </span>
+              {call.outcome && outcomeLabels[call.outcome] && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300 font-body">
+                  {outcomeLabels[call.outcome]}
+                </span>
+              )}
+              {call.status === 'in_progress' && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-300 font-body">
+                  In progress
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="w-5 h-5 text-white/60" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-white/60" />
+        )}
+      </div>
+
+      {/* Transcript */}
+      {isExpanded && (
+        <div className="p-4 pt-0 border-t border-white/10 space-y-3">
+          {call.call_turns.length === 0 ? (
+            <p className="text-white/60 text-sm font-body pt-4">Nothing was said on this call.</p>
+          ) : (
+            <div className="space-y-3 pt-4">
+              {call.call_turns.map((turn) => turn.role === 'action' ? (
+                // Changes the future self made during the call, such as logging progress
+                <div key={turn.id} className="flex justify-center">
+                  <p className="text-xs text-primary-aqua font-body flex items-center gap-1">
+                    <Zap className="w-3 h-3" />
+                    {turn.content}
+                  </p>
+                </div>
+              ) : (
+                <div
+                  key={turn.id}
+                  className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div className={`max-w-[80%] p-3 rounded-xl ${
+                    turn.role === 'user'
+                      ? 'bg-primary-aqua/20 text-white'
+                      : 'bg-white/10 text-white'
+                  }`}>
+                    <p className="text-sm font-body">{turn.content}</p>
+                    {turn.audio_path && (
+                      <button
+                        onClick={() => onPlayTurn(turn.id, turn.audio_path as string)}
+                        className="mt-2 text-xs text-primary-aqua hover:text-white transition-colors flex items-center gap-1 font-body"
+                      >
+                        {playingTurnId === turn.id ? (
+                          <>
+                            <Square className="w-3 h-3" />
+                            Stop
+                          </>
+                        ) : (
+                          <>
+                            <Play className="w-3 h-3" />
+                            Play
+                          </>
+                        )}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CallHistory = () => {
+  const { user } = useUser();
+  const { getToken } = useAuth();
+  const [calls, setCalls] = useState<CallWithTurns[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [playingTurnId, setPlayingTurnId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Fetch user's calls with their transcripts
+  useEffect(() => {
+    const fetchCalls = async () => {
+      if (!user?.id) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+        console.log('Fetching call history for user:', user.id);
+
+        const token = await getToken({ template: 'supabase' });
+        if (!token) {
+          throw new Error('No authentication token available');
+        }
+
+        const supabase = createAuthenticatedSupabaseClient(token);
+
+        const { data, error: callsError } = await supabase
+          .from('calls')
+          .select(`
+            *,
+            call_turns (
+              id,
+              turn_index,
+              role,
+              content,
+              audio_path
+            )
+          `)
+          .eq('user_id', user.id)
+          .order('started_at', { ascending: false })
+          .order('turn_index', { referencedTable: 'call_turns', ascending: true });
+
+        if (callsError) {
+          console.error('Error fetching calls:', callsError);
+          throw callsError;
+        }
+
+        setCalls((data || []) as CallWithTurns[]);
+      } catch (error) {
+        console.error('Error fetching call history:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load call history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCalls();
+  }, [user?.id, getToken]);
+
+  // Stop playback when leaving the page
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  const handlePlayTurn = async (turnId: string, audioPath: string) => {
+    audioRef.current?.pause();
+
+    if (playingTurnId === turnId) {
+      setPlayingTurnId(null);
+      return;
+    }
+
+    try {
+      const token = await getToken({ template: 'supabase' });
+      if (!token) {
+        throw new Error('No authentication token available');
+      }
+
+      const supabase = createAuthenticatedSupabaseClient(token);
+
+      // Call audio lives in a private bucket, so play it through a short-lived signed URL
+      const { data, error: urlError } = await supabase.storage
+        .from('call-audio')
+        .createSignedUrl(audioPath, 3600);
+
+      if (urlError || !data) {
+        console.error('Error creating signed audio URL:', urlError);
+        throw urlError || new Error('Failed to load call audio');
+      }
+
+      const audio = new Audio(data.signedUrl);
+      audioRef.current = audio;
+      audio.onended = () => setPlayingTurnId(null);
+      audio.onerror = () => setPlayingTurnId(null);
+
+      setPlayingTurnId(turnId);
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing call audio:', error);
+      setPlayingTurnId(null);
+      setError(error instanceof Error ? error.message : 'Failed to play call audio');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 border-2 border-primary-aqua border-t-transparent rounded-full animate-spin" />
+            <span className="text-text-secondary font-body">Loading your calls...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+      {/* Header */}
+      <div className="text-center mb-8">
+        <h1 className="font-heading font-bold mb-2">Call History</h1>
+        <p className="text-text-secondary mb-6 font-body text-body">Everything you and your future self have talked about</p>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="card bg-red-500/10 border-red-500/20">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-red-400 font-medium font-heading">Error</p>
+              <p className="text-red-300 text-sm mt-1 font-body">{error}</p>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-300 text-sm underline mt-2 hover:text-red-200 font-body"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Call List */}
+      <div className="card">
+        <h2 className="text-lg font-medium mb-4 flex items-center gap-2 font-heading">
+          <Phone className="w-5 h-5 text-primary-aqua" />
+          Past Calls
+        </h2>
+        {calls.length === 0 ? (
+          <p className="text-text-secondary font-body">
+            No calls yet. Your check-in calls and voice chats will show up here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {calls.map((call) => (
+              <CallCard
+                key={call.id}
+                call={call}
+                playingTurnId={playingTurnId}
+                onPlayTurn={handlePlayTurn}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallHistory;
@@ -0,0 +1,406 @@
+import { useState, useEffect } from 'react';
+import { useUser, useAuth } from '@clerk/clerk-react';
+import { AlertCircle, BellOff, CheckCircle, Moon, Plane, Save } from 'lucide-react';
+import { createAuthenticatedSupabaseClient } from '../lib/supabase';
+import type { Database } from '../types/supabase';
+
+type ContactSuppressionRow = Database['public']['Tables']['contact_suppressions']['Row'];
+type QuietHoursRow = Pick<Database['public']['Tables']['quiet_hours']['Row'], 'weekday' | 'start_time' | 'end_time'>;
+
+type QuietMode = 'available' | 'quiet' | 'off';
+
+interface DaySchedule {
+  mode: QuietMode;
+  start: string;
+  end: string;
+}
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Labels for why the contact policy held back a check-in
+const suppressionReasonLabels: Record<string, string> = {
+  sms_opted_out: 'You replied STOP to texts',
+  channel_disabled: 'This contact method is turned off',
+  vacation: 'Check-ins were paused',
+  quiet_hours: 'During your quiet hours',
+  profile_not_found: 'Profile not found'
+};
+
+const channelLabels: Record<string, string> = {
+  phone: 'Phone call',
+  sms: 'Text message',
+  email: 'Email'
+};
+
+const defaultDaySchedule: DaySchedule = { mode: 'available', start: '12:00', end: '13:00' };
+
+// A quiet period that ends at or before its start runs overnight into the next day
+const isOvernight = (day: DaySchedule) => day.end <= day.start;
+
+// Turn the page's one quiet period per day into quiet_hours rows. Each row stays within its
+// weekday, so an overnight period is split at midnight into an evening and a morning row.
+const quietHoursFromSchedule = (schedule: DaySchedule[]): QuietHoursRow[] =>
+  schedule.flatMap((day, weekday): QuietHoursRow[] => {
+    if (day.mode === 'available') return [];
+    if (day.mode === 'off') return [{ weekday, start_time: '00:00', end_time: '24:00' }];
+    if (!isOvernight(day)) return [{ weekday, start_time: day.start, end_time: day.end }];
+
+    const evening = { weekday, start_time: day.start, end_time: '24:00' };
+    return day.end === '00:00'
+      ? [evening]
+      : [evening, { weekday: (weekday + 1) % 7, start_time: '00:00', end_time: day.end }];
+  });
+
+// Read quiet_hours rows back into one period per day. An evening row running to midnight is
+// joined with a morning row starting at midnight the next day, and a row covering the whole
+// day means no contact.
+const scheduleFromQuietHours = (rows: QuietHoursRow[]): DaySchedule[] => {
+  const schedule = weekdays.map(() => ({ ...defaultDaySchedule }));
+  const ranges = rows.map(row => ({ weekday: row.weekday, start: row.start_time.slice(0, 5), end: row.end_time.slice(0, 5) }));
+  const joined = new Set<typeof ranges[number]>();
+
+  ranges
+    .filter(range => range.end === '24:00' && range.start !== '00:00')
+    .forEach((evening) => {
+      const morning = ranges.find(range =>
+        range.weekday === (evening.weekday + 1) % 7 && range.start === '00:00' && range.end !== '24:00' && !joined.has(range)
+      );
+      if (morning) joined.add(morning);
+      joined.add(evening);
+      schedule[evening.weekday] = { mode: 'quiet', start: evening.start, end: morning ? morning.end : '00:00' };
+    });
+
+  ranges
+    .filter(range => !joined.has(range))
+    .forEach((range) => {
+      if (range.start === '00:00' && range.end === '24:00') {
+        schedule[range.weekday] = { ...defaultDaySchedule, mode: 'off' };
+      } else if (schedule[range.weekday].mode === 'available') {
+        schedule[range.weekday] = { mode: 'quiet', start: range.start, end: range.end };
+      }
+    });
+
+  return schedule;
+};
+
+// Helper function to format a suppression time
+const formatSuppressionDate = (dateString: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+const ContactSettings = () => {
+  const { user } = useUser();
+  const { getToken } = useAuth();
+  const [schedule, setSchedule] = useState<DaySchedule[]>(weekdays.map(() => ({ ...defaultDaySchedule })));
+  const [pausedUntil, setPausedUntil] = useState('');
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [smsOptedOutAt, setSmsOptedOutAt] = useState<string | null>(null);
+  const [suppressions, setSuppressions] = useState<ContactSuppressionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the user's quiet hours, vacation and recent suppressions
+  useEffect(() => {
+    const fetchContactSettings = async () => {
+      if (!user?.id) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const token = await getToken({ template: 'supabase' });
+        if (!token) {
+          throw new Error('No authentication token available');
+        }
+
+        const supabase = createAuthenticatedSupabaseClient(token);
+
+        const [profileResult, quietHoursResult, suppressionsResult] = await Promise.all([
+          supabase
+            .from('user_profiles')
+            .select('contact_paused_until, sms_opted_out_at, time_zone')
+            .eq('user_id', user.id)
+            .maybeSingle(),
+          supabase
+            .from('quiet_hours')
+            .select('weekday, start_time, end_time')
+            .eq('user_id', user.id)
+            .order('start_time', { ascending: true }),
+          supabase
+            .from('contact_suppressions')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(10)
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (quietHoursResult.error) throw quietHoursResult.error;
+        if (suppressionsResult.error) throw suppressionsResult.error;
+
+        setPausedUntil(profileResult.data?.contact_paused_until || '');
+        setSmsOptedOutAt(profileResult.data?.sms_opted_out_at || null);
+        setTimeZone(profileResult.data?.time_zone || null);
+
+        setSchedule(scheduleFromQuietHours(quietHoursResult.data || []));
+
+        setSuppressions(suppressionsResult.data || []);
+      } catch (error) {
+        console.error('Error loading contact settings:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load contact settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchContactSettings();
+  }, [user?.id, getToken]);
+
+  const updateDay = (weekday: number, changes: Partial<DaySchedule>) => {
+    setSaved(false);
+    setSchedule(prev => prev.map((day, index) => index === weekday ? { ...day, ...changes } : day));
+  };
+
+  const isValidSchedule = schedule.every(day => day.mode !== 'quiet' || (day.start && day.end && day.start !== day.end));
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const token = await getToken({ template: 'supabase' });
+      if (!token) {
+        throw new Error('No authentication token available');
+      }
+
+      const supabase = createAuthenticatedSupabaseClient(token);
+
+      const { error: profileError } = await supabase
+        .from('user_profiles')
+        .update({
+          contact_paused_until: pausedUntil || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('user_id', user.id);
+
+      if (profileError) throw profileError;
+
+      // Replace the whole week so removed quiet periods disappear
+      const { error: deleteError } = await supabase
+        .from('quiet_hours')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (deleteError) throw deleteError;
+
+      const rows = quietHoursFromSchedule(schedule).map(range => ({ user_id: user.id, ...range }));
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase
+          .from('quiet_hours')
+          .insert(rows);
+
+        if (insertError) throw insertError;
+      }
+
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving contact settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save contact settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 border-2 border-primary-aqua border-t-transparent rounded-full animate-spin" />
+            <span className="text-text-secondary font-body">Loading your contact settings...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+      {/* Header */}
+      <div className="text-center mb-8">
+        <h1 className="font-heading font-bold mb-2">Contact Settings</h1>
+        <p className="text-text-secondary mb-6 font-body text-body">Choose when your future self should leave you alone</p>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="card bg-red-500/10 border-red-500/20">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-red-400 font-medium font-heading">Error</p>
+              <p className="text-red-300 text-sm mt-1 font-body">{error}</p>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-300 text-sm underline mt-2 hover:text-red-200 font-body"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* SMS Opt-out Notice */}
+      {smsOptedOutAt && (
+        <div className="card bg-yellow-500/10 border-yellow-500/20">
+          <div className="flex items-start gap-3">
+            <BellOff className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+            <p className="text-yellow-300 text-sm font-body">
+              You replied STOP on {formatSuppressionDate(smsOptedOutAt)}, so we won't text you. Text START to our number to receive texts again.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Vacation Mode */}
+      <div className="card">
+        <h2 className="text-lg font-medium mb-4 flex items-center gap-2 font-heading">
+          <Plane className="w-5 h-5 text-primary-aqua" />
+          Vacation Mode
+        </h2>
+        <p className="text-text-secondary mb-4 font-body">
+          Pause all check-in calls, texts and emails. They start again on the date you pick.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <label className="text-sm text-text-secondary font-heading" htmlFor="paused-until">Resume on</label>
+          <input
+            id="paused-until"
+            type="date"
+            value={pausedUntil}
+            min={new Date().toISOString().split('T')[0]}
+            onChange={(e) => { setPausedUntil(e.target.value); setSaved(false); }}
+            className="bg-white/5 text-white border border-white/20 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 font-body"
+          />
+          {pausedUntil && (
+            <button
+              onClick={() => { setPausedUntil(''); setSaved(false); }}
+              className="text-sm text-text-secondary underline hover:text-white font-body"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Quiet Hours */}
+      <div className="card">
+        <h2 className="text-lg font-medium mb-4 flex items-center gap-2 font-heading">
+          <Moon className="w-5 h-5 text-primary-aqua" />
+          Quiet Hours
+        </h2>
+        <p className="text-text-secondary mb-4 font-body">
+          Block specific days or hours for check-ins{timeZone ? ` (times are in ${timeZone.replace(/_/g, ' ')})` : ''}. Quiet hours that end before they start, such as 22:00 to 07:00, run overnight.
+        </p>
+        <div className="space-y-3">
+          {weekdays.map((weekday, index) => {
+            const day = schedule[index];
+            return (
+              <div key={weekday} className="flex flex-col md:flex-row md:items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/10">
+                <span className="w-28 text-white font-heading">{weekday}</span>
+                <select
+                  value={day.mode}
+                  onChange={(e) => updateDay(index, { mode: e.target.value as QuietMode })}
+                  className="bg-white/5 text-white border border-white/20 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 font-body"
+                >
+                  <option value="available" className="bg-bg-primary">Available</option>
+                  <option value="quiet" className="bg-bg-primary">Quiet hours</option>
+                  <option value="off" className="bg-bg-primary">No contact all day</option>
+                </select>
+                {day.mode === 'quiet' && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={day.start}
+                      onChange={(e) => updateDay(index, { start: e.target.value })}
+                      className="bg-white/5 text-white border border-white/20 rounded-xl px-3 py-2 font-body"
+                    />
+                    <span className="text-text-secondary font-body">to</span>
+                    <input
+                      type="time"
+                      value={day.end}
+                      onChange={(e) => updateDay(index, { end: e.target.value })}
+                      className="bg-white/5 text-white border border-white/20 rounded-xl px-3 py-2 font-body"
+                    />
+                    {day.start === day.end ? (
+                      <span className="text-red-400 text-sm font-body">Must end at a different time</span>
+                    ) : isOvernight(day) && (
+                      <span className="text-text-secondary text-sm font-body">
+                        {day.end === '00:00' ? 'until midnight' : `ends on ${weekdays[(index + 1) % 7]}`}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3 mt-6">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValidSchedule}
+            className="btn btn-primary flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Saving...' : 'Save Settings'}
+          </button>
+          {saved && (
+            <span className="flex items-center gap-1 text-green-400 text-sm font-body">
+              <CheckCircle className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Suppressed Check-ins */}
+      <div className="card">
+        <h2 className="text-lg font-medium mb-4 flex items-center gap-2 font-heading">
+          <BellOff className="w-5 h-5 text-primary-aqua" />
+          Recently Held Back
+        </h2>
+        {suppressions.length === 0 ? (
+          <p className="text-text-secondary font-body">
+            Nothing has been held back. Check-ins skipped because of these settings will show up here.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {suppressions.map((suppression) => (
+              <div key={suppression.id} className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/10">
+                <div>
+                  <p className="text-white text-sm font-heading">{channelLabels[suppression.channel] || suppression.channel}</p>
+                  <p className="text-text-secondary text-sm font-body">{suppressionReasonLabels[suppression.reason] || suppression.reason}</p>
+                </div>
+                <span className="text-text-secondary text-sm font-body">{formatSuppressionDate(suppression.created_at)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContactSettings;
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { useUser, useAuth } from '@clerk/clerk-react';
+import { AlertCircle, Brain, MessageCircle, Phone, Trash2 } from 'lucide-react';
+import { createAuthenticatedSupabaseClient } from '../lib/supabase';
+import type { Database } from '../types/supabase';
+
+type UserMemoryRow = Database['public']['Tables']['user_memories']['Row'];
+type CallRow = Database['public']['Tables']['calls']['Row'];
+
+type MemoryWithSource = UserMemoryRow & {
+  calls: Pick<CallRow, 'channel' | 'started_at'> | null;
+};
+
+// Helper function to format when a memory was learned
+const formatMemoryDate = (dateString: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+const Memories = () => {
+  const { user } = useUser();
+  const { getToken } = useAuth();
+  const [memories, setMemories] = useState<MemoryWithSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the facts the future self remembers, newest first
+  useEffect(() => {
+    const fetchMemories = async () => {
+      if (!user?.id) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const token = await getToken({ template: 'supabase' });
+        if (!token) {
+          throw new Error('No authentication token available');
+        }
+
+        const supabase = createAuthenticatedSupabaseClient(token);
+
+        const { data, error: memoriesError } = await supabase
+          .from('user_memories')
+          .select('*, calls(channel, started_at)')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (memoriesError) throw memoriesError;
+
+        setMemories((data as MemoryWithSource[]) || []);
+      } catch (error) {
+        console.error('Error loading memories:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load memories');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMemories();
+  }, [user?.id, getToken]);
+
+  // Forget a single memory
+  const handleDelete = async (memoryId: string) => {
+    try {
+      setDeletingId(memoryId);
+      setError(null);
+
+      const token = await getToken({ template: 'supabase' });
+      if (!token) {
+        throw new Error('No authentication token available');
+      }
+
+      const supabase = createAuthenticatedSupabaseClient(token);
+
+      const { error: deleteError } = await supabase
+        .from('user_memories')
+        .delete()
+        .eq('id', memoryId);
+
+      if (deleteError) throw deleteError;
+
+      setMemories(prev => prev.filter(memory => memory.id !== memoryId));
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete memory');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-center h-64">
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 border-2 border-primary-aqua border-t-transparent rounded-full animate-spin" />
+            <span className="text-text-secondary font-body">Loading your memories...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+      {/* Header */}
+      <div className="text-center mb-8">
+        <h1 className="font-heading font-bold mb-2">Memories</h1>
+        <p className="text-text-secondary mb-6 font-body text-body">What your future self remembers from your conversations</p>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="card bg-red-500/10 border-red-500/20">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-red-400 font-medium font-heading">Error</p>
+              <p className="text-red-300 text-sm mt-1 font-body">{error}</p>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-300 text-sm underline mt-2 hover:text-red-200 font-body"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Memory List */}
+      <div className="card">
+        <h2 className="text-lg font-medium mb-4 flex items-center gap-2 font-heading">
+          <Brain className="w-5 h-5 text-primary-aqua" />
+          Things You've Shared
+        </h2>
+        {memories.length === 0 ? (
+          <p className="text-text-secondary font-body">
+            Nothing yet. Facts you mention on calls and voice chats, like an upcoming trip or a new job, will show up here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {memories.map((memory) => (
+              <div
+                key={memory.id}
+                className="flex items-start justify-between gap-3 p-4 bg-white/5 rounded-xl border border-white/10"
+              >
+                <div>
+                  <p className="text-white font-body">{memory.content}</p>
+                  <p className="text-white/60 text-sm mt-1 flex items-center gap-1 font-body">
+                    {memory.calls?.channel === 'in_app' ? (
+                      <MessageCircle className="w-3 h-3" />
+                    ) : (
+                      <Phone className="w-3 h-3" />
+                    )}
+                    {memory.calls
+                      ? `From your ${memory.calls.channel === 'in_app' ? 'voice chat' : 'call'} on ${formatMemoryDate(memory.calls.started_at)}`
+                      : `Learned ${formatMemoryDate(memory.created_at)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(memory.id)}
+                  disabled={deletingId === memory.id}
+                  className="p-2 text-white/40 hover:text-red-400 transition-colors disabled:opacity-50"
+                  title="Forget this"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Memories;
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useUser, useAuth, useClerk } from '@clerk/clerk-react';
-import { Clock, Zap, ChevronDown, AlertCircle, Phone, MessageSquare, Mail, PhoneIncoming, MessageCircle, Vibrate, Video } from 'lucide-react';
+import { Clock, Zap, ChevronDown, AlertCircle, Phone, MessageSquare, Mail, PhoneIncoming, MessageCircle, Vibrate, Video, Globe } from 'lucide-react';
 import { useOnboarding } from '../../contexts/OnboardingContext';
 import { createAuthenticatedSupabaseClient } from '../../lib/supabase';
 
@@ -24,6 +24,8 @@ const CallPrefs = () => {
   const [videoCallInterest, setVideoCallInterest] = useState(false);
   const [is24HourAvailable, setIs24HourAvailable] = useState(false);
   const [isSms24HourAvailable, setIsSms24HourAvailable] = useState(false);
+  // Time zone the contact windows are in, detected from the browser until the user picks one
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone);
 
   // Generate time options in 15-minute increments
   const generateTimeOptions = (startAfter?: string) => {
@@ -80,6 +82,8 @@ const CallPrefs = () => {
   const callEndTimeOptions = generateTimeOptions(callTimeWindow.start);
   const smsEndTimeOptions = generateTimeOptions(smsTimeWindow.start);
 
+  const timeZoneOptions = getTimeZoneOptions(timeZone);
+
   // Load existing preferences or set defaults
   useEffect(() => {
     const loadCallPreferences = async () => {
@@ -100,7 +104,7 @@ const CallPrefs = () => {
         
         const { data: userProfile, error } = await supabase
           .from('user_profiles')
-          .select('preferred_time_start, preferred_time_end, contact_prefs, ai_triggered_enabled, email_notifications_enabled, sms_notifications_enabled, preferred_sms_time_start, preferred_sms_time_end, video_call_interest, phone_24_hour_availability, sms_24_hour_availability')
+          .select('preferred_time_start, preferred_time_end, contact_prefs, ai_triggered_enabled, email_notifications_enabled, sms_notifications_enabled, preferred_sms_time_start, preferred_sms_time_end, video_call_interest, phone_24_hour_availability, sms_24_hour_availability, time_zone')
           .eq('user_id', user.id)
           .maybeSingle();
 
@@ -122,8 +126,14 @@ const CallPrefs = () => {
             smsStart: userProfile.preferred_sms_time_start,
             smsEnd: userProfile.preferred_sms_time_end,
             phone24Hour: userProfile.phone_24_hour_availability,
-            sms24Hour: userProfile.sms_24_hour_availability
+            sms24Hour: userProfile.sms_24_hour_availability,
+            timeZone: userProfile.time_zone
           });
+
+          // Keep the detected time zone until the user has saved one
+          if (userProfile.time_zone) {
+            setTimeZone(userProfile.time_zone);
+          }
           
           // Set AI triggers based on ai_triggered_enabled
           setAiTriggersEnabled(userProfile.ai_triggered_enabled || false);
@@ -177,8 +187,8 @@ const CallPrefs = () => {
           dispatch({
             type: 'SET_CALL_PREFERENCES',
             payload: {
-              preferredTimeStart: userProfile.preferred_time_start,
-              preferredTimeEnd: userProfile.preferred_time_end
+              preferredTimeStart: userProfile.preferred_time_start ?? undefined,
+              preferredTimeEnd: userProfile.preferred_time_end ?? undefined
             }
           });
         } else {
@@ -288,6 +298,7 @@ const CallPrefs = () => {
       console.log('💾 Saving call preferences to database...');
       console.log('📊 Call preferences to save:', {
         callTimeWindow,
+        timeZone,
         aiTriggersEnabled,
         callMode: aiTriggersEnabled ? 'ai_triggered' : 'scheduled',
         selectedContactMethods
@@ -307,6 +318,7 @@ const CallPrefs = () => {
         video_call_interest: videoCallInterest,
         phone_24_hour_availability: is24HourAvailable,
         sms_24_hour_availability: isSms24HourAvailable,
+        time_zone: timeZone,
         updated_at: new Date().toISOString()
       };
       
@@ -816,6 +828,36 @@ const CallPrefs = () => {
           </div>
           )}
 
+          {/* Time Zone Section - Only show if a method with a time window is selected */}
+          {(isContactMethodSelected('phone') || isContactMethodSelected('sms')) && (
+          <div className="card">
+            <h3 className="text-xl font-semibold mb-6 font-heading flex items-center gap-3">
+              <Globe className="w-6 h-6 text-primary-aqua" />
+              Time Zone
+            </h3>
+            <p className="text-white/70 mb-6 font-body">
+              Your availability times are in this time zone. We detected it from your browser, but you can change it.
+            </p>
+
+            <div className="relative">
+              <select
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="w-full bg-white/5 text-white border border-white/20 rounded-xl px-4 py-4 pl-12 pr-12 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 focus:border-transparent backdrop-blur-lg text-base font-body appearance-none"
+                disabled={isSaving}
+              >
+                {timeZoneOptions.map((zone) => (
+                  <option key={zone} value={zone} className="bg-bg-primary text-white">
+                    {zone.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+              <Globe className="absolute left-4 top-1/2 transform -translate-y-1/2 text-white/40 w-5 h-5 pointer-events-none" />
+              <ChevronDown className="absolute right-4 top-1/2 transform -translate-y-1/2 text-white/40 w-5 h-5 pointer-events-none" />
+            </div>
+          </div>
+          )}
+
           {/* AI Triggers Section */}
           <div className="card">
             <h3 className="text-xl font-semibold mb-6 font-heading flex items-center gap-3">
@@ -896,4 +938,14 @@ const contactMethods = [
   { value: 'video', label: 'Video Call (Coming Soon)', icon: <Video className="w-4 h-4" /> }
 ];
 
-export default CallPrefs;
\ No newline at end of file
+// IANA time zone of the browser, such as America/New_York
+const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// All IANA time zones the browser knows, always including the selected one
+const getTimeZoneOptions = (selected: string): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [getBrowserTimeZone(), 'UTC'];
+  return zones.includes(selected) ? zones : [selected, ...zones];
+};
+
+export default CallPrefs;
@@ -19,6 +19,10 @@ const TwilioSetup = () => {
   const [error, setError] = useState<string | null>(null);
   const [showPhoneModal, setShowPhoneModal] = useState(false);
   const [phoneNumber, setPhoneNumber] = useState('');
+  const [verificationStep, setVerificationStep] = useState<'phone' | 'code' | 'verified'>('phone');
+  const [verificationCode, setVerificationCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifiedPhoneNumber, setVerifiedPhoneNumber] = useState<string | null>(null);
   const [showVoiceChatModal, setShowVoiceChatModal] = useState(false);
   const [callSid, setCallSid] = useState<string | null>(null);
   const [futurePhotoUrl, setFuturePhotoUrl] = useState<string | null>(null);
@@ -48,6 +52,39 @@ const TwilioSetup = () => {
     }
   }, [showPhoneModal]);
 
+  // Load the verified phone number, if the user already has one
+  useEffect(() => {
+    const loadVerifiedPhoneNumber = async () => {
+      if (!user?.id) return;
+
+      try {
+        const token = await getToken({ template: 'supabase' });
+        if (!token) return;
+
+        const supabase = createAuthenticatedSupabaseClient(token);
+        const { data, error } = await supabase
+          .from('user_profiles')
+          .select('phone_number, phone_verified_at')
+          .eq('user_id', user.id)
+          .single();
+
+        if (error) {
+          console.error('❌ Error fetching phone number:', error);
+          return;
+        }
+
+        if (data?.phone_number && data.phone_verified_at) {
+          setVerifiedPhoneNumber(data.phone_number);
+          setVerificationStep('verified');
+        }
+      } catch (error) {
+        console.error('❌ Error loading phone number:', error);
+      }
+    };
+
+    loadVerifiedPhoneNumber();
+  }, [user?.id, getToken]);
+
   // Handle scroll effect for blur
   useEffect(() => {
     const handleScroll = () => {
@@ -62,6 +99,11 @@ const TwilioSetup = () => {
   const formatPhoneNumber = (value: string) => {
     // Remove all non-digit characters
     const digits = value.replace(/\D/g, '');
+
+    // International numbers are kept as typed, digits only
+    if (value.trim().startsWith('+')) {
+      return `+${digits.slice(0, 15)}`;
+    }
     
     // Format as (XXX) XXX-XXXX
     if (digits.length <= 3) {
@@ -78,22 +120,105 @@ const TwilioSetup = () => {
     setPhoneNumber(formatted);
   };
 
-  const isValidPhoneNumber = (phone: string) => {
+  const getE164PhoneNumber = (phone: string) => {
     const digits = phone.replace(/\D/g, '');
-    return digits.length === 10;
+    // Numbers typed without a country code are treated as US numbers
+    return phone.trim().startsWith('+') ? `+${digits}` : `+1${digits}`;
   };
 
-  const getE164PhoneNumber = (phone: string) => {
-    const digits = phone.replace(/\D/g, '');
-    return `+1${digits}`;
+  const isValidPhoneNumber = (phone: string) => {
+    if (!phone.trim().startsWith('+') && phone.replace(/\D/g, '').length !== 10) {
+      return false;
+    }
+    return /^\+[1-9]\d{7,14}$/.test(getE164PhoneNumber(phone));
   };
 
-  const handleTestCall = async () => {
-    if (!phoneNumber || !isValidPhoneNumber(phoneNumber)) {
+  // POST to a twilio-call-handler route as the signed-in user
+  const postToTwilioHandler = async (route: string, body: Record<string, unknown>) => {
+    const token = await getToken({ template: 'supabase' });
+    if (!token) {
+      throw new Error('No authentication token available');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    if (!supabaseUrl) {
+      throw new Error('Supabase URL not found in environment variables');
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/twilio-call-handler/${route}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || !result.success) {
+      console.error(`❌ ${route} failed:`, {
+        status: response.status,
+        statusText: response.statusText,
+        error: result.error
+      });
+      throw new Error(result.error || `Request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return result;
+  };
+
+  const handleSendCode = async () => {
+    if (!isValidPhoneNumber(phoneNumber)) {
       setError('Please enter a valid phone number first.');
       return;
     }
 
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      await postToTwilioHandler('send-verification', { phone_number: getE164PhoneNumber(phoneNumber) });
+      console.log('✅ Verification code sent');
+      setVerificationCode('');
+      setVerificationStep('code');
+    } catch (error) {
+      console.error('❌ Failed to send verification code:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send verification code');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      await postToTwilioHandler('verify-phone', { code: verificationCode });
+      console.log('✅ Phone number verified');
+      setVerifiedPhoneNumber(getE164PhoneNumber(phoneNumber));
+      setVerificationStep('verified');
+    } catch (error) {
+      console.error('❌ Phone verification failed:', error);
+      setError(error instanceof Error ? error.message : 'Phone verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleChangeNumber = () => {
+    setVerificationStep('phone');
+    setVerificationCode('');
+    setError(null);
+  };
+
+  const handleTestCall = async () => {
+    if (!verifiedPhoneNumber) {
+      setError('Please verify your phone number first.');
+      return;
+    }
+
     setIsTestingCall(true);
     setTestCallStatus('idle');
     setError(null);
@@ -107,55 +232,9 @@ const TwilioSetup = () => {
         throw new Error('User authentication required');
       }
 
-      // Get authentication token
-      const token = await getToken({ template: 'supabase' });
-      if (!token) {
-        throw new Error('No authentication token available');
-      }
-
-      // Construct Edge Function URL
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      if (!supabaseUrl) {
-        throw new Error('Supabase URL not found in environment variables');
-      }
-
-      const edgeFunctionUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/initiate-call`;
-      console.log('🔗 Edge Function URL:', edgeFunctionUrl);
-
-      // Prepare request body
-      const requestBody = {
-        user_id: user.id,
-        to_phone_number: getE164PhoneNumber(phoneNumber)
-      };
-
-      console.log('📤 Sending call initiation request:', requestBody);
-
-      // Make request to Edge Function
-      const response = await fetch(edgeFunctionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('❌ Edge Function error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData
-        });
-        throw new Error(errorData.error || `Call initiation failed: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      console.log('✅ AI chat completion successful:', result);
-
-      if (!result.success) {
-        throw new Error(result.error || 'Call initiation failed');
-      }
+      // The Edge Function dials the verified number on the profile
+      console.log('📤 Sending call initiation request for user:', user.id);
+      const result = await postToTwilioHandler('initiate-call', { user_id: user.id });
 
       console.log('🎯 Call initiated with SID:', result.call_sid);
       setCallSid(result.call_sid);
@@ -218,6 +297,10 @@ const TwilioSetup = () => {
   const handleModalClose = () => {
     setShowPhoneModal(false);
     setPhoneNumber('');
+    setVerificationCode('');
+    if (verificationStep === 'code') {
+      setVerificationStep('phone');
+    }
     setError(null);
   };
 
@@ -304,66 +387,162 @@ const TwilioSetup = () => {
               <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary-aqua/20 mb-4">
                 <Phone className="w-8 h-8 text-primary-aqua" />
               </div>
-              <h3 className="text-2xl font-bold mb-3 font-heading">Enter Your Phone Number</h3>
-              <p className="text-white/70 mb-6 text-sm font-body">
-                We'll call this number to test your future self's voice and AI responses.
-              </p>
-              
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-text-secondary mb-2 font-heading">
-                  Phone Number
-                </label>
-                <input
-                  type="tel"
-                  value={phoneNumber}
-                  onChange={handlePhoneNumberChange}
-                  placeholder="(555) 123-4567"
-                  className="w-full bg-white/5 text-white border border-white/20 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 focus:border-transparent backdrop-blur-lg text-base font-body"
-                  maxLength={14}
-                />
-                {phoneNumber && !isValidPhoneNumber(phoneNumber) && (
-                  <p className="text-red-400 text-sm mt-2 font-body">
-                    Please enter a valid 10-digit phone number
+              {verificationStep === 'phone' && (
+                <>
+                  <h3 className="text-2xl font-bold mb-3 font-heading">Enter Your Phone Number</h3>
+                  <p className="text-white/70 mb-6 text-sm font-body">
+                    We'll text you a code to confirm this is your number. Your future self will only ever call a verified number.
                   </p>
-                )}
-              </div>
-              
-              <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-4 mb-6">
-                <div className="flex items-start gap-3">
-                  <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                    <span className="text-white text-xs font-bold">ℹ️</span>
+                  
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-text-secondary mb-2 font-heading">
+                      Phone Number
+                    </label>
+                    <input
+                      type="tel"
+                      value={phoneNumber}
+                      onChange={handlePhoneNumberChange}
+                      placeholder="(555) 123-4567 or +44 7700 900123"
+                      className="w-full bg-white/5 text-white border border-white/20 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 focus:border-transparent backdrop-blur-lg text-base font-body"
+                      maxLength={16}
+                    />
+                    {phoneNumber && !isValidPhoneNumber(phoneNumber) && (
+                      <p className="text-red-400 text-sm mt-2 font-body">
+                        Enter a 10-digit US number, or start with + and your country code
+                      </p>
+                    )}
                   </div>
-                  <div className="text-left">
-                    <h4 className="text-blue-400 font-semibold text-sm mb-2 font-heading">What to Expect</h4>
-                    <ul className="text-blue-300 text-xs space-y-1 font-body">
-                      <li>• You'll receive a call within 30 seconds</li>
-                      <li>• Your future self will greet you personally</li>
-                      <li>• You can have a real conversation about your goals</li>
-                      <li>• The call will last about 2-3 minutes</li>
-                    </ul>
+
+                  {error && (
+                    <p className="text-red-400 text-sm mb-4 font-body">{error}</p>
+                  )}
+                  
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleModalClose}
+                      className="flex-1 btn btn-outline font-heading"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSendCode}
+                      disabled={!isValidPhoneNumber(phoneNumber) || isVerifying}
+                      className={`flex-1 btn font-heading transition-all duration-300 ${
+                        isValidPhoneNumber(phoneNumber) && !isVerifying
+                          ? 'btn-primary' 
+                          : 'bg-transparent text-gray-400 border border-gray-600 cursor-not-allowed hover:bg-transparent'
+                      }`}
+                    >
+                      {isVerifying ? 'Sending...' : 'Send Code'}
+                    </button>
                   </div>
-                </div>
-              </div>
-              
-              <div className="flex gap-3">
-                <button
-                  onClick={handleModalClose}
-                  className="flex-1 btn btn-outline font-heading"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleTestCall}
-                  disabled={!phoneNumber || !isValidPhoneNumber(phoneNumber)}
-                  className={`flex-1 btn font-heading transition-all duration-300 ${
-                    phoneNumber && isValidPhoneNumber(phoneNumber)
-                      ? 'btn-primary' 
-                      : 'bg-transparent text-gray-400 border border-gray-600 cursor-not-allowed hover:bg-transparent'
-                  }`}
-                >
-                  Call Me Now
-                </button>
-              </div>
+                </>
+              )}
+
+              {verificationStep === 'code' && (
+                <>
+                  <h3 className="text-2xl font-bold mb-3 font-heading">Enter Your Code</h3>
+                  <p className="text-white/70 mb-6 text-sm font-body">
+                    We texted a 6-digit code to {getE164PhoneNumber(phoneNumber)}.
+                  </p>
+                  
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-text-secondary mb-2 font-heading">
+                      Verification Code
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={verificationCode}
+                      onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      placeholder="123456"
+                      className="w-full bg-white/5 text-white border border-white/20 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-primary-aqua/50 focus:border-transparent backdrop-blur-lg text-base font-body text-center tracking-widest"
+                      maxLength={6}
+                    />
+                  </div>
+
+                  {error && (
+                    <p className="text-red-400 text-sm mb-4 font-body">{error}</p>
+                  )}
+
+                  <div className="flex gap-3 mb-4">
+                    <button
+                      onClick={handleChangeNumber}
+                      className="flex-1 btn btn-outline font-heading"
+                    >
+                      Change Number
+                    </button>
+                    <button
+                      onClick={handleVerifyCode}
+                      disabled={verificationCode.length !== 6 || isVerifying}
+                      className={`flex-1 btn font-heading transition-all duration-300 ${
+                        verificationCode.length === 6 && !isVerifying
+                          ? 'btn-primary' 
+                          : 'bg-transparent text-gray-400 border border-gray-600 cursor-not-allowed hover:bg-transparent'
+                      }`}
+                    >
+                      {isVerifying ? 'Verifying...' : 'Verify'}
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={handleSendCode}
+                    disabled={isVerifying}
+                    className="text-white/60 text-sm underline hover:text-white font-body"
+                  >
+                    Resend code
+                  </button>
+                </>
+              )}
+
+              {verificationStep === 'verified' && (
+                <>
+                  <h3 className="text-2xl font-bold mb-3 font-heading">Ready for Your Call</h3>
+                  <p className="text-white/70 mb-6 text-sm font-body">
+                    We'll call your verified number {verifiedPhoneNumber} to test your future self's voice and AI responses.
+                  </p>
+                  
+                  <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-4 mb-6">
+                    <div className="flex items-start gap-3">
+                      <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                        <span className="text-white text-xs font-bold">ℹ️</span>
+                      </div>
+                      <div className="text-left">
+                        <h4 className="text-blue-400 font-semibold text-sm mb-2 font-heading">What to Expect</h4>
+                        <ul className="text-blue-300 text-xs space-y-1 font-body">
+                          <li>• You'll receive a call within 30 seconds</li>
+                          <li>• Your future self will greet you personally</li>
+                          <li>• You can have a real conversation about your goals</li>
+                          <li>• The call will last about 2-3 minutes</li>
+                        </ul>
+                      </div>
+                    </div>
+                  </div>
+                  
+                  <div className="flex gap-3 mb-4">
+                    <button
+                      onClick={handleModalClose}
+                      className="flex-1 btn btn-outline font-heading"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleTestCall}
+                      className="flex-1 btn btn-primary font-heading transition-all duration-300"
+                    >
+                      Call Me Now
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={handleChangeNumber}
+                    className="text-white/60 text-sm underline hover:text-white font-body"
+                  >
+                    Use a different number
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -9,6 +9,135 @@ type Json =
 export type Database = {
   public: {
     Tables: {
+      call_turns: {
+        Row: {
+          audio_path: string | null
+          call_id: string
+          content: string
+          created_at: string | null
+          id: string
+          role: string
+          turn_index: number
+          user_id: string
+        }
+        Insert: {
+          audio_path?: string | null
+          call_id: string
+          content: string
+          created_at?: string | null
+          id?: string
+          role: string
+          turn_index: number
+          user_id: string
+        }
+        Update: {
+          audio_path?: string | null
+          call_id?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          turn_index?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_call_turns_call_id"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_call_turns_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      calls: {
+        Row: {
+          call_sid: string | null
+          channel: string
+          created_at: string | null
+          direction: string
+          duration_seconds: number | null
+          ended_at: string | null
+          id: string
+          memories_extracted_at: string | null
+          outcome: string | null
+          price: number | null
+          price_unit: string | null
+          safety_flagged_at: string | null
+          scheduled_call_id: string | null
+          started_at: string
+          status: string
+          updated_at: string | null
+          user_id: string
+          voicemail_audio_path: string | null
+          voicemail_text: string | null
+        }
+        Insert: {
+          call_sid?: string | null
+          channel: string
+          created_at?: string | null
+          direction?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          memories_extracted_at?: string | null
+          outcome?: string | null
+          price?: number | null
+          price_unit?: string | null
+          safety_flagged_at?: string | null
+          scheduled_call_id?: string | null
+          started_at?: string
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          voicemail_audio_path?: string | null
+          voicemail_text?: string | null
+        }
+        Update: {
+          call_sid?: string | null
+          channel?: string
+          created_at?: string | null
+          direction?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          memories_extracted_at?: string | null
+          outcome?: string | null
+          price?: number | null
+          price_unit?: string | null
+          safety_flagged_at?: string | null
+          scheduled_call_id?: string | null
+          started_at?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          voicemail_audio_path?: string | null
+          voicemail_text?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_calls_scheduled_call_id"
+            columns: ["scheduled_call_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_calls_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string | null
@@ -47,6 +176,174 @@ export type Database = {
           },
         ]
       }
+      chat_memories: {
+        Row: {
+          created_at: string | null
+          summarized_through: string | null
+          summary: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          summarized_through?: string | null
+          summary?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          summarized_through?: string | null
+          summary?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_chat_memories_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      contact_suppressions: {
+        Row: {
+          channel: string
+          created_at: string | null
+          detail: Json | null
+          id: string
+          purpose: string
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string | null
+          detail?: Json | null
+          id?: string
+          purpose: string
+          reason: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string | null
+          detail?: Json | null
+          id?: string
+          purpose?: string
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_contact_suppressions_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      email_digests: {
+        Row: {
+          claimed_at: string | null
+          created_at: string | null
+          id: string
+          last_error: string | null
+          send_at: string
+          sent_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          week_start: string
+          window_end: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          send_at: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          week_start: string
+          window_end: string
+        }
+        Update: {
+          claimed_at?: string | null
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          send_at?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          week_start?: string
+          window_end?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_email_digests_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      goal_progress: {
+        Row: {
+          created_at: string | null
+          goal_id: string
+          id: string
+          logged_on: string
+          note: string | null
+          source: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          goal_id: string
+          id?: string
+          logged_on: string
+          note?: string | null
+          source: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          goal_id?: string
+          id?: string
+          logged_on?: string
+          note?: string | null
+          source?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_goal_progress_goal_id"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_goal_progress_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       goals: {
         Row: {
           category_id: string
@@ -133,68 +430,473 @@ export type Database = {
           },
         ]
       }
+      phone_verifications: {
+        Row: {
+          attempt_count: number
+          code_hash: string
+          created_at: string | null
+          expires_at: string
+          id: string
+          last_sent_at: string
+          phone_number: string
+          user_id: string
+        }
+        Insert: {
+          attempt_count?: number
+          code_hash: string
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          last_sent_at?: string
+          phone_number: string
+          user_id: string
+        }
+        Update: {
+          attempt_count?: number
+          code_hash?: string
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          last_sent_at?: string
+          phone_number?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_phone_verifications_user_id"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      quiet_hours: {
+        Row: {
+          created_at: string | null
+          end_time: string
+          id: string
+          start_time: string
+          user_id: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string | null
+          end_time: string
+          id?: string
+          start_time: string
+          user_id: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string | null
+          end_time?: string
+          id?: string
+          start_time?: string
+          user_id?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_quiet_hours_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      safety_events: {
+        Row: {
+          call_id: string | null
+          category: string
+          channel: string | null
+          created_at: string | null
+          detected_by: string
+          id: string
+          reviewed_at: string | null
+          user_id: string
+          utterance: string
+        }
+        Insert: {
+          call_id?: string | null
+          category: string
+          channel?: string | null
+          created_at?: string | null
+          detected_by: string
+          id?: string
+          reviewed_at?: string | null
+          user_id: string
+          utterance: string
+        }
+        Update: {
+          call_id?: string | null
+          category?: string
+          channel?: string | null
+          created_at?: string | null
+          detected_by?: string
+          id?: string
+          reviewed_at?: string | null
+          user_id?: string
+          utterance?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_safety_events_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fk_safety_events_call_id"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_calls: {
+        Row: {
+          answered_at: string | null
+          attempt_count: number
+          call_sid: string | null
+          created_at: string | null
+          goal_ids: string[]
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          last_outcome: string | null
+          next_attempt_at: string
+          scheduled_date: string
+          scheduled_for: string
+          status: string
+          updated_at: string | null
+          user_id: string
+          window_end: string
+        }
+        Insert: {
+          answered_at?: string | null
+          attempt_count?: number
+          call_sid?: string | null
+          created_at?: string | null
+          goal_ids?: string[]
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_outcome?: string | null
+          next_attempt_at: string
+          scheduled_date: string
+          scheduled_for: string
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          window_end: string
+        }
+        Update: {
+          answered_at?: string | null
+          attempt_count?: number
+          call_sid?: string | null
+          created_at?: string | null
+          goal_ids?: string[]
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_outcome?: string | null
+          next_attempt_at?: string
+          scheduled_date?: string
+          scheduled_for?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          window_end?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_scheduled_calls_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      sms_check_ins: {
+        Row: {
+          claimed_at: string | null
+          created_at: string | null
+          goal_ids: string[]
+          id: string
+          last_error: string | null
+          message_sid: string | null
+          scheduled_date: string
+          send_at: string
+          sent_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          window_end: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          created_at?: string | null
+          goal_ids?: string[]
+          id?: string
+          last_error?: string | null
+          message_sid?: string | null
+          scheduled_date: string
+          send_at: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          window_end: string
+        }
+        Update: {
+          claimed_at?: string | null
+          created_at?: string | null
+          goal_ids?: string[]
+          id?: string
+          last_error?: string | null
+          message_sid?: string | null
+          scheduled_date?: string
+          send_at?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          window_end?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_sms_check_ins_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      sms_messages: {
+        Row: {
+          body: string
+          created_at: string | null
+          direction: string
+          goal_id: string | null
+          id: string
+          message_sid: string | null
+          sms_check_in_id: string | null
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          direction: string
+          goal_id?: string | null
+          id?: string
+          message_sid?: string | null
+          sms_check_in_id?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          direction?: string
+          goal_id?: string | null
+          id?: string
+          message_sid?: string | null
+          sms_check_in_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_sms_messages_goal_id"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_sms_messages_sms_check_in_id"
+            columns: ["sms_check_in_id"]
+            isOneToOne: false
+            referencedRelation: "sms_check_ins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_sms_messages_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      tts_cache: {
+        Row: {
+          cache_key: string
+          created_at: string | null
+          last_used_at: string
+          model_id: string
+          size_bytes: number | null
+          storage_path: string
+          voice_id: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string | null
+          last_used_at?: string
+          model_id: string
+          size_bytes?: number | null
+          storage_path: string
+          voice_id: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string | null
+          last_used_at?: string
+          model_id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          voice_id?: string
+        }
+        Relationships: []
+      }
+      user_memories: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          source_call_id: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          id?: string
+          source_call_id?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          source_call_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_user_memories_source_call_id"
+            columns: ["source_call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_user_memories_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       user_profiles: {
         Row: {
           avatar_url: string | null
           ai_triggered_enabled: boolean | null
+          contact_paused_until: string | null
           contact_prefs: string[] | null
           created_at: string | null
+          email: string | null
           email_notifications_enabled: boolean | null
           future_photo_updated_at: string | null
           future_photo_url: string | null
           onboarding_completed: boolean | null
+          phone_24_hour_availability: boolean | null
+          phone_number: string | null
+          phone_verified_at: string | null
           photo_updated_at: string | null
           photo_url: string | null
+          preferred_email_time_end: string | null
+          preferred_email_time_start: string | null
           preferred_sms_time_end: string | null
           preferred_sms_time_start: string | null
           preferred_time_end: string | null
           preferred_time_start: string | null
+          sms_24_hour_availability: boolean | null
           sms_notifications_enabled: boolean | null
+          sms_opted_out_at: string | null
           supabase_uuid: string | null
+          time_zone: string | null
           updated_at: string | null
           user_id: string
+          video_call_interest: boolean | null
           voice_preference: string
         }
         Insert: {
           avatar_url?: string | null
           ai_triggered_enabled?: boolean | null
+          contact_paused_until?: string | null
           contact_prefs?: string[] | null
           created_at?: string | null
+          email?: string | null
           email_notifications_enabled?: boolean | null
           future_photo_updated_at?: string | null
           future_photo_url?: string | null
           onboarding_completed?: boolean | null
+          phone_24_hour_availability?: boolean | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           photo_updated_at?: string | null
           photo_url?: string | null
+          preferred_email_time_end?: string | null
+          preferred_email_time_start?: string | null
           preferred_sms_time_end?: string | null
           preferred_sms_time_start?: string | null
           preferred_time_end?: string | null
           preferred_time_start?: string | null
+          sms_24_hour_availability?: boolean | null
           sms_notifications_enabled?: boolean | null
+          sms_opted_out_at?: string | null
           supabase_uuid?: string | null
+          time_zone?: string | null
           updated_at?: string | null
           user_id?: string
+          video_call_interest?: boolean | null
           voice_preference: string
         }
         Update: {
           avatar_url?: string | null
           ai_triggered_enabled?: boolean | null
+          contact_paused_until?: string | null
           contact_prefs?: string[] | null
           created_at?: string | null
+          email?: string | null
           email_notifications_enabled?: boolean | null
           future_photo_updated_at?: string | null
           future_photo_url?: string | null
           onboarding_completed?: boolean | null
+          phone_24_hour_availability?: boolean | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           photo_updated_at?: string | null
           photo_url?: string | null
+          preferred_email_time_end?: string | null
+          preferred_email_time_start?: string | null
           preferred_sms_time_end?: string | null
           preferred_sms_time_start?: string | null
           preferred_time_end?: string | null
           preferred_time_start?: string | null
+          sms_24_hour_availability?: boolean | null
           sms_notifications_enabled?: boolean | null
+          sms_opted_out_at?: string | null
           supabase_uuid?: string | null
+          time_zone?: string | null
           updated_at?: string | null
           user_id?: string
+          video_call_interest?: boolean | null
           voice_preference?: string
         }
         Relationships: []
@@ -268,6 +970,50 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_emails: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          last_error: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string | null
+          waitlist_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string | null
+          waitlist_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string | null
+          waitlist_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_waitlist_emails_waitlist_id"
+            columns: ["waitlist_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
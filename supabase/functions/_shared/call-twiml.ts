@@ -0,0 +1,59 @@
+// TwiML documents for each stage of a phone call with the future self, built with the typed
+// builder in twiml.ts. They take no request state, so the exact XML of every stage can be
+// tested without serving twilio-call-handler.
+
+import { buildTwiML, connectStream, gather, hangup, play, redirect, say } from './twiml.ts'
+import { signStreamToken } from './stream-token.ts'
+
+// Generate TwiML that plays the future self's reply and listens for the user's answer. Without
+// rendered audio, Twilio reads the reply out in its own voice.
+export function generateTwiML(audioUrl: string | null, text: string, webhookUrl: string, userId: string, callId: string): string {
+  const actionUrl = `${webhookUrl}?${new URLSearchParams({ user_id: userId, call_id: callId }).toString()}`;
+
+  return buildTwiML([
+    audioUrl ? play(audioUrl) : say(text, { voice: 'alice' }),
+    gather({ input: ['speech'], timeout: 10, speechTimeout: 'auto', action: actionUrl, method: 'POST' }, [
+      say("Please respond when you're ready.", { voice: 'alice' })
+    ]),
+    say("I didn't hear a response. Have a great day!", { voice: 'alice' }),
+    hangup()
+  ]);
+}
+
+// Generate TwiML that hands the conversation to the twilio-media-stream websocket.
+// If the stream drops, Twilio continues with the Redirect and the TwiML loop picks the call back up.
+export async function generateRealtimeTwiML(
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  webhookUrl: string,
+  userId: string,
+  callId: string
+): Promise<string> {
+  const streamUrl = `${supabaseUrl.replace(/^http/, 'ws')}/functions/v1/twilio-media-stream`;
+  const token = await signStreamToken(supabaseServiceKey, callId, userId);
+  const fallbackUrl = `${webhookUrl}?${new URLSearchParams({ user_id: userId, call_id: callId, fallback: '1' }).toString()}`;
+
+  return buildTwiML([
+    connectStream(streamUrl, { call_id: callId, user_id: userId, token }),
+    redirect(fallbackUrl)
+  ]);
+}
+
+// Generate TwiML that explains the number to callers without an account and hangs up
+export function generateUnknownCallerTwiML(): string {
+  return buildTwiML([
+    say("Hi, thanks for calling My Future Self. We couldn't find an account with the number you're calling from. Add this phone number to your profile in the app, then call back any time to talk with your future self. Goodbye!", { voice: 'alice' }),
+    hangup()
+  ]);
+}
+
+// Generate TwiML that plays a voicemail after the beep and hangs up. Without rendered audio,
+// Twilio reads the text out in its own voice.
+export function generateVoicemailTwiML(audioUrl: string | null, text: string): string {
+  return buildTwiML([audioUrl ? play(audioUrl) : say(text, { voice: 'alice' }), hangup()]);
+}
+
+// Generate TwiML that ends the call without speaking
+export function generateHangupTwiML(): string {
+  return buildTwiML([hangup()]);
+}
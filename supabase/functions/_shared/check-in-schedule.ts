@@ -0,0 +1,58 @@
+// When goals with a check-in frequency are due. Shared by every channel that sends
+// check-ins, so calls and texts follow the same routine the user picked during onboarding.
+
+// Frequencies offered on the commitments step that result in check-ins
+export const CHECK_IN_FREQUENCIES = ['Daily', 'Weekly', 'Bi-weekly', 'Monthly', 'Quarterly'];
+
+export interface CheckInGoal {
+  frequency: string;
+  start_date: string | null;
+  created_at: string;
+}
+
+// Whole days between two YYYY-MM-DD dates
+function daysBetween(from: string, to: string): number {
+  const fromTime = Date.parse(`${from}T00:00:00Z`);
+  const toTime = Date.parse(`${to}T00:00:00Z`);
+  return Math.round((toTime - fromTime) / (1000 * 60 * 60 * 24));
+}
+
+// Check whether the anchor day of month falls on the given date, clamping to short months
+function isSameDayOfMonth(anchor: string, date: string): boolean {
+  const anchorDay = Number(anchor.split('-')[2]);
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDayOfMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day === Math.min(anchorDay, lastDayOfMonth);
+}
+
+// Whole months between two YYYY-MM-DD dates, ignoring the day
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+// Determine whether a goal's check-in frequency makes a check-in due on the given date
+export function isCheckInDue(goal: CheckInGoal, date: string): boolean {
+  const anchor = goal.start_date || goal.created_at.split('T')[0];
+  const elapsedDays = daysBetween(anchor, date);
+
+  if (elapsedDays < 0) {
+    return false;
+  }
+
+  switch (goal.frequency) {
+    case 'Daily':
+      return true;
+    case 'Weekly':
+      return elapsedDays % 7 === 0;
+    case 'Bi-weekly':
+      return elapsedDays % 14 === 0;
+    case 'Monthly':
+      return isSameDayOfMonth(anchor, date);
+    case 'Quarterly':
+      return monthsBetween(anchor, date) % 3 === 0 && isSameDayOfMonth(anchor, date);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,100 @@
+// Verification of the Clerk session tokens the app sends as its bearer token. Functions that
+// are deployed without Supabase's own JWT check must verify a token here before trusting the
+// user id in it: the RS256 signature is checked against the Clerk instance's published keys
+// (JWKS), along with the issuer and the token's lifetime.
+
+interface ClerkJwk {
+  kid: string;
+  kty: string;
+  n: string;
+  e: string;
+}
+
+// Allowed difference between Clerk's clock and ours when checking exp and nbf, in seconds
+const CLOCK_SKEW_SECONDS = 5;
+
+// Signing keys per issuer for the life of the isolate; fetched again when a token is signed
+// with a key we have not seen, so Clerk's key rotation is picked up
+const signingKeys = new Map<string, ClerkJwk[]>();
+
+function base64UrlDecode(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), character => character.charCodeAt(0)).buffer as ArrayBuffer;
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+}
+
+async function findSigningKey(issuer: string, kid: string): Promise<ClerkJwk | null> {
+  const cached = signingKeys.get(issuer)?.find(key => key.kid === kid);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/jwks.json`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Clerk signing keys (${response.status})`);
+  }
+
+  const { keys } = await response.json() as { keys?: ClerkJwk[] };
+  signingKeys.set(issuer, (keys || []).filter(key => key.kty === 'RSA'));
+  return signingKeys.get(issuer)?.find(key => key.kid === kid) || null;
+}
+
+// Verify a Clerk session token issued by `issuer` (the instance's Frontend API URL, such as
+// https://clerk.example.com) and return the user id it was issued for. Throws when the token
+// is malformed, signed by another key, expired, not yet valid or from another issuer.
+export async function verifyClerkToken(token: string, issuer: string): Promise<string> {
+  const expectedIssuer = issuer.replace(/\/+$/, '');
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeJsonSegment(encodedHeader);
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw new Error('Unsupported token signature');
+  }
+
+  const jwk = await findSigningKey(expectedIssuer, header.kid);
+  if (!jwk) {
+    throw new Error('Token signed with an unknown key');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: 'RSA', n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const isValid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!isValid) {
+    throw new Error('Invalid token signature');
+  }
+
+  const payload = decodeJsonSegment(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (payload.iss !== expectedIssuer) {
+    throw new Error('Token from another issuer');
+  }
+  if (typeof payload.exp !== 'number' || payload.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > now + CLOCK_SKEW_SECONDS) {
+    throw new Error('Token not yet valid');
+  }
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new Error('No user ID found in token');
+  }
+
+  return payload.sub;
+}
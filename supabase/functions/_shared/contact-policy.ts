@@ -0,0 +1,189 @@
+// Central contact policy. Every Edge Function that reaches out to a user by phone, SMS or
+// email asks checkContactPolicy first; blocked attempts are recorded in contact_suppressions.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLocalDate, getLocalTime, getLocalWeekday, resolveTimeZone, zonedTimeToUtc } from './time-zone.ts'
+
+export type ContactChannel = 'phone' | 'sms' | 'email';
+
+// check_in: outreach the app starts on its own, such as scheduled calls and texts.
+// user_requested: the user asked to be contacted right now, such as "call me" in the app.
+// transactional: messages the user needs to use the app, such as verification codes.
+export type ContactPurpose = 'check_in' | 'user_requested' | 'transactional';
+
+export type SuppressionReason = 'sms_opted_out' | 'channel_disabled' | 'vacation' | 'quiet_hours' | 'profile_not_found';
+
+export interface ContactRequest {
+  userId: string;
+  channel: ContactChannel;
+  purpose: ContactPurpose;
+  // Stored with a suppression to show what was blocked, e.g. the scheduled call id
+  detail?: Record<string, unknown>;
+}
+
+export type ContactDecision =
+  | { allowed: true }
+  // resumeAt is when the same attempt would next be allowed, when that is known
+  | { allowed: false; reason: SuppressionReason; resumeAt: Date | null };
+
+interface PolicyProfile {
+  contact_prefs: string[] | null;
+  sms_notifications_enabled: boolean | null;
+  email_notifications_enabled: boolean | null;
+  sms_opted_out_at: string | null;
+  contact_paused_until: string | null;
+  time_zone: string | null;
+}
+
+interface QuietHoursRow {
+  start_time: string;
+  end_time: string;
+}
+
+// Carrier-standard keywords for unsubscribing from and resubscribing to texts
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const START_KEYWORDS = ['START', 'YES', 'UNSTOP'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+export type OptKeyword = 'stop' | 'start' | 'help';
+
+// Match an inbound text against the opt-out keywords; the whole message must be the keyword
+export function parseOptKeyword(body: string): OptKeyword | null {
+  const word = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  if (STOP_KEYWORDS.includes(word)) return 'stop';
+  if (START_KEYWORDS.includes(word)) return 'start';
+  if (HELP_KEYWORDS.includes(word)) return 'help';
+  return null;
+}
+
+// Record a STOP or START reply on the profile
+export async function setSmsOptOut(supabase: SupabaseClient, userId: string, optedOut: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ sms_opted_out_at: optedOut ? new Date().toISOString() : null })
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update SMS opt-out: ${error.message}`);
+  }
+}
+
+function isChannelEnabled(profile: PolicyProfile, channel: ContactChannel): boolean {
+  switch (channel) {
+    case 'phone':
+      return (profile.contact_prefs || []).includes('phone');
+    case 'sms':
+      return !!profile.sms_notifications_enabled;
+    case 'email':
+      return !!profile.email_notifications_enabled;
+  }
+}
+
+// The quiet period the user is in right now, if any, as the instant it ends
+async function getActiveQuietHoursEnd(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date,
+  timeZone: string
+): Promise<Date | null> {
+  const { data: quietHours, error } = await supabase
+    .from('quiet_hours')
+    .select('start_time, end_time')
+    .eq('user_id', userId)
+    .eq('weekday', getLocalWeekday(now, timeZone));
+
+  if (error) {
+    throw new Error(`Failed to load quiet hours: ${error.message}`);
+  }
+
+  const localTime = getLocalTime(now, timeZone);
+  const active = (quietHours as QuietHoursRow[] || [])
+    .filter(range => range.start_time <= localTime && localTime < range.end_time)
+    .sort((a, b) => b.end_time.localeCompare(a.end_time))[0];
+
+  return active ? zonedTimeToUtc(getLocalDate(now, timeZone), active.end_time, timeZone) : null;
+}
+
+async function evaluate(
+  supabase: SupabaseClient,
+  request: ContactRequest,
+  now: Date
+): Promise<ContactDecision> {
+  const { data: profile, error } = await supabase
+    .from('user_profiles')
+    .select('contact_prefs, sms_notifications_enabled, email_notifications_enabled, sms_opted_out_at, contact_paused_until, time_zone')
+    .eq('user_id', request.userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load contact preferences: ${error.message}`);
+  }
+
+  if (!profile) {
+    return { allowed: false, reason: 'profile_not_found', resumeAt: null };
+  }
+
+  const policyProfile = profile as PolicyProfile;
+
+  // A STOP reply blocks every text, whatever it is for, until the user replies START
+  if (request.channel === 'sms' && policyProfile.sms_opted_out_at) {
+    return { allowed: false, reason: 'sms_opted_out', resumeAt: null };
+  }
+
+  // Preferences, vacations and quiet hours only limit outreach the user did not ask for
+  if (request.purpose !== 'check_in') {
+    return { allowed: true };
+  }
+
+  if (!isChannelEnabled(policyProfile, request.channel)) {
+    return { allowed: false, reason: 'channel_disabled', resumeAt: null };
+  }
+
+  const timeZone = resolveTimeZone(policyProfile.time_zone);
+
+  if (policyProfile.contact_paused_until && getLocalDate(now, timeZone) < policyProfile.contact_paused_until) {
+    return {
+      allowed: false,
+      reason: 'vacation',
+      resumeAt: zonedTimeToUtc(policyProfile.contact_paused_until, '00:00', timeZone)
+    };
+  }
+
+  const quietHoursEnd = await getActiveQuietHoursEnd(supabase, request.userId, now, timeZone);
+  if (quietHoursEnd) {
+    return { allowed: false, reason: 'quiet_hours', resumeAt: quietHoursEnd };
+  }
+
+  return { allowed: true };
+}
+
+// Decide whether the user may be contacted now, logging the attempt when it is suppressed
+export async function checkContactPolicy(
+  supabase: SupabaseClient,
+  request: ContactRequest,
+  now: Date = new Date()
+): Promise<ContactDecision> {
+  const decision = await evaluate(supabase, request, now);
+
+  if (!decision.allowed) {
+    const { error } = await supabase
+      .from('contact_suppressions')
+      .insert({
+        user_id: request.userId,
+        channel: request.channel,
+        purpose: request.purpose,
+        reason: decision.reason,
+        detail: {
+          ...request.detail,
+          ...(decision.resumeAt && { resume_at: decision.resumeAt.toISOString() })
+        }
+      });
+
+    if (error) {
+      // The attempt stays suppressed even when it cannot be logged
+      console.error(`Failed to log contact suppression for ${request.userId}: ${error.message}`);
+    }
+  }
+
+  return decision;
+}
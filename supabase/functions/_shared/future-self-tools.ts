@@ -0,0 +1,477 @@
+// Actions the future self can take during a conversation through OpenAI tool calling.
+// Every tool call is checked against the user's own rows before anything is written, and
+// each action taken is returned as a one-line summary for the call transcript.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CHECK_IN_FREQUENCIES } from './check-in-schedule.ts'
+import { formatUserDataBlock, sanitizePromptText } from './prompt-assembly.ts'
+import { getLocalDate, resolveTimeZone, zonedTimeToUtc } from './time-zone.ts'
+
+// Completions that may call tools before the future self has to answer in words
+export const MAX_TOOL_ROUNDS = 3;
+
+// Frequency for goals the user checks in on by themselves
+const NO_CHECK_IN_FREQUENCY = 'None, I will reach out on my own';
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_OBSTACLE_LENGTH = 200;
+
+// A call the future self schedules is dialed within this many minutes of the agreed time
+const SCHEDULED_CALL_WINDOW_MINUTES = 60;
+
+// How soon and how far ahead the next call can be scheduled
+const MIN_CALL_LEAD_MINUTES = 15;
+const MAX_CALL_LEAD_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Channel the conversation happens on, recorded as the source of logged progress
+export type ToolChannel = 'phone' | 'in_app';
+
+export interface ToolGoal {
+  id: string;
+  title: string;
+}
+
+export interface ToolContext {
+  supabase: SupabaseClient;
+  userId: string;
+  channel: ToolChannel;
+  goals: ToolGoal[];
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ToolResultMessage {
+  role: 'tool';
+  tool_call_id: string;
+  content: string;
+}
+
+// Tool arguments that fail validation; the message is shown to the model so it can tell the user
+class ToolInputError extends Error {}
+
+type ToolArguments = Record<string, unknown>;
+
+// OpenAI tool definitions. Goal ids are limited to the user's own goals, listed with their
+// sanitized titles quoted as JSON strings.
+export function buildToolDefinitions(goals: ToolGoal[]): object[] {
+  const goalId = {
+    type: 'string',
+    enum: goals.map(goal => goal.id),
+    description: `Id of the goal. The user's goals are: ${goals.map(goal => `${goal.id} = ${JSON.stringify(sanitizePromptText(goal.title))}`).join('; ')}`
+  };
+
+  const scheduleNextCall = {
+    type: 'function',
+    function: {
+      name: 'schedule_next_call',
+      description: 'Schedule the next check-in phone call at a date and time the user agreed to, in their own time zone.',
+      parameters: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'Date of the call, YYYY-MM-DD' },
+          time: { type: 'string', description: 'Time of the call, HH:MM on a 24-hour clock' }
+        },
+        required: ['date', 'time'],
+        additionalProperties: false
+      }
+    }
+  };
+
+  if (goals.length === 0) {
+    return [scheduleNextCall];
+  }
+
+  return [
+    {
+      type: 'function',
+      function: {
+        name: 'log_progress',
+        description: 'Record that the user did, or skipped, the work for a goal today. Only use it when the user clearly says so.',
+        parameters: {
+          type: 'object',
+          properties: {
+            goal_id: goalId,
+            status: { type: 'string', enum: ['done', 'skipped'] },
+            note: { type: 'string', description: 'Short note in the user\'s words, such as "ran 5k"' }
+          },
+          required: ['goal_id', 'status'],
+          additionalProperties: false
+        }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'update_goal',
+        description: 'Change the deadline or check-in frequency of a goal when the user asks for it.',
+        parameters: {
+          type: 'object',
+          properties: {
+            goal_id: goalId,
+            deadline: { type: 'string', description: 'New deadline, YYYY-MM-DD' },
+            frequency: { type: 'string', enum: [...CHECK_IN_FREQUENCIES, NO_CHECK_IN_FREQUENCY] }
+          },
+          required: ['goal_id'],
+          additionalProperties: false
+        }
+      }
+    },
+    {
+      type: 'function',
+      function: {
+        name: 'add_obstacle',
+        description: 'Remember a new obstacle that is getting in the way of a goal.',
+        parameters: {
+          type: 'object',
+          properties: {
+            goal_id: goalId,
+            obstacle: { type: 'string', description: 'The obstacle in a few words, such as "Late shifts at work"' }
+          },
+          required: ['goal_id', 'obstacle'],
+          additionalProperties: false
+        }
+      }
+    },
+    scheduleNextCall
+  ];
+}
+
+function optionalString(args: ToolArguments, name: string, maxLength: number): string | null {
+  const value = args[name];
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new ToolInputError(`${name} must be a string`);
+  }
+  if (value.trim().length > maxLength) {
+    throw new ToolInputError(`${name} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function requiredString(args: ToolArguments, name: string, maxLength: number): string {
+  const value = optionalString(args, name, maxLength);
+  if (value === null) {
+    throw new ToolInputError(`${name} is required`);
+  }
+  return value;
+}
+
+function isValidDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) {
+    return false;
+  }
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+// Load a goal only if it belongs to the user
+async function findOwnedGoal(
+  context: ToolContext,
+  goalId: string
+): Promise<{ id: string; title: string; start_date: string | null }> {
+  if (!UUID_PATTERN.test(goalId)) {
+    throw new ToolInputError('No goal with that id belongs to the user');
+  }
+
+  const { data: goal, error } = await context.supabase
+    .from('goals')
+    .select('id, title, start_date')
+    .eq('id', goalId)
+    .eq('user_id', context.userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load goal: ${error.message}`);
+  }
+
+  if (!goal) {
+    throw new ToolInputError('No goal with that id belongs to the user');
+  }
+
+  return goal;
+}
+
+async function loadProfile(
+  context: ToolContext
+): Promise<{ timeZone: string; phoneVerified: boolean }> {
+  const { data: profile, error } = await context.supabase
+    .from('user_profiles')
+    .select('time_zone, phone_number, phone_verified_at')
+    .eq('user_id', context.userId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load profile: ${error.message}`);
+  }
+
+  return {
+    timeZone: resolveTimeZone(profile.time_zone),
+    phoneVerified: !!profile.phone_number && !!profile.phone_verified_at
+  };
+}
+
+async function logProgress(context: ToolContext, args: ToolArguments): Promise<string> {
+  const goal = await findOwnedGoal(context, requiredString(args, 'goal_id', 64));
+  const status = args.status;
+  if (status !== 'done' && status !== 'skipped') {
+    throw new ToolInputError('status must be "done" or "skipped"');
+  }
+  const note = optionalString(args, 'note', MAX_NOTE_LENGTH);
+  const { timeZone } = await loadProfile(context);
+
+  const { error } = await context.supabase
+    .from('goal_progress')
+    .insert({
+      user_id: context.userId,
+      goal_id: goal.id,
+      status,
+      source: context.channel,
+      logged_on: getLocalDate(new Date(), timeZone),
+      note
+    });
+
+  if (error) {
+    throw new Error(`Failed to log progress: ${error.message}`);
+  }
+
+  return `Logged "${goal.title}" as ${status} today${note ? ` (${note})` : ''}`;
+}
+
+async function updateGoal(context: ToolContext, args: ToolArguments): Promise<string> {
+  const goal = await findOwnedGoal(context, requiredString(args, 'goal_id', 64));
+  const deadline = optionalString(args, 'deadline', 10);
+  const frequency = optionalString(args, 'frequency', 64);
+
+  if (!deadline && !frequency) {
+    throw new ToolInputError('Give a new deadline, a new frequency or both');
+  }
+
+  const { timeZone } = await loadProfile(context);
+  const today = getLocalDate(new Date(), timeZone);
+  const update: Record<string, string> = {};
+  const changes: string[] = [];
+
+  if (deadline) {
+    if (!isValidDate(deadline)) {
+      throw new ToolInputError('deadline must be a date formatted YYYY-MM-DD');
+    }
+    if (deadline < today) {
+      throw new ToolInputError('deadline cannot be in the past');
+    }
+    update.deadline = deadline;
+    changes.push(`moved the deadline to ${deadline}`);
+  }
+
+  if (frequency) {
+    if (frequency !== NO_CHECK_IN_FREQUENCY && !CHECK_IN_FREQUENCIES.includes(frequency)) {
+      throw new ToolInputError(`frequency must be one of: ${[...CHECK_IN_FREQUENCIES, NO_CHECK_IN_FREQUENCY].join(', ')}`);
+    }
+    update.frequency = frequency;
+    // Check-ins count from the start date, which goals without a routine never had
+    if (frequency !== NO_CHECK_IN_FREQUENCY && !goal.start_date) {
+      update.start_date = today;
+    }
+    changes.push(frequency === NO_CHECK_IN_FREQUENCY ? 'stopped check-ins' : `changed check-ins to ${frequency}`);
+  }
+
+  const { error } = await context.supabase
+    .from('goals')
+    .update(update)
+    .eq('id', goal.id)
+    .eq('user_id', context.userId);
+
+  if (error) {
+    throw new Error(`Failed to update goal: ${error.message}`);
+  }
+
+  const summary = changes.join(' and ');
+  return `${summary.charAt(0).toUpperCase()}${summary.slice(1)} for "${goal.title}"`;
+}
+
+async function addObstacle(context: ToolContext, args: ToolArguments): Promise<string> {
+  const goal = await findOwnedGoal(context, requiredString(args, 'goal_id', 64));
+  const obstacle = requiredString(args, 'obstacle', MAX_OBSTACLE_LENGTH);
+
+  const { data: motivation, error: selectError } = await context.supabase
+    .from('motivations')
+    .select('id, obstacles')
+    .eq('goal_id', goal.id)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (selectError) {
+    throw new Error(`Failed to load obstacles: ${selectError.message}`);
+  }
+
+  const obstacles: string[] = motivation?.obstacles || [];
+  if (obstacles.some(existing => existing.toLowerCase() === obstacle.toLowerCase())) {
+    throw new ToolInputError('That obstacle is already on the goal');
+  }
+
+  const { error } = motivation
+    ? await context.supabase
+      .from('motivations')
+      .update({ obstacles: [...obstacles, obstacle] })
+      .eq('id', motivation.id)
+    : await context.supabase
+      .from('motivations')
+      .insert({ goal_id: goal.id, obstacles: [obstacle] });
+
+  if (error) {
+    throw new Error(`Failed to add obstacle: ${error.message}`);
+  }
+
+  return `Added the obstacle "${obstacle}" to "${goal.title}"`;
+}
+
+async function scheduleNextCall(context: ToolContext, args: ToolArguments): Promise<string> {
+  const date = requiredString(args, 'date', 10);
+  const time = requiredString(args, 'time', 5);
+
+  if (!isValidDate(date)) {
+    throw new ToolInputError('date must be formatted YYYY-MM-DD');
+  }
+  if (!TIME_PATTERN.test(time)) {
+    throw new ToolInputError('time must be formatted HH:MM on a 24-hour clock');
+  }
+
+  const { timeZone, phoneVerified } = await loadProfile(context);
+  if (!phoneVerified) {
+    throw new ToolInputError('The user has no verified phone number to call');
+  }
+
+  const scheduledFor = zonedTimeToUtc(date, time, timeZone);
+  const now = Date.now();
+  if (scheduledFor.getTime() < now + MIN_CALL_LEAD_MINUTES * 60 * 1000) {
+    throw new ToolInputError(`The call must be at least ${MIN_CALL_LEAD_MINUTES} minutes from now`);
+  }
+  if (scheduledFor.getTime() > now + MAX_CALL_LEAD_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ToolInputError(`The call must be within the next ${MAX_CALL_LEAD_DAYS} days`);
+  }
+
+  const windowEnd = new Date(scheduledFor.getTime() + SCHEDULED_CALL_WINDOW_MINUTES * 60 * 1000);
+  const timing = {
+    scheduled_for: scheduledFor.toISOString(),
+    next_attempt_at: scheduledFor.toISOString(),
+    window_end: windowEnd.toISOString()
+  };
+
+  // One check-in call per day: a pending call that day is moved rather than duplicated
+  const { data: existing, error: selectError } = await context.supabase
+    .from('scheduled_calls')
+    .select('id, status')
+    .eq('user_id', context.userId)
+    .eq('scheduled_date', date)
+    .maybeSingle();
+
+  if (selectError) {
+    throw new Error(`Failed to load scheduled calls: ${selectError.message}`);
+  }
+
+  if (existing && existing.status !== 'pending') {
+    throw new ToolInputError('There is already a check-in call on that day');
+  }
+
+  const { error } = existing
+    ? await context.supabase
+      .from('scheduled_calls')
+      .update(timing)
+      .eq('id', existing.id)
+      .eq('status', 'pending')
+    : await context.supabase
+      .from('scheduled_calls')
+      .insert({
+        ...timing,
+        user_id: context.userId,
+        goal_ids: context.goals.map(goal => goal.id),
+        scheduled_date: date
+      });
+
+  if (error) {
+    throw new Error(`Failed to schedule call: ${error.message}`);
+  }
+
+  return `Scheduled the next call for ${date} at ${time}`;
+}
+
+const TOOL_HANDLERS: Record<string, (context: ToolContext, args: ToolArguments) => Promise<string>> = {
+  log_progress: logProgress,
+  update_goal: updateGoal,
+  add_obstacle: addObstacle,
+  schedule_next_call: scheduleNextCall
+};
+
+// Run the tool calls of one completion. Returns the tool messages to send back to OpenAI, a
+// summary of each action that was taken and the unexpected errors, which are reported to the
+// model as a failed action rather than ending the conversation.
+export async function runToolCalls(
+  context: ToolContext,
+  toolCalls: ToolCall[]
+): Promise<{ messages: ToolResultMessage[]; actions: string[]; errors: string[] }> {
+  const messages: ToolResultMessage[] = [];
+  const actions: string[] = [];
+  const errors: string[] = [];
+
+  for (const toolCall of toolCalls) {
+    let result: { ok: boolean; result?: string; error?: string };
+
+    try {
+      const handler = TOOL_HANDLERS[toolCall.function.name];
+      if (!handler) {
+        throw new ToolInputError(`Unknown tool: ${toolCall.function.name}`);
+      }
+
+      let args: unknown;
+      try {
+        args = JSON.parse(toolCall.function.arguments || '{}');
+      } catch {
+        throw new ToolInputError('Arguments are not valid JSON');
+      }
+
+      // JSON.parse also accepts null, numbers, strings and arrays
+      if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+        throw new ToolInputError('Arguments must be a JSON object');
+      }
+
+      const summary = await handler(context, args as ToolArguments);
+      actions.push(summary);
+      result = { ok: true, result: summary };
+    } catch (error) {
+      if (error instanceof ToolInputError) {
+        result = { ok: false, error: error.message };
+      } else {
+        errors.push(`${toolCall.function.name}: ${error instanceof Error ? error.message : String(error)}`);
+        result = { ok: false, error: 'The change could not be saved right now' };
+      }
+    }
+
+    messages.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(result) });
+  }
+
+  return { messages, actions, errors };
+}
+
+// Actions from earlier in the conversation, as the model sees them in the history. The
+// summaries quote goal titles and notes the user wrote, so they are replayed as data in a
+// <user_data> block, never with the system role.
+export function actionTurnMessage(content: string): { role: 'user'; content: string } {
+  return {
+    role: 'user',
+    content: `Record of an action you took earlier in the conversation:\n${formatUserDataBlock('action', sanitizePromptText(content))}`
+  };
+}
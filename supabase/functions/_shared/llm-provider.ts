@@ -0,0 +1,195 @@
+// Chat completion providers for the Edge Functions. Conversation code builds messages in the
+// OpenAI chat format and hands them to an LlmProvider, so the same flows run against OpenAI,
+// a local OpenAI-compatible server such as Ollama, or a scripted mock that needs no network.
+// The provider is chosen with LLM_PROVIDER.
+
+import type { ToolCall } from './future-self-tools.ts'
+import { readCompletionStream } from './openai-stream.ts'
+
+export interface ChatCompletionOptions {
+  messages: object[];
+  tools?: object[] | null;
+  maxTokens: number;
+  temperature: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  json?: boolean; // Ask for a reply that is a single JSON object
+  onText?: (text: string) => void; // Stream the reply, passing text on as it arrives
+}
+
+export interface ChatCompletion {
+  content: string | null;
+  toolCalls: ToolCall[];
+  tokensUsed: number; // 0 when streamed or not reported by the provider
+}
+
+export interface LlmProvider {
+  name: string;
+  complete(options: ChatCompletionOptions): Promise<ChatCompletion>;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  model: string;
+}
+
+// A rule of the mock script: the first rule whose pattern matches the user's last message
+// supplies the reply
+export interface MockRule {
+  pattern: RegExp;
+  reply: string;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const DEFAULT_MOCK_SCRIPT: MockRule[] = [
+  { pattern: /\b(hi|hello|hey)\b/i, reply: 'Hey, it is good to hear from you. How are your goals going today?' },
+  { pattern: /\b(stuck|tired|hard|struggling)\b/i, reply: 'That sounds hard. Pick the smallest next step you can take today, and do just that.' }
+];
+const MOCK_FALLBACK_REPLY = 'I hear you. Keep taking one small step at a time, and I will check in with you soon.';
+const MOCK_ACTION_REPLY = 'Done, I took care of that for you. Nice work.';
+const MOCK_PROGRESS_PATTERN = /\b(done|finished|did it|completed)\b/i;
+
+// The assistant message to send back with tool results, so the model sees its own tool calls
+export function toAssistantMessage(completion: ChatCompletion): object {
+  return {
+    role: 'assistant',
+    content: completion.content,
+    ...(completion.toolCalls.length > 0 && { tool_calls: completion.toolCalls })
+  };
+}
+
+// OpenAI, or any server that implements its chat completions API
+export function createOpenAICompatibleProvider(name: string, config: OpenAICompatibleConfig): LlmProvider {
+  return {
+    name,
+    async complete(options: ChatCompletionOptions): Promise<ChatCompletion> {
+      const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: options.messages,
+          ...(options.tools && { tools: options.tools }),
+          ...(options.onText && { stream: true }),
+          ...(options.json && { response_format: { type: 'json_object' } }),
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+          ...(options.presencePenalty !== undefined && { presence_penalty: options.presencePenalty }),
+          ...(options.frequencyPenalty !== undefined && { frequency_penalty: options.frequencyPenalty })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${name} API error (${response.status}): ${errorData.error?.message || response.statusText}`);
+      }
+
+      if (options.onText) {
+        const streamed = await readCompletionStream(response, options.onText);
+        return { content: streamed.content || null, toolCalls: streamed.toolCalls, tokensUsed: 0 };
+      }
+
+      const completion = await response.json();
+      const message = completion.choices?.[0]?.message;
+
+      if (!message) {
+        throw new Error(`No completion choices returned from ${name}`);
+      }
+
+      return {
+        content: message.content || null,
+        toolCalls: message.tool_calls || [],
+        tokensUsed: completion.usage?.total_tokens || 0
+      };
+    }
+  };
+}
+
+// Deterministic stand-in for local development and tests. Replies come from the script; when
+// tools are offered and the user reports progress, it logs it for their first goal, so the
+// action flow runs too. JSON requests get an empty object.
+export function createMockProvider(script: MockRule[] = DEFAULT_MOCK_SCRIPT): LlmProvider {
+  const reply = (content: string, toolCalls: ToolCall[], options: ChatCompletionOptions): ChatCompletion => {
+    if (options.onText && content) {
+      content.split(/(?<= )/).forEach(piece => options.onText?.(piece));
+    }
+    return { content: content || null, toolCalls, tokensUsed: 0 };
+  };
+
+  return {
+    name: 'mock',
+    async complete(options: ChatCompletionOptions): Promise<ChatCompletion> {
+      if (options.json) {
+        return reply('{}', [], options);
+      }
+
+      const messages = options.messages as { role: string; content?: string | null }[];
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage?.role === 'tool') {
+        return reply(MOCK_ACTION_REPLY, [], options);
+      }
+
+      const userText = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+      const tools = (options.tools || []) as { function: { name: string; parameters: { properties: { goal_id?: { enum?: string[] } } } } }[];
+      const logProgress = tools.find(tool => tool.function.name === 'log_progress');
+      const goalId = logProgress?.function.parameters.properties.goal_id?.enum?.[0];
+      if (goalId && MOCK_PROGRESS_PATTERN.test(userText)) {
+        return reply('', [{
+          id: 'mock-call-1',
+          type: 'function',
+          function: { name: 'log_progress', arguments: JSON.stringify({ goal_id: goalId, status: 'done' }) }
+        }], options);
+      }
+
+      return reply(script.find(rule => rule.pattern.test(userText))?.reply || MOCK_FALLBACK_REPLY, [], options);
+    }
+  };
+}
+
+// Pick the provider from LLM_PROVIDER: `openai` (the default, needs OPENAI_API_KEY),
+// `openai-compatible` (needs LLM_BASE_URL and LLM_MODEL, LLM_API_KEY is optional) or `mock`.
+// LLM_MODEL also overrides the OpenAI model.
+export function llmProviderFromEnv(): LlmProvider {
+  const provider = Deno.env.get('LLM_PROVIDER') || 'openai';
+  const model = Deno.env.get('LLM_MODEL');
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing required environment variables: OPENAI_API_KEY');
+      }
+      return createOpenAICompatibleProvider('OpenAI', { baseUrl: OPENAI_BASE_URL, apiKey, model: model || DEFAULT_OPENAI_MODEL });
+    }
+
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      const missing = [];
+      if (!baseUrl) missing.push('LLM_BASE_URL');
+      if (!model) missing.push('LLM_MODEL');
+
+      if (missing.length > 0) {
+        throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+      }
+
+      return createOpenAICompatibleProvider('LLM', {
+        baseUrl: baseUrl as string,
+        apiKey: Deno.env.get('LLM_API_KEY') || undefined,
+        model: model as string
+      });
+    }
+
+    case 'mock':
+      return createMockProvider();
+
+    default:
+      throw new Error(`Unsupported LLM_PROVIDER: ${provider}`);
+  }
+}
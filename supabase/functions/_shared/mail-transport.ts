@@ -0,0 +1,99 @@
+// Outgoing mail for the Edge Functions. Functions build a MailMessage and hand it to a
+// MailTransport, so the delivery method can be swapped without touching the senders.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+// Escape text placed in an HTML email body or attribute
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Read the SMTP settings from SMTP_* and MAIL_FROM
+export function smtpConfigFromEnv(): SmtpConfig {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('MAIL_FROM');
+  const portSetting = Deno.env.get('SMTP_PORT');
+
+  const missing = [];
+  if (!hostname) missing.push('SMTP_HOST');
+  if (!from) missing.push('MAIL_FROM');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  const port = portSetting ? Number(portSetting) : 587;
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid SMTP_PORT: ${portSetting}`);
+  }
+
+  return {
+    hostname,
+    port,
+    secure: Deno.env.get('SMTP_SECURE') === 'true',
+    username: Deno.env.get('SMTP_USERNAME') || undefined,
+    password: Deno.env.get('SMTP_PASSWORD') || undefined,
+    from
+  };
+}
+
+// Deliver mail through an SMTP server. Without credentials it also talks to local SMTP
+// catchers such as Mailpit or MailHog, which accept plain connections.
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const auth = config.username && config.password
+    ? { username: config.username, password: config.password }
+    : undefined;
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.secure,
+          auth
+        },
+        // Plain connections are only allowed when there are no credentials to expose
+        debug: { allowUnsecure: !auth }
+      });
+
+      try {
+        await client.send({
+          from: config.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html
+        });
+      } finally {
+        await client.close();
+      }
+    }
+  };
+}
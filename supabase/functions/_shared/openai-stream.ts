@@ -0,0 +1,147 @@
+// Streaming helpers: reading OpenAI chat completions as they are generated and relaying
+// them to clients as server-sent events. Replies are also split on sentence boundaries so
+// text-to-speech can start on the first sentence instead of waiting for the whole reply.
+
+import type { ToolCall } from './future-self-tools.ts'
+
+export interface StreamedCompletion {
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: string | null;
+}
+
+// A sentence ends at . ! or ? (optionally followed by closing quotes or brackets) and whitespace
+const SENTENCE_END = /[.!?]+["')\]]*\s+/g;
+
+// Read an OpenAI chat completion requested with `stream: true`. Content deltas are passed to
+// onText as they arrive; tool call fragments are put back together by index.
+export async function readCompletionStream(
+  response: Response,
+  onText: (text: string) => void
+): Promise<StreamedCompletion> {
+  if (!response.body) {
+    throw new Error('OpenAI returned an empty stream');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const toolCalls: ToolCall[] = [];
+  let content = '';
+  let finishReason: string | null = null;
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) {
+      return;
+    }
+
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') {
+      return;
+    }
+
+    const chunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return;
+    }
+
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      onText(choice.delta.content);
+    }
+
+    for (const fragment of choice.delta?.tool_calls || []) {
+      const toolCall = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (fragment.id) toolCall.id = fragment.id;
+      if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { content, toolCalls: toolCalls.filter(Boolean), finishReason };
+}
+
+// Collects streamed text and hands back each sentence once it is complete
+export class SentenceBuffer {
+  private pending = '';
+
+  push(text: string): string[] {
+    this.pending += text;
+
+    const sentences: string[] = [];
+    let start = 0;
+    for (const match of this.pending.matchAll(SENTENCE_END)) {
+      const end = (match.index ?? 0) + match[0].length;
+      const sentence = this.pending.slice(start, end).trim();
+      if (sentence) sentences.push(sentence);
+      start = end;
+    }
+
+    this.pending = this.pending.slice(start);
+    return sentences;
+  }
+
+  // Whatever is left once the stream ends, usually a last sentence without trailing space
+  flush(): string | null {
+    const rest = this.pending.trim();
+    this.pending = '';
+    return rest || null;
+  }
+}
+
+// A text/event-stream response body that events can be written to while the reply is generated
+export function createEventStream(headers: Record<string, string>): {
+  response: Response;
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+} {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    cancel() {
+      // The client went away; later events are dropped
+      closed = true;
+    }
+  });
+
+  return {
+    response: new Response(body, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      },
+      status: 200
+    }),
+    send(event, data) {
+      if (closed) return;
+      controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      controller.close();
+    }
+  };
+}
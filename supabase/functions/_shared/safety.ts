@@ -0,0 +1,156 @@
+// Safety layer for conversations with the future self. Every user utterance is classified
+// before a reply is generated; when it discloses self-harm or a crisis, the persona steps
+// aside for a vetted safe-messaging response with helpline information, and the event is
+// recorded in safety_events for review. The call is flagged too, so the conversation stays
+// in its supportive mode after the safe response has left the prompt's history.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type SafetyCategory = 'self_harm' | 'crisis';
+
+export interface SafetyAssessment {
+  flagged: boolean;
+  category: SafetyCategory | null;
+  detectedBy: 'pattern' | 'moderation' | null;
+}
+
+// Deterministic phrases that always flag, so the most common disclosures never depend on a
+// network call. Matched against lowercased text with apostrophes removed.
+const SAFETY_PATTERNS: { category: SafetyCategory; pattern: RegExp }[] = [
+  { category: 'self_harm', pattern: /\b(kill|hurt|harm|cut|hang|shoot) (myself|my self)\b/ },
+  { category: 'self_harm', pattern: /\b(end|take) (my|my own) life\b/ },
+  { category: 'self_harm', pattern: /\b(suicide|suicidal)\b/ },
+  { category: 'self_harm', pattern: /\b(want|wanna|going|plan|planning) to die\b/ },
+  { category: 'self_harm', pattern: /\b(better off dead|better off without me|no reason to live|nothing to live for)\b/ },
+  { category: 'self_harm', pattern: /\bdont want to (be alive|live|wake up)\b/ },
+  { category: 'self_harm', pattern: /\b(overdose|od) on\b/ },
+  { category: 'crisis', pattern: /\b(im|i am) not safe\b/ },
+  { category: 'crisis', pattern: /\b(he|she|they|someone|somebody) (is|keeps|has been) (hurting|hitting|beating) me\b/ },
+  { category: 'crisis', pattern: /\b(want|going) to (hurt|kill) (him|her|them|someone|somebody)\b/ }
+];
+
+// OpenAI moderation categories that count as a self-harm disclosure
+const MODERATION_CATEGORIES = ['self-harm', 'self-harm/intent', 'self-harm/instructions'];
+
+// Vetted safe-messaging reply. Written to be spoken as well as read: no links to click, and
+// no goals, deadlines or motivational push.
+export const SAFE_RESPONSE = "I'm really glad you told me, and I'm taking what you said seriously. You don't have to go through this alone. " +
+  "If you are in immediate danger, please call your local emergency number now. " +
+  "In the US you can call or text 988 to reach the Suicide and Crisis Lifeline, any time of day or night. " +
+  "In the UK and Ireland you can call Samaritans on 116 123. " +
+  "Anywhere else, find a helpline near you at findahelpline dot com. " +
+  "Talking to someone you trust today could help too. Our goals can wait. Right now, you matter most.";
+
+// Whether the safe response is already part of this conversation, so the motivational push
+// stays suppressed on later turns as well
+export function hasGivenSafeResponse(turns: { role: string; content: string }[]): boolean {
+  return turns.some(turn => turn.role === 'assistant' && turn.content === SAFE_RESPONSE);
+}
+
+// Match an utterance against the deterministic patterns only
+export function matchSafetyPatterns(utterance: string): SafetyCategory | null {
+  const normalized = utterance.toLowerCase().replace(/[’']/g, '').replace(/\s+/g, ' ');
+  return SAFETY_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.category || null;
+}
+
+// Classify an utterance with the patterns first, then OpenAI moderation. Without an OpenAI
+// key, or if moderation is unavailable, the pattern result stands, so a reply is never
+// blocked on it.
+export async function classifyUtterance(
+  utterance: string,
+  openaiApiKey: string | null
+): Promise<SafetyAssessment> {
+  const patternCategory = matchSafetyPatterns(utterance);
+  if (patternCategory) {
+    return { flagged: true, category: patternCategory, detectedBy: 'pattern' };
+  }
+
+  if (!openaiApiKey) {
+    return { flagged: false, category: null, detectedBy: null };
+  }
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/moderations', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${openaiApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: 'omni-moderation-latest', input: utterance })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI moderation error (${response.status})`);
+    }
+
+    const moderation = await response.json();
+    const categories = moderation.results?.[0]?.categories || {};
+    if (MODERATION_CATEGORIES.some(category => categories[category])) {
+      return { flagged: true, category: 'self_harm', detectedBy: 'moderation' };
+    }
+  } catch (error) {
+    console.log(`[WARN] ${JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: 'WARN',
+      message: 'Moderation check failed, using pattern result only',
+      data: { error: error instanceof Error ? error.message : String(error) }
+    })}`);
+  }
+
+  return { flagged: false, category: null, detectedBy: null };
+}
+
+// Whether the call or in-app conversation was flagged earlier
+export async function isCallInCrisis(supabase: SupabaseClient, callId: string): Promise<boolean> {
+  const { data: call, error } = await supabase
+    .from('calls')
+    .select('safety_flagged_at')
+    .eq('id', callId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load call safety flag: ${error.message}`);
+  }
+
+  return !!call?.safety_flagged_at;
+}
+
+// Record a flagged utterance for review and flag its call. Best-effort: the safe response
+// goes out either way.
+export async function recordSafetyEvent(
+  supabase: SupabaseClient,
+  event: {
+    userId: string;
+    callId: string | null;
+    channel: string | null;
+    utterance: string;
+    assessment: SafetyAssessment;
+  }
+): Promise<void> {
+  const { error } = await supabase
+    .from('safety_events')
+    .insert({
+      user_id: event.userId,
+      call_id: event.callId,
+      channel: event.channel,
+      utterance: event.utterance,
+      category: event.assessment.category,
+      detected_by: event.assessment.detectedBy
+    });
+
+  if (error) {
+    throw new Error(`Failed to record safety event: ${error.message}`);
+  }
+
+  if (event.callId) {
+    const { error: flagError } = await supabase
+      .from('calls')
+      .update({ safety_flagged_at: new Date().toISOString() })
+      .eq('id', event.callId)
+      .is('safety_flagged_at', null);
+
+    if (flagError) {
+      throw new Error(`Failed to flag call: ${flagError.message}`);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+// Tokens that let twilio-media-stream trust the call a Media Stream claims to belong to.
+// twilio-call-handler signs the call and user ids into the <Stream> parameters, and the
+// stream checks the signature in its `start` message before touching any data.
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function signStreamToken(secret: string, callId: string, userId: string): Promise<string> {
+  return hmacHex(secret, `${callId}:${userId}`);
+}
+
+export async function verifyStreamToken(secret: string, callId: string, userId: string, token: string): Promise<boolean> {
+  const expected = await signStreamToken(secret, callId, userId);
+  if (expected.length !== token.length) {
+    return false;
+  }
+
+  // Compare without short-circuiting so timing does not leak the expected token
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ token.charCodeAt(i);
+  }
+  return difference === 0;
+}
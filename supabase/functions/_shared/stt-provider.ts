@@ -0,0 +1,288 @@
+// Speech-to-text providers for the Edge Functions. Recorded audio goes to an SttProvider,
+// chosen with STT_PROVIDER: OpenAI, a locally hosted Whisper-compatible server, or a fake that
+// answers from fixtures. Live phone audio goes to a StreamingSttProvider (Deepgram) instead.
+// Transcripts carry a confidence and the detected language, so callers can ask the user to
+// repeat themselves rather than reply to a garbled transcript.
+
+export interface Transcript {
+  text: string;
+  confidence: number | null; // 0 to 1; null when the provider does not report one
+  language: string | null; // As reported by the provider, such as "english" or "en"
+}
+
+export interface SttProvider {
+  name: string;
+  transcribe(audio: Blob, fileName: string): Promise<Transcript>;
+}
+
+export interface LiveTranscriptionHandlers {
+  onSpeech(): void; // Words were heard, before the utterance is final; used for barge-in
+  onUtterance(transcript: Transcript): void; // The speaker finished an utterance
+  onError(): void;
+}
+
+export interface LiveTranscription {
+  send(audio: Uint8Array): void; // Audio sent before the connection opens is dropped
+  close(): void;
+}
+
+export interface StreamingSttProvider {
+  name: string;
+  // Transcribe 8kHz μ-law audio, such as a Twilio Media Stream, as it arrives
+  connect(handlers: LiveTranscriptionHandlers): LiveTranscription;
+}
+
+export interface WhisperCompatibleConfig {
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:8000/v1
+  apiKey?: string;
+  model: string;
+  language: string | null; // Language hint; null lets the model detect it
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Transcripts with less confidence than this are not answered
+export const MIN_TRANSCRIPT_CONFIDENCE = 0.4;
+
+// Reply to a message that could not be understood
+export const REPEAT_PROMPT = "Sorry, I didn't quite catch that. Could you say it again?";
+
+// Transcript returned by the fake for audio that has no fixture
+const DEFAULT_FAKE_TRANSCRIPT: Transcript = {
+  text: 'I went for a run this morning and I feel great.',
+  confidence: 1,
+  language: 'english'
+};
+
+interface WhisperSegment {
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+// Average per-segment confidence: the token probability, discounted by the chance that the
+// segment holds no speech at all
+function segmentConfidence(segments: WhisperSegment[] | undefined): number | null {
+  const scored = (segments || []).filter(segment => typeof segment.avg_logprob === 'number');
+  if (scored.length === 0) {
+    return null;
+  }
+
+  const total = scored.reduce(
+    (sum, segment) => sum + Math.exp(segment.avg_logprob as number) * (1 - (segment.no_speech_prob || 0)),
+    0
+  );
+  return Math.min(1, Math.max(0, total / scored.length));
+}
+
+interface DeepgramMessage {
+  type: 'Results' | 'UtteranceEnd' | 'SpeechStarted' | 'Metadata';
+  is_final?: boolean;
+  speech_final?: boolean;
+  channel?: {
+    alternatives: { transcript: string; confidence?: number }[];
+  };
+}
+
+// Whether a transcript is empty or too garbled to reply to, so the user should be asked to repeat it
+export function isUnclearTranscript(transcript: Transcript): boolean {
+  return !transcript.text || (transcript.confidence !== null && transcript.confidence < MIN_TRANSCRIPT_CONFIDENCE);
+}
+
+// Hex SHA-256 of the audio, the key of the fake's fixtures
+export async function audioFingerprint(audio: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await audio.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// OpenAI's transcription API, or a local server that implements it with verbose_json output,
+// such as faster-whisper-server
+export function createWhisperCompatibleProvider(name: string, config: WhisperCompatibleConfig): SttProvider {
+  return {
+    name,
+    async transcribe(audio: Blob, fileName: string): Promise<Transcript> {
+      const formData = new FormData();
+      formData.append('file', audio, fileName);
+      formData.append('model', config.model);
+      formData.append('response_format', 'verbose_json');
+      if (config.language) {
+        formData.append('language', config.language);
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+        body: formData
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${name} transcription error (${response.status}): ${errorData.error?.message || response.statusText}`);
+      }
+
+      const result = await response.json();
+      return {
+        text: (result.text || '').trim(),
+        confidence: segmentConfidence(result.segments),
+        language: result.language || config.language
+      };
+    }
+  };
+}
+
+// Deterministic stand-in for local development and tests. Audio is matched to a fixture by
+// its SHA-256 fingerprint; anything else gets the default transcript.
+export function createFakeSttProvider(
+  fixtures: Record<string, Transcript> = {},
+  defaultTranscript: Transcript = DEFAULT_FAKE_TRANSCRIPT
+): SttProvider {
+  return {
+    name: 'fake',
+    async transcribe(audio: Blob): Promise<Transcript> {
+      return fixtures[await audioFingerprint(audio)] || defaultTranscript;
+    }
+  };
+}
+
+// Deepgram live transcription tuned for Twilio's 8kHz μ-law audio. An utterance is the final
+// results up to Deepgram's end of speech, and its confidence is the average of theirs.
+export function createDeepgramStreamingProvider(config: { apiKey: string; language: string | null }): StreamingSttProvider {
+  const listenUrl = 'wss://api.deepgram.com/v1/listen?' + new URLSearchParams({
+    encoding: 'mulaw',
+    sample_rate: '8000',
+    channels: '1',
+    model: 'nova-2-phonecall',
+    smart_format: 'true',
+    interim_results: 'true',
+    endpointing: '300',
+    utterance_end_ms: '1000',
+    ...(config.language && { language: config.language })
+  }).toString();
+
+  return {
+    name: 'Deepgram',
+    connect(handlers: LiveTranscriptionHandlers): LiveTranscription {
+      const socket = new WebSocket(listenUrl, ['token', config.apiKey]);
+      socket.binaryType = 'arraybuffer';
+
+      let pending: { text: string; confidence: number | null }[] = [];
+
+      const finishUtterance = () => {
+        if (pending.length === 0) {
+          return;
+        }
+
+        const scored = pending.filter(result => result.confidence !== null);
+        const transcript: Transcript = {
+          text: pending.map(result => result.text).join(' '),
+          confidence: scored.length > 0
+            ? scored.reduce((sum, result) => sum + (result.confidence as number), 0) / scored.length
+            : null,
+          language: config.language
+        };
+        pending = [];
+        handlers.onUtterance(transcript);
+      };
+
+      socket.onmessage = (event) => {
+        const message: DeepgramMessage = JSON.parse(event.data);
+
+        if (message.type === 'Results') {
+          const alternative = message.channel?.alternatives[0];
+          const text = alternative?.transcript.trim() || '';
+
+          // Real words, not just noise, count as speech
+          if (text) {
+            handlers.onSpeech();
+          }
+
+          if (message.is_final && text) {
+            pending.push({ text, confidence: typeof alternative?.confidence === 'number' ? alternative.confidence : null });
+          }
+
+          if (message.speech_final) {
+            finishUtterance();
+          }
+        } else if (message.type === 'UtteranceEnd') {
+          finishUtterance();
+        }
+      };
+
+      socket.onerror = () => handlers.onError();
+
+      return {
+        send(audio: Uint8Array) {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(audio);
+          }
+        },
+        close() {
+          socket.close();
+        }
+      };
+    }
+  };
+}
+
+// Pick the provider from STT_PROVIDER: `openai` (the default, needs OPENAI_API_KEY),
+// `whisper-compatible` (needs STT_BASE_URL and STT_MODEL, STT_API_KEY is optional) or `fake`
+// (fixtures from STT_FAKE_FIXTURES, a JSON object of audio fingerprints to transcripts).
+// STT_LANGUAGE is the language hint, `en` by default; set it to `auto` to detect the language.
+export function sttProviderFromEnv(): SttProvider {
+  const provider = Deno.env.get('STT_PROVIDER') || 'openai';
+  const languageSetting = Deno.env.get('STT_LANGUAGE') || 'en';
+  const language = languageSetting === 'auto' ? null : languageSetting;
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing required environment variables: OPENAI_API_KEY');
+      }
+      return createWhisperCompatibleProvider('OpenAI', { baseUrl: OPENAI_BASE_URL, apiKey, model: 'whisper-1', language });
+    }
+
+    case 'whisper-compatible': {
+      const baseUrl = Deno.env.get('STT_BASE_URL');
+      const model = Deno.env.get('STT_MODEL');
+      const missing = [];
+      if (!baseUrl) missing.push('STT_BASE_URL');
+      if (!model) missing.push('STT_MODEL');
+
+      if (missing.length > 0) {
+        throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+      }
+
+      return createWhisperCompatibleProvider('Whisper', {
+        baseUrl: baseUrl as string,
+        apiKey: Deno.env.get('STT_API_KEY') || undefined,
+        model: model as string,
+        language
+      });
+    }
+
+    case 'fake': {
+      const fixtures = Deno.env.get('STT_FAKE_FIXTURES');
+      try {
+        return createFakeSttProvider(fixtures ? JSON.parse(fixtures) : {});
+      } catch {
+        throw new Error('Invalid STT_FAKE_FIXTURES: expected a JSON object');
+      }
+    }
+
+    default:
+      throw new Error(`Unsupported STT_PROVIDER: ${provider}`);
+  }
+}
+
+// The live transcriber for phone calls: Deepgram, with DEEPGRAM_API_KEY and the STT_LANGUAGE hint
+export function streamingSttProviderFromEnv(): StreamingSttProvider {
+  const apiKey = Deno.env.get('DEEPGRAM_API_KEY');
+  if (!apiKey) {
+    throw new Error('Missing required environment variables: DEEPGRAM_API_KEY');
+  }
+
+  const languageSetting = Deno.env.get('STT_LANGUAGE') || 'en';
+  return createDeepgramStreamingProvider({ apiKey, language: languageSetting === 'auto' ? null : languageSetting });
+}
@@ -0,0 +1,106 @@
+// Time zone math for contact windows. Windows are stored as wall-clock times plus the
+// user's IANA time zone, and only become timestamps here, so every scheduler follows
+// the user's DST changes the same way.
+
+// Zone used for profiles saved before time zones were captured
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fall back to UTC for unset or unknown zones rather than failing the whole scheduler run
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// Wall-clock fields of an instant in the given zone
+function getZonedParts(instant: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function getOffset(instant: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// The user's calendar date (YYYY-MM-DD) at the given instant
+export function getLocalDate(instant: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// The user's day of the week at the given instant, 0 for Sunday through 6 for Saturday
+export function getLocalWeekday(instant: Date, timeZone: string): number {
+  const [year, month, day] = getLocalDate(instant, timeZone).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// The user's wall-clock time (HH:MM:SS) at the given instant
+export function getLocalTime(instant: Date, timeZone: string): string {
+  const { hour, minute, second } = getZonedParts(instant, timeZone);
+  return [hour, minute, second].map(value => String(value).padStart(2, '0')).join(':');
+}
+
+// The instant a wall-clock date and time (HH:MM or HH:MM:SS) occurs in the given zone.
+// Times skipped by a spring-forward jump move forward by the gap; times repeated by a
+// fall-back change resolve to their first occurrence.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // The zone's offsets a day either side cover both sides of a DST change on this date
+  const offsetBefore = getOffset(wallClock - DAY_MS, timeZone);
+  const offsetAfter = getOffset(wallClock + DAY_MS, timeZone);
+
+  // Each offset gives a candidate instant; it counts if the zone really has that offset then
+  const occurrences = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter(instant => getOffset(instant, timeZone) === wallClock - instant);
+  if (occurrences.length > 0) {
+    return new Date(Math.min(...occurrences));
+  }
+
+  // The wall-clock time does not exist on this day; keeping the earlier offset moves it
+  // forward by the gap
+  return new Date(wallClock - offsetBefore);
+}
@@ -0,0 +1,23 @@
+// Layout of the content-addressed TTS cache shared by twilio-call-handler, which fills it,
+// and tts-cache-cleanup, which expires it. Entries are tracked in the `tts_cache` table.
+
+export const TTS_CACHE_BUCKET = 'twilio-audio-cache';
+
+// Folder holding cached utterances, named by cache key
+export const TTS_CACHE_FOLDER = 'tts';
+
+// Folder the handler used to write one-off utterances to before the cache existed
+export const LEGACY_TEMP_FOLDER = 'temp';
+
+// Identical voice, model and text always render the same audio, so they share one key
+export async function ttsCacheKey(voiceId: string, modelId: string, text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify([voiceId, modelId, text]))
+  );
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function ttsCachePath(cacheKey: string): string {
+  return `${TTS_CACHE_FOLDER}/${cacheKey}.mp3`;
+}
@@ -0,0 +1,190 @@
+// Text-to-speech providers for the Edge Functions. Speech is rendered by the first provider in
+// the TTS_PROVIDERS chain that succeeds, and each failover is reported to the caller for its
+// logs. When every provider fails, callers degrade to a generic voice (Twilio <Say> on phone
+// calls, the browser's own voice in the app) instead of failing the conversation.
+
+// MP3 for played-back files, or raw 8kHz μ-law for Twilio Media Streams
+export type AudioFormat = 'mp3' | 'ulaw_8000';
+
+export interface TtsProvider {
+  name: string;
+  // Identifies how the audio was rendered; part of the TTS cache key
+  modelId: string;
+  // Render audio, MP3 by default. voiceId is the user's ElevenLabs voice; other providers use their own.
+  synthesize(text: string, voiceId: string, format?: AudioFormat): Promise<Blob>;
+}
+
+export interface ElevenLabsConfig {
+  apiKey: string;
+  modelId: string;
+}
+
+export interface LocalTtsConfig {
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:8880/v1
+  model: string;
+  voice: string;
+}
+
+// ElevenLabs model used when rendering whole replies; kept as the cache key of existing audio
+const ELEVENLABS_MODEL_ID = 'eleven_monolingual_v1';
+
+// The OpenAI-style `pcm` format: 16-bit little-endian mono samples at 24kHz
+const LOCAL_PCM_SAMPLE_RATE = 24000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// Encode one 16-bit sample as G.711 μ-law
+function linearToMuLaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+// Downsample 24kHz 16-bit PCM to 8kHz μ-law, averaging each group of three samples
+export function pcm24kToMuLaw8k(pcm: ArrayBuffer): Uint8Array {
+  const samples = new DataView(pcm);
+  const ratio = LOCAL_PCM_SAMPLE_RATE / 8000;
+  const output = new Uint8Array(Math.floor(samples.byteLength / 2 / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < ratio; j++) {
+      sum += samples.getInt16((i * ratio + j) * 2, true);
+    }
+    output[i] = linearToMuLaw(Math.round(sum / ratio));
+  }
+
+  return output;
+}
+
+// ElevenLabs through its REST API
+export function createElevenLabsProvider(config: ElevenLabsConfig): TtsProvider {
+  return {
+    name: 'ElevenLabs',
+    modelId: config.modelId,
+    async synthesize(text: string, voiceId: string, format: AudioFormat = 'mp3'): Promise<Blob> {
+      const query = format === 'ulaw_8000' ? '?output_format=ulaw_8000' : '';
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}${query}`, {
+        method: 'POST',
+        headers: {
+          'Accept': format === 'ulaw_8000' ? 'audio/basic' : 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': config.apiKey
+        },
+        body: JSON.stringify({
+          text,
+          model_id: config.modelId,
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`ElevenLabs API error (${response.status}): ${await response.text()}`);
+      }
+
+      return await response.blob();
+    }
+  };
+}
+
+// An offline engine running next to the functions in development, behind the OpenAI-style
+// /audio/speech endpoint that local servers such as Kokoro-FastAPI and openedai-speech offer.
+// Every user gets the configured voice. Phone audio is rendered as PCM and encoded as μ-law here.
+export function createLocalTtsProvider(config: LocalTtsConfig): TtsProvider {
+  return {
+    name: 'local',
+    modelId: `local:${config.model}:${config.voice}`,
+    async synthesize(text: string, _voiceId: string, format: AudioFormat = 'mp3'): Promise<Blob> {
+      const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/audio/speech`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          voice: config.voice,
+          input: text,
+          response_format: format === 'ulaw_8000' ? 'pcm' : 'mp3'
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local TTS error (${response.status}): ${await response.text()}`);
+      }
+
+      if (format === 'ulaw_8000') {
+        const audio = pcm24kToMuLaw8k(await response.arrayBuffer());
+        return new Blob([audio.buffer as ArrayBuffer], { type: 'audio/basic' });
+      }
+
+      return await response.blob();
+    }
+  };
+}
+
+// Render speech with each provider in turn until one succeeds. Returns null when all of them
+// failed; onFailure is told about each failure so the caller can log the failover.
+export async function synthesizeWithFailover(
+  providers: TtsProvider[],
+  text: string,
+  voiceId: string,
+  onFailure: (provider: TtsProvider, error: Error) => void,
+  format: AudioFormat = 'mp3'
+): Promise<{ audio: Blob; provider: TtsProvider } | null> {
+  for (const provider of providers) {
+    try {
+      return { audio: await provider.synthesize(text, voiceId, format), provider };
+    } catch (error) {
+      onFailure(provider, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  return null;
+}
+
+// Build the provider chain from TTS_PROVIDERS, a comma-separated list tried in order
+// (default `elevenlabs`). `elevenlabs` needs VITE_ELEVENLABS_API_KEY; `local` needs
+// TTS_LOCAL_URL, with TTS_LOCAL_MODEL (default `tts-1`) and TTS_LOCAL_VOICE (default `alloy`).
+// elevenLabsModelId overrides the ElevenLabs model, such as a faster one for realtime calls.
+export function ttsProvidersFromEnv(elevenLabsModelId: string = ELEVENLABS_MODEL_ID): TtsProvider[] {
+  const names = (Deno.env.get('TTS_PROVIDERS') || 'elevenlabs')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map((name): TtsProvider => {
+    switch (name) {
+      case 'elevenlabs': {
+        const apiKey = Deno.env.get('VITE_ELEVENLABS_API_KEY');
+        if (!apiKey) {
+          throw new Error('Missing required environment variables: VITE_ELEVENLABS_API_KEY');
+        }
+        return createElevenLabsProvider({ apiKey, modelId: elevenLabsModelId });
+      }
+
+      case 'local': {
+        const baseUrl = Deno.env.get('TTS_LOCAL_URL');
+        if (!baseUrl) {
+          throw new Error('Missing required environment variables: TTS_LOCAL_URL');
+        }
+        return createLocalTtsProvider({
+          baseUrl,
+          model: Deno.env.get('TTS_LOCAL_MODEL') || 'tts-1',
+          voice: Deno.env.get('TTS_LOCAL_VOICE') || 'alloy'
+        });
+      }
+
+      default:
+        throw new Error(`Unsupported TTS provider in TTS_PROVIDERS: ${name}`);
+    }
+  });
+}
@@ -0,0 +1,140 @@
+// Checks shared by the Edge Functions that serve Twilio webhooks: the X-Twilio-Signature of
+// each request, and the lookup of the user behind the phone number that called or texted.
+// constantTimeEquals also guards the service role key on functions reachable without a JWT.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveTimeZone } from './time-zone.ts'
+
+export interface PhoneNumberOwner {
+  userId: string;
+  timeZone: string;
+}
+
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  console.log(`[${level}] ${JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  })}`);
+}
+
+// Compare without short-circuiting so timing does not leak how much of a secret matched
+export function constantTimeEquals(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// Twilio signature validation using Web Crypto API
+export async function validateTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: Record<string, string>
+): Promise<boolean> {
+  // The signed string is the full URL followed by every parameter name and value, sorted by name
+  let signatureString = url;
+  for (const key of Object.keys(params).sort()) {
+    signatureString += key + params[key];
+  }
+
+  // Create HMAC-SHA1 hash using Web Crypto API
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signatureBuffer = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(signatureString));
+
+  // Convert to base64
+  const computedSignature = btoa(Array.from(new Uint8Array(signatureBuffer), byte => String.fromCharCode(byte)).join(''));
+  return constantTimeEquals(computedSignature, signature);
+}
+
+// Check the X-Twilio-Signature of a webhook request and return its form params,
+// or the response to send back when the request did not come from Twilio
+export async function verifyTwilioRequest(
+  req: Request,
+  twilioAuthToken: string,
+  requestId: string
+): Promise<Record<string, string> | Response> {
+  const twilioSignature = req.headers.get('x-twilio-signature');
+  if (!twilioSignature) {
+    logWithContext('ERROR', 'Missing Twilio signature header', requestId);
+    return new Response('Missing Twilio signature', {
+      status: 403,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  const params = Object.fromEntries(new URLSearchParams(await req.text()));
+
+  // Reconstruct the exact HTTPS URL that Twilio called
+  const proto = req.headers.get('x-forwarded-proto') || 'https';
+  const host = req.headers.get('x-forwarded-host') || req.headers.get('host');
+
+  if (!host) {
+    logWithContext('ERROR', 'Missing host/x-forwarded-host headers for URL reconstruction', requestId);
+    return new Response('Missing host header', {
+      status: 400,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  const { pathname, search } = new URL(req.url);
+  const fullUrl = `${proto}://${host}/functions/v1${pathname}${search}`;
+
+  let isValidSignature: boolean;
+  try {
+    isValidSignature = await validateTwilioSignature(twilioAuthToken, twilioSignature, fullUrl, params);
+  } catch (error) {
+    logWithContext('ERROR', 'Error during signature validation', requestId, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    isValidSignature = false;
+  }
+
+  if (!isValidSignature) {
+    logWithContext('ERROR', 'Invalid Twilio signature', requestId, { url: fullUrl });
+    return new Response('Invalid Twilio signature', {
+      status: 403,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  logWithContext('INFO', 'Twilio signature validated successfully', requestId);
+  return params;
+}
+
+// Find the user whose verified profile phone number called or texted
+export async function findUserByPhoneNumber(
+  supabase: SupabaseClient,
+  phoneNumber: string,
+  requestId: string
+): Promise<PhoneNumberOwner | null> {
+  const { data: userProfile, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, time_zone')
+    .eq('phone_number', phoneNumber)
+    .not('phone_verified_at', 'is', null)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logWithContext('ERROR', 'Error looking up phone number owner', requestId, { error: error.message, code: error.code });
+    throw new Error(`Failed to look up phone number owner: ${error.message}`);
+  }
+
+  return userProfile ? { userId: userProfile.user_id, timeZone: resolveTimeZone(userProfile.time_zone) } : null;
+}
@@ -0,0 +1,166 @@
+// Small typed TwiML builder shared by the Twilio Edge Functions.
+// Every attribute value and text node is XML-escaped, so URLs with query strings,
+// user speech and AI replies can be placed in TwiML safely.
+
+type HttpMethod = 'GET' | 'POST';
+
+export interface SayOptions {
+  voice?: string;
+  language?: string;
+  loop?: number;
+}
+
+export interface PlayOptions {
+  loop?: number;
+  digits?: string;
+}
+
+export interface GatherOptions {
+  input: Array<'speech' | 'dtmf'>;
+  action?: string;
+  method?: HttpMethod;
+  timeout?: number;
+  speechTimeout?: number | 'auto';
+  language?: string;
+  hints?: string;
+  numDigits?: number;
+  finishOnKey?: string;
+  actionOnEmptyResult?: boolean;
+}
+
+export interface RecordOptions {
+  action?: string;
+  method?: HttpMethod;
+  timeout?: number;
+  maxLength?: number;
+  finishOnKey?: string;
+  playBeep?: boolean;
+  trim?: 'trim-silence' | 'do-not-trim';
+  recordingStatusCallback?: string;
+}
+
+export type SayVerb = { verb: 'Say'; text: string; options: SayOptions };
+export type PlayVerb = { verb: 'Play'; url: string; options: PlayOptions };
+export type PauseVerb = { verb: 'Pause'; length: number };
+
+// Verbs Twilio allows nested inside <Gather>
+export type GatherChild = SayVerb | PlayVerb | PauseVerb;
+
+export type TwiMLVerb =
+  | SayVerb
+  | PlayVerb
+  | PauseVerb
+  | { verb: 'Gather'; options: GatherOptions; children: GatherChild[] }
+  | { verb: 'Record'; options: RecordOptions }
+  | { verb: 'Redirect'; url: string; method: HttpMethod }
+  | { verb: 'Connect'; streamUrl: string; parameters: Record<string, string> }
+  | { verb: 'Message'; text: string }
+  | { verb: 'Hangup' };
+
+type AttributeValue = string | number | boolean | undefined;
+
+// Escape text for use inside TwiML elements and attributes
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Render attributes in the order given, skipping unset ones
+function renderAttributes(attributes: Record<string, AttributeValue>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+function renderElement(name: string, attributes: Record<string, AttributeValue>, content?: string): string {
+  const renderedAttributes = renderAttributes(attributes);
+  if (content === undefined || content === '') {
+    return `<${name}${renderedAttributes}/>`;
+  }
+  return `<${name}${renderedAttributes}>${content}</${name}>`;
+}
+
+function renderVerb(verb: TwiMLVerb, indent: string): string {
+  switch (verb.verb) {
+    case 'Say':
+      return indent + renderElement('Say', { ...verb.options }, escapeXml(verb.text));
+    case 'Play':
+      return indent + renderElement('Play', { ...verb.options }, escapeXml(verb.url));
+    case 'Pause':
+      return indent + renderElement('Pause', { length: verb.length });
+    case 'Gather': {
+      const { input, ...options } = verb.options;
+      const attributes = { input: input.join(' '), ...options };
+      if (verb.children.length === 0) {
+        return indent + renderElement('Gather', attributes);
+      }
+      const children = verb.children.map(child => renderVerb(child, `${indent}  `)).join('\n');
+      return indent + renderElement('Gather', attributes, `\n${children}\n${indent}`);
+    }
+    case 'Record':
+      return indent + renderElement('Record', { ...verb.options });
+    case 'Redirect':
+      return indent + renderElement('Redirect', { method: verb.method }, escapeXml(verb.url));
+    case 'Connect': {
+      // Custom parameters reach the stream in its `start` message
+      const parameters = Object.entries(verb.parameters)
+        .map(([name, value]) => `${indent}    ${renderElement('Parameter', { name, value })}`)
+        .join('\n');
+      const stream = renderElement('Stream', { url: verb.streamUrl }, parameters ? `\n${parameters}\n${indent}  ` : undefined);
+      return indent + renderElement('Connect', {}, `\n${indent}  ${stream}\n${indent}`);
+    }
+    case 'Message':
+      return indent + renderElement('Message', {}, escapeXml(verb.text));
+    case 'Hangup':
+      return indent + renderElement('Hangup', {});
+  }
+}
+
+export function say(text: string, options: SayOptions = {}): SayVerb {
+  return { verb: 'Say', text, options };
+}
+
+export function play(url: string, options: PlayOptions = {}): PlayVerb {
+  return { verb: 'Play', url, options };
+}
+
+export function pause(length = 1): PauseVerb {
+  return { verb: 'Pause', length };
+}
+
+export function gather(options: GatherOptions, children: GatherChild[] = []): TwiMLVerb {
+  return { verb: 'Gather', options, children };
+}
+
+export function record(options: RecordOptions = {}): TwiMLVerb {
+  return { verb: 'Record', options };
+}
+
+export function redirect(url: string, method: HttpMethod = 'POST'): TwiMLVerb {
+  return { verb: 'Redirect', url, method };
+}
+
+// Open a bidirectional Media Stream; the call moves on to the next verb once the stream closes
+export function connectStream(streamUrl: string, parameters: Record<string, string> = {}): TwiMLVerb {
+  return { verb: 'Connect', streamUrl, parameters };
+}
+
+// Reply to an inbound text message
+export function message(text: string): TwiMLVerb {
+  return { verb: 'Message', text };
+}
+
+export function hangup(): TwiMLVerb {
+  return { verb: 'Hangup' };
+}
+
+// Build a complete TwiML document from a list of verbs
+export function buildTwiML(verbs: TwiMLVerb[]): string {
+  const body = verbs.map(verb => renderVerb(verb, '  ')).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>${body ? `\n${body}\n` : ''}</Response>`;
+}
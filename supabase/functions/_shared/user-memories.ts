@@ -0,0 +1,194 @@
+// Long-term memory of facts users share with their future self. Facts are extracted from
+// each finished call or in-app conversation into user_memories, and the prompt builders
+// retrieve the ones most relevant to what is being talked about.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { LlmProvider } from './llm-provider.ts'
+import { formatUserDataBlock, sanitizePromptText } from './prompt-assembly.ts'
+
+// Memories added to a single prompt
+export const MAX_PROMPT_MEMORIES = 8;
+
+// Memories considered when ranking; the oldest beyond this are not retrieved
+const MAX_CANDIDATE_MEMORIES = 200;
+
+// Existing memories shown to the extractor so it does not store the same fact twice
+const MAX_KNOWN_MEMORIES = 50;
+
+// Common words that say nothing about which memory is relevant
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'before', 'being', 'could', 'does', 'doing', 'from',
+  'going', 'have', 'having', 'into', 'just', 'know', 'like', 'make', 'more', 'much', 'really',
+  'said', 'should', 'some', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'thing', 'think', 'this', 'today', 'want', 'well', 'were', 'what', 'when', 'which', 'while',
+  'will', 'with', 'would', 'your', 'yours'
+]);
+
+export interface UserMemory {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+interface TranscriptTurn {
+  role: string;
+  content: string;
+}
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .map(word => word.replace(/'s$/, ''))
+      .filter(word => word.length > 3 && !STOP_WORDS.has(word))
+  );
+}
+
+// Rank memories by the words they share with the query, newest first on ties
+export async function retrieveRelevantMemories(
+  supabase: SupabaseClient,
+  userId: string,
+  query: string,
+  limit: number = MAX_PROMPT_MEMORIES
+): Promise<UserMemory[]> {
+  const { data: memories, error } = await supabase
+    .from('user_memories')
+    .select('id, content, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_CANDIDATE_MEMORIES);
+
+  if (error) {
+    throw new Error(`Failed to load memories: ${error.message}`);
+  }
+
+  const queryWords = keywords(query);
+  return (memories as UserMemory[] || [])
+    .map((memory, recency) => {
+      const memoryWords = keywords(memory.content);
+      const overlap = [...queryWords].filter(word => memoryWords.has(word)).length;
+      return { memory, overlap, recency };
+    })
+    .sort((a, b) => b.overlap - a.overlap || a.recency - b.recency)
+    .slice(0, limit)
+    .map(ranked => ranked.memory);
+}
+
+// Remembered facts as a <user_data> block for the prompt; empty when there are none
+export function formatMemoriesForPrompt(memories: UserMemory[]): string {
+  if (memories.length === 0) {
+    return '';
+  }
+
+  const lines = memories.map(memory => `- ${sanitizePromptText(memory.content)} (learned ${memory.created_at.slice(0, 10)})`);
+  return `Things you remember the user telling you in earlier conversations:\n${formatUserDataBlock('memories', lines.join('\n'))}`;
+}
+
+// Ask the LLM for durable facts in a transcript that are not already remembered
+async function extractFacts(
+  transcript: TranscriptTurn[],
+  knownMemories: string[],
+  llm: LlmProvider
+): Promise<string[]> {
+  const conversation = transcript
+    .map(turn => `${turn.role === 'user' ? 'User' : turn.role === 'action' ? 'Action taken' : 'Future self'}: ${turn.content}`)
+    .join('\n');
+
+  const completion = await llm.complete({
+    json: true,
+    messages: [
+      {
+        role: 'system',
+        content: `You pick out facts worth remembering from a conversation between a user and their future self. Only keep durable facts the user stated about their own life that would still matter in a later conversation, such as events, dates, people, health, work, plans and commitments (for example "Their kid starts school in August" or "They hurt their knee in early July"). Skip greetings, moods of the moment, advice from the future self and anything already known. Write each fact as one short sentence in the third person, with dates made absolute when possible. Reply with JSON: {"memories": ["..."]}, using an empty list when there is nothing new.`
+      },
+      {
+        role: 'user',
+        content: `Already known:\n${knownMemories.map(memory => `- ${memory}`).join('\n') || '(nothing yet)'}\n\nToday is ${new Date().toISOString().slice(0, 10)}.\n\nConversation:\n${conversation}`
+      }
+    ],
+    maxTokens: 400,
+    temperature: 0.2
+  });
+
+  const parsed = JSON.parse(completion.content || '{}');
+
+  return (Array.isArray(parsed.memories) ? parsed.memories : [])
+    .filter((memory: unknown): memory is string => typeof memory === 'string' && memory.trim().length > 0)
+    .map((memory: string) => memory.trim());
+}
+
+// Extract memories from a finished call or in-app conversation. Each call is processed once;
+// returns the number of memories stored.
+export async function extractMemoriesFromCall(
+  supabase: SupabaseClient,
+  callId: string,
+  llm: LlmProvider
+): Promise<number> {
+  // Claim the call so a retried status callback cannot extract it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('calls')
+    .update({ memories_extracted_at: new Date().toISOString() })
+    .eq('id', callId)
+    .is('memories_extracted_at', null)
+    .select('user_id');
+
+  if (claimError) {
+    throw new Error(`Failed to claim call for memory extraction: ${claimError.message}`);
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return 0;
+  }
+
+  const userId = claimed[0].user_id;
+
+  try {
+    const { data: turns, error: turnsError } = await supabase
+      .from('call_turns')
+      .select('role, content')
+      .eq('call_id', callId)
+      .order('turn_index', { ascending: true });
+
+    if (turnsError) {
+      throw new Error(`Failed to load call transcript: ${turnsError.message}`);
+    }
+
+    // Nothing to learn from a call where the user never spoke
+    if (!turns || !turns.some(turn => turn.role === 'user')) {
+      return 0;
+    }
+
+    const { data: known, error: knownError } = await supabase
+      .from('user_memories')
+      .select('content')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_KNOWN_MEMORIES);
+
+    if (knownError) {
+      throw new Error(`Failed to load memories: ${knownError.message}`);
+    }
+
+    const facts = await extractFacts(turns, (known || []).map(memory => memory.content), llm);
+    if (facts.length === 0) {
+      return 0;
+    }
+
+    const { error: insertError } = await supabase
+      .from('user_memories')
+      .insert(facts.map(content => ({ user_id: userId, content, source_call_id: callId })));
+
+    if (insertError) {
+      throw new Error(`Failed to save memories: ${insertError.message}`);
+    }
+
+    return facts.length;
+  } catch (error) {
+    // Release the claim so the call is extracted again next time
+    await supabase
+      .from('calls')
+      .update({ memories_extracted_at: null })
+      .eq('id', callId);
+    throw error;
+  }
+}
@@ -0,0 +1,548 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLocalDate, resolveTimeZone, zonedTimeToUtc } from '../_shared/time-zone.ts'
+import { checkContactPolicy } from '../_shared/contact-policy.ts'
+import { CHECK_IN_FREQUENCIES, isCheckInDue, type CheckInGoal } from '../_shared/check-in-schedule.ts'
+import { constantTimeEquals } from '../_shared/twilio-request.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Dial attempts allowed per scheduled call before it is marked missed or failed.
+// Attempts that reach Twilio are settled by twilio-call-handler's status callback and its
+// per-outcome retry policy; these limits cover dial errors and lost callbacks.
+const MAX_ATTEMPTS = 2;
+
+// Minutes to wait before retrying a call that failed to dial
+const RETRY_DELAY_MINUTES = 15;
+
+// Minutes after dialing without a status callback or TwiML webhook before a call counts as missed
+const STATUS_CALLBACK_TIMEOUT_MINUTES = 10;
+
+interface SchedulerProfile {
+  user_id: string;
+  phone_number: string;
+  preferred_time_start: string;
+  preferred_time_end: string;
+  time_zone: string | null;
+}
+
+interface SchedulerGoal extends CheckInGoal {
+  id: string;
+  user_id: string;
+}
+
+interface ScheduledCallRow {
+  id: string;
+  user_id: string;
+  status: string;
+  attempt_count: number;
+  window_end: string;
+}
+
+interface SchedulerSummary {
+  planned: number;
+  dispatched: number;
+  retried: number;
+  missed: number;
+  expired: number;
+  failed: number;
+  deferred: number;
+  suppressed: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+interface SuccessResponse {
+  success: true;
+  message: string;
+  summary: SchedulerSummary;
+  timestamp: string;
+  requestId: string;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Create standardized success response
+function createSuccessResponse(
+  message: string,
+  summary: SchedulerSummary,
+  requestId: string
+): Response {
+  const successResponse: SuccessResponse = {
+    success: true,
+    message,
+    summary,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('INFO', `Success response created: ${message}`, requestId, { ...summary });
+
+  return new Response(JSON.stringify(successResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string } {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId);
+  return { supabaseUrl, supabaseServiceKey };
+}
+
+// Create scheduled_calls rows for every user with a check-in due today in their time zone
+async function planCheckInCalls(
+  supabase: SupabaseClient,
+  now: Date,
+  requestId: string
+): Promise<number> {
+  logWithContext('INFO', 'Planning check-in calls', requestId, { now: now.toISOString() });
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('user_id, phone_number, preferred_time_start, preferred_time_end, time_zone')
+    .eq('onboarding_completed', true)
+    .contains('contact_prefs', ['phone'])
+    .not('phone_number', 'is', null)
+    .not('phone_verified_at', 'is', null)
+    .not('preferred_time_start', 'is', null)
+    .not('preferred_time_end', 'is', null);
+
+  if (profilesError) {
+    logWithContext('ERROR', 'Error fetching profiles for scheduling', requestId, {
+      error: profilesError.message,
+      code: profilesError.code
+    });
+    throw new Error(`Failed to fetch profiles: ${profilesError.message}`);
+  }
+
+  if (!profiles || profiles.length === 0) {
+    logWithContext('INFO', 'No users eligible for scheduled calls', requestId);
+    return 0;
+  }
+
+  const userIds = (profiles as SchedulerProfile[]).map(profile => profile.user_id);
+
+  const { data: goals, error: goalsError } = await supabase
+    .from('goals')
+    .select('id, user_id, frequency, start_date, created_at')
+    .in('user_id', userIds)
+    .in('frequency', CHECK_IN_FREQUENCIES);
+
+  if (goalsError) {
+    logWithContext('ERROR', 'Error fetching goals for scheduling', requestId, {
+      error: goalsError.message,
+      code: goalsError.code
+    });
+    throw new Error(`Failed to fetch goals: ${goalsError.message}`);
+  }
+
+  const goalsByUser = new Map<string, SchedulerGoal[]>();
+  (goals as SchedulerGoal[] || []).forEach(goal => {
+    const userGoals = goalsByUser.get(goal.user_id) || [];
+    userGoals.push(goal);
+    goalsByUser.set(goal.user_id, userGoals);
+  });
+
+  const rows = (profiles as SchedulerProfile[])
+    .map(profile => {
+      // "Today" and the call window both follow the user's own calendar and clock
+      const timeZone = resolveTimeZone(profile.time_zone);
+      const today = getLocalDate(now, timeZone);
+      const dueGoalIds = (goalsByUser.get(profile.user_id) || [])
+        .filter(goal => isCheckInDue(goal, today))
+        .map(goal => goal.id);
+
+      if (dueGoalIds.length === 0) {
+        return null;
+      }
+
+      const windowStart = zonedTimeToUtc(today, profile.preferred_time_start, timeZone);
+      const windowEnd = zonedTimeToUtc(today, profile.preferred_time_end, timeZone);
+      return {
+        user_id: profile.user_id,
+        goal_ids: dueGoalIds,
+        scheduled_date: today,
+        scheduled_for: windowStart.toISOString(),
+        window_end: windowEnd.toISOString(),
+        next_attempt_at: windowStart.toISOString()
+      };
+    })
+    // Skip windows that already closed today
+    .filter((row): row is NonNullable<typeof row> => row !== null && new Date(row.window_end) > now);
+
+  if (rows.length === 0) {
+    logWithContext('INFO', 'No check-in calls due today', requestId);
+    return 0;
+  }
+
+  // Existing rows for the same user and day are left untouched so nobody is dialed twice
+  const { data: inserted, error: insertError } = await supabase
+    .from('scheduled_calls')
+    .upsert(rows, { onConflict: 'user_id,scheduled_date', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) {
+    logWithContext('ERROR', 'Error creating scheduled calls', requestId, {
+      error: insertError.message,
+      code: insertError.code
+    });
+    throw new Error(`Failed to create scheduled calls: ${insertError.message}`);
+  }
+
+  logWithContext('INFO', 'Check-in calls planned', requestId, {
+    candidates: rows.length,
+    created: inserted?.length || 0
+  });
+
+  return inserted?.length || 0;
+}
+
+// Schedule another attempt or give up, depending on attempts made and the call window
+async function scheduleRetryOrFinish(
+  supabase: SupabaseClient,
+  call: ScheduledCallRow,
+  finalStatus: 'missed' | 'failed',
+  now: Date,
+  requestId: string,
+  lastError?: string
+): Promise<'retried' | 'missed' | 'failed'> {
+  const nextAttemptAt = new Date(now.getTime() + RETRY_DELAY_MINUTES * 60 * 1000);
+  const canRetry = call.attempt_count < MAX_ATTEMPTS && nextAttemptAt < new Date(call.window_end);
+
+  const { error } = await supabase
+    .from('scheduled_calls')
+    .update({
+      status: canRetry ? 'pending' : finalStatus,
+      next_attempt_at: canRetry ? nextAttemptAt.toISOString() : now.toISOString(),
+      ...(lastError && { last_error: lastError })
+    })
+    .eq('id', call.id)
+    .eq('status', call.status);
+
+  if (error) {
+    logWithContext('ERROR', 'Error updating scheduled call after attempt', requestId, {
+      scheduledCallId: call.id,
+      error: error.message
+    });
+    throw new Error(`Failed to update scheduled call: ${error.message}`);
+  }
+
+  logWithContext('INFO', canRetry ? 'Scheduled call queued for retry' : `Scheduled call marked ${finalStatus}`, requestId, {
+    scheduledCallId: call.id,
+    attemptCount: call.attempt_count,
+    nextAttemptAt: canRetry ? nextAttemptAt.toISOString() : null
+  });
+
+  return canRetry ? 'retried' : finalStatus;
+}
+
+// Move attempts whose status callback never arrived and closed windows out of the active states
+async function reconcileScheduledCalls(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: SchedulerSummary,
+  requestId: string
+): Promise<void> {
+  const answerDeadline = new Date(now.getTime() - STATUS_CALLBACK_TIMEOUT_MINUTES * 60 * 1000);
+
+  const { data: unanswered, error: unansweredError } = await supabase
+    .from('scheduled_calls')
+    .select('id, user_id, status, attempt_count, window_end')
+    .eq('status', 'dialing')
+    .lt('last_attempt_at', answerDeadline.toISOString());
+
+  if (unansweredError) {
+    throw new Error(`Failed to fetch unanswered calls: ${unansweredError.message}`);
+  }
+
+  for (const call of (unanswered as ScheduledCallRow[]) || []) {
+    const outcome = await scheduleRetryOrFinish(supabase, call, 'missed', now, requestId);
+    summary[outcome] += 1;
+  }
+
+  const { data: expired, error: expiredError } = await supabase
+    .from('scheduled_calls')
+    .update({ status: 'expired' })
+    .eq('status', 'pending')
+    .lt('window_end', now.toISOString())
+    .select('id');
+
+  if (expiredError) {
+    throw new Error(`Failed to expire scheduled calls: ${expiredError.message}`);
+  }
+
+  summary.expired += expired?.length || 0;
+
+  logWithContext('INFO', 'Scheduled calls reconciled', requestId, {
+    unanswered: unanswered?.length || 0,
+    expired: expired?.length || 0
+  });
+}
+
+// Ask twilio-call-handler to place the call for a scheduled check-in
+async function placeScheduledCall(
+  call: ScheduledCallRow,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  requestId: string
+): Promise<string> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/twilio-call-handler/initiate-call`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify({
+      user_id: call.user_id,
+      scheduled_call_id: call.id
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    logWithContext('ERROR', 'twilio-call-handler rejected scheduled call', requestId, {
+      scheduledCallId: call.id,
+      status: response.status,
+      error: result.error
+    });
+    throw new Error(result.error || `Call initiation failed: ${response.status}`);
+  }
+
+  return result.call_sid;
+}
+
+// Claim and dial every pending call whose next attempt is due
+async function dispatchDueCalls(
+  supabase: SupabaseClient,
+  now: Date,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  summary: SchedulerSummary,
+  requestId: string
+): Promise<void> {
+  const { data: dueCalls, error: dueError } = await supabase
+    .from('scheduled_calls')
+    .select('id, user_id, status, attempt_count, window_end')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .gt('window_end', now.toISOString())
+    .order('next_attempt_at', { ascending: true });
+
+  if (dueError) {
+    throw new Error(`Failed to fetch due calls: ${dueError.message}`);
+  }
+
+  logWithContext('INFO', 'Dispatching due calls', requestId, { dueCount: dueCalls?.length || 0 });
+
+  for (const call of (dueCalls as ScheduledCallRow[]) || []) {
+    // Quiet hours and vacations push the call later in its window, or suppress it for the day
+    const decision = await checkContactPolicy(supabase, {
+      userId: call.user_id,
+      channel: 'phone',
+      purpose: 'check_in',
+      detail: { scheduled_call_id: call.id }
+    }, now);
+
+    if (!decision.allowed) {
+      const deferred = decision.resumeAt !== null && decision.resumeAt < new Date(call.window_end);
+
+      const { error: suppressError } = await supabase
+        .from('scheduled_calls')
+        .update(deferred
+          ? { next_attempt_at: decision.resumeAt!.toISOString() }
+          : { status: 'suppressed', last_error: `Suppressed by contact policy: ${decision.reason}` })
+        .eq('id', call.id)
+        .eq('status', 'pending');
+
+      if (suppressError) {
+        logWithContext('ERROR', 'Error updating suppressed scheduled call', requestId, {
+          scheduledCallId: call.id,
+          error: suppressError.message
+        });
+        continue;
+      }
+
+      summary[deferred ? 'deferred' : 'suppressed'] += 1;
+      logWithContext('INFO', deferred ? 'Scheduled call deferred by contact policy' : 'Scheduled call suppressed by contact policy', requestId, {
+        scheduledCallId: call.id,
+        reason: decision.reason,
+        resumeAt: decision.resumeAt?.toISOString() || null
+      });
+      continue;
+    }
+
+    // Claim the row only if it is still pending so overlapping runs cannot dial it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('scheduled_calls')
+      .update({
+        status: 'dialing',
+        attempt_count: call.attempt_count + 1,
+        last_attempt_at: now.toISOString()
+      })
+      .eq('id', call.id)
+      .eq('status', 'pending')
+      .select('id, user_id, status, attempt_count, window_end');
+
+    if (claimError) {
+      logWithContext('ERROR', 'Error claiming scheduled call', requestId, {
+        scheduledCallId: call.id,
+        error: claimError.message
+      });
+      continue;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      logWithContext('WARN', 'Scheduled call already claimed by another run', requestId, { scheduledCallId: call.id });
+      continue;
+    }
+
+    const claimedCall: ScheduledCallRow = claimed[0];
+
+    try {
+      const callSid = await placeScheduledCall(claimedCall, supabaseUrl, supabaseServiceKey, requestId);
+
+      await supabase
+        .from('scheduled_calls')
+        .update({ call_sid: callSid, last_error: null })
+        .eq('id', claimedCall.id);
+
+      summary.dispatched += 1;
+      logWithContext('INFO', 'Scheduled call dispatched', requestId, {
+        scheduledCallId: claimedCall.id,
+        callSid,
+        attemptCount: claimedCall.attempt_count
+      });
+    } catch (error) {
+      const outcome = await scheduleRetryOrFinish(
+        supabase,
+        claimedCall,
+        'failed',
+        now,
+        requestId,
+        error instanceof Error ? error.message : String(error)
+      );
+      summary[outcome] += 1;
+    }
+  }
+}
+
+serve(async (req) => {
+  const requestId = generateRequestId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    logWithContext('INFO', 'CORS preflight request handled', requestId);
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  logWithContext('INFO', 'Call scheduler function invoked', requestId, {
+    method: req.method,
+    url: req.url,
+    userAgent: req.headers.get('user-agent')
+  });
+
+  try {
+    // Validate environment variables
+    const { supabaseUrl, supabaseServiceKey } = validateEnvironment(requestId);
+
+    // Only the cron job, which authenticates with the service role key, may run the scheduler
+    const authHeader = req.headers.get('authorization');
+    if (!constantTimeEquals(`Bearer ${supabaseServiceKey}`, authHeader || '')) {
+      return createErrorResponse('Unauthorized: scheduler requires service role key', requestId, 401);
+    }
+
+    // Create Supabase admin client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const summary: SchedulerSummary = {
+      planned: 0,
+      dispatched: 0,
+      retried: 0,
+      missed: 0,
+      expired: 0,
+      failed: 0,
+      deferred: 0,
+      suppressed: 0
+    };
+
+    summary.planned = await planCheckInCalls(supabase, now, requestId);
+    await reconcileScheduledCalls(supabase, now, summary, requestId);
+    await dispatchDueCalls(supabase, now, supabaseUrl, supabaseServiceKey, summary, requestId);
+
+    return createSuccessResponse('Scheduler run completed', summary, requestId);
+
+  } catch (error) {
+    logWithContext('ERROR', 'Unexpected error in call-scheduler', requestId, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred while running the call scheduler',
+      requestId,
+      500
+    );
+  }
+});
@@ -1,5 +1,5 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { Webhook } from 'https://esm.sh/svix@1.15.0'
 
 const corsHeaders = {
@@ -14,6 +14,7 @@ interface ClerkUser {
     email_address: string;
     id: string;
   }>;
+  primary_email_address_id?: string | null;
   first_name?: string;
   last_name?: string;
   image_url?: string;
@@ -165,6 +166,13 @@ async function verifyWebhookSignature(
   }
 }
 
+// The user's primary email address, or their first one when none is marked primary
+function getPrimaryEmail(userData: ClerkUser): string | null {
+  const addresses = userData.email_addresses || [];
+  const primary = addresses.find(address => address.id === userData.primary_email_address_id) || addresses[0];
+  return primary?.email_address || null;
+}
+
 // Handle user creation
 async function handleUserCreated(
   userData: ClerkUser,
@@ -206,6 +214,7 @@ async function handleUserCreated(
       .insert({
         user_id: userData.id,
         avatar_url: userData.image_url || null,
+        email: getPrimaryEmail(userData),
         voice_preference: 'friendly_mentor', // Default voice
         onboarding_completed: false,
         created_at: new Date().toISOString(),
@@ -234,6 +243,38 @@ async function handleUserCreated(
   }
 }
 
+// Handle user updates by keeping the profile's email in sync with Clerk
+async function handleUserUpdated(
+  userData: ClerkUser,
+  supabase: SupabaseClient,
+  requestId: string
+): Promise<void> {
+  logWithContext('INFO', 'Handling user update', requestId, {
+    userId: userData.id
+  });
+
+  const { error: updateError } = await supabase
+    .from('user_profiles')
+    .update({
+      email: getPrimaryEmail(userData),
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userData.id);
+
+  if (updateError) {
+    logWithContext('ERROR', 'Error updating user profile email', requestId, {
+      error: updateError.message,
+      code: updateError.code,
+      userId: userData.id
+    });
+    throw new Error(`Failed to update user profile: ${updateError.message}`);
+  }
+
+  logWithContext('INFO', 'User profile email synced', requestId, {
+    userId: userData.id
+  });
+}
+
 // Handle user deletion
 async function handleUserDeleted(
   userData: ClerkUser,
@@ -440,11 +481,12 @@ serve(async (req) => {
         );
 
       case 'user.updated':
-        logWithContext('INFO', 'Processing user.updated event (no action required)', requestId, {
+        logWithContext('INFO', 'Processing user.updated event', requestId, {
           userId: event.data.id
         });
+        await handleUserUpdated(event.data, supabase, requestId);
         return createSuccessResponse(
-          'User update event received (no action required)',
+          'User profile updated successfully',
           requestId,
           event.data.id
         );
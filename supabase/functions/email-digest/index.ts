@@ -0,0 +1,695 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkContactPolicy } from '../_shared/contact-policy.ts'
+import { createSmtpTransport, escapeHtml, smtpConfigFromEnv, type MailTransport } from '../_shared/mail-transport.ts'
+import { getLocalDate, getLocalWeekday, resolveTimeZone, zonedTimeToUtc } from '../_shared/time-zone.ts'
+import { formatUserDataBlock, sanitizePromptText } from '../_shared/prompt-assembly.ts'
+import { constantTimeEquals } from '../_shared/twilio-request.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Digests go out on Monday in the user's time zone
+const DIGEST_WEEKDAY = 1;
+
+// Window used when the user never picked an email time
+const DEFAULT_EMAIL_TIME_START = '09:00';
+const DEFAULT_EMAIL_TIME_END = '17:00';
+
+// Deadlines this many days ahead are listed as approaching
+const DEADLINE_HORIZON_DAYS = 14;
+
+// Progress entries read per user to work out streaks
+const PROGRESS_LOOKBACK_DAYS = 90;
+
+// Minutes a digest may stay claimed before a later run treats its sending run as dead
+const SENDING_TIMEOUT_MINUTES = 10;
+
+interface DigestProfile {
+  user_id: string;
+  email: string;
+  preferred_email_time_start: string | null;
+  preferred_email_time_end: string | null;
+  time_zone: string | null;
+}
+
+interface DigestRow {
+  id: string;
+  user_id: string;
+  week_start: string;
+  window_end: string;
+}
+
+interface DigestGoal {
+  id: string;
+  title: string;
+  frequency: string | null;
+  deadline: string | null;
+}
+
+interface GoalProgressRow {
+  goal_id: string;
+  status: string;
+  logged_on: string;
+}
+
+interface GoalSummary {
+  title: string;
+  frequency: string | null;
+  deadline: string | null;
+  daysLeft: number | null;
+  streak: number;
+  doneThisWeek: number;
+  skippedThisWeek: number;
+}
+
+interface DigestContent {
+  weekStart: string;
+  goals: GoalSummary[];
+  callsThisWeek: number;
+  futureSelfMessage: string;
+}
+
+interface DigestSummary {
+  planned: number;
+  sent: number;
+  deferred: number;
+  suppressed: number;
+  failed: number;
+  expired: number;
+  recovered: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+interface SuccessResponse {
+  success: true;
+  message: string;
+  summary: DigestSummary;
+  timestamp: string;
+  requestId: string;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Create standardized success response
+function createSuccessResponse(
+  message: string,
+  summary: DigestSummary,
+  requestId: string
+): Response {
+  const successResponse: SuccessResponse = {
+    success: true,
+    message,
+    summary,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('INFO', `Success response created: ${message}`, requestId, { ...summary });
+
+  return new Response(JSON.stringify(successResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string; appUrl: string | null } {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId);
+  return { supabaseUrl, supabaseServiceKey, appUrl: Deno.env.get('APP_URL') || null };
+}
+
+// Move a YYYY-MM-DD date by whole days
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function daysUntil(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// Create email_digests rows for users whose digest day has come in their time zone
+async function planDigests(
+  supabase: SupabaseClient,
+  now: Date,
+  requestId: string
+): Promise<number> {
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('user_id, email, preferred_email_time_start, preferred_email_time_end, time_zone')
+    .eq('onboarding_completed', true)
+    .eq('email_notifications_enabled', true)
+    .not('email', 'is', null);
+
+  if (profilesError) {
+    throw new Error(`Failed to fetch profiles: ${profilesError.message}`);
+  }
+
+  const rows = (profiles as DigestProfile[] || [])
+    .filter(profile => getLocalWeekday(now, resolveTimeZone(profile.time_zone)) === DIGEST_WEEKDAY)
+    .map(profile => {
+      const timeZone = resolveTimeZone(profile.time_zone);
+      const today = getLocalDate(now, timeZone);
+
+      return {
+        user_id: profile.user_id,
+        week_start: today,
+        send_at: zonedTimeToUtc(today, profile.preferred_email_time_start || DEFAULT_EMAIL_TIME_START, timeZone).toISOString(),
+        window_end: zonedTimeToUtc(today, profile.preferred_email_time_end || DEFAULT_EMAIL_TIME_END, timeZone).toISOString()
+      };
+    })
+    // Skip windows that already closed today
+    .filter(row => new Date(row.window_end) > now);
+
+  if (rows.length === 0) {
+    logWithContext('INFO', 'No users due for an email digest', requestId);
+    return 0;
+  }
+
+  // Existing rows for the same user and week are left untouched so nobody gets two digests
+  const { data: inserted, error: insertError } = await supabase
+    .from('email_digests')
+    .upsert(rows, { onConflict: 'user_id,week_start', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) {
+    throw new Error(`Failed to create email digests: ${insertError.message}`);
+  }
+
+  logWithContext('INFO', 'Email digests planned', requestId, { candidates: rows.length, created: inserted?.length || 0 });
+  return inserted?.length || 0;
+}
+
+// One entry per day, keeping the latest report of each. A goal can be logged twice on one
+// day, such as by an SMS "done" and again during a call, and that still counts once.
+function latestEntryPerDay(progress: GoalProgressRow[]): GoalProgressRow[] {
+  const seenDays = new Set<string>();
+  return progress.filter(entry => {
+    if (seenDays.has(entry.logged_on)) return false;
+    seenDays.add(entry.logged_on);
+    return true;
+  });
+}
+
+// Consecutive days logged "done", counting back from the most recent one
+function getStreak(progress: GoalProgressRow[]): number {
+  let streak = 0;
+  for (const entry of progress) {
+    if (entry.status !== 'done') break;
+    streak += 1;
+  }
+  return streak;
+}
+
+// Ask the future self for a short note about the week. Goal titles are written by the user, so
+// the week's numbers go in a <user_data> block, one JSON object per goal, after the instructions.
+async function getFutureSelfMessage(
+  userId: string,
+  goals: GoalSummary[],
+  callsThisWeek: number,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<string> {
+  const weekSummary = goals
+    .map(goal => JSON.stringify({
+      title: sanitizePromptText(goal.title),
+      done: goal.doneThisWeek,
+      skipped: goal.skippedThisWeek,
+      streak: goal.streak,
+      ...(goal.daysLeft !== null && { days_until_deadline: goal.daysLeft })
+    }))
+    .join('\n');
+  const weekBlock = weekSummary
+    ? `This week's progress on each goal is in the week block below.\n\n${formatUserDataBlock('week', weekSummary)}`
+    : 'They have no goals yet.';
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/openai-chat-completion`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify({
+      user_id: userId,
+      context: `Write a short note for the user's weekly progress email, looking back on their week and ahead to the next one. They had ${callsThisWeek} check-in calls. Reply in plain text, in 2 to 4 sentences, without markdown. ${weekBlock}`,
+      history: []
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `OpenAI Edge Function failed: ${response.status}`);
+  }
+
+  return result.message;
+}
+
+// Gather the goals, deadlines, streaks and future self note for one digest
+async function buildDigestContent(
+  supabase: SupabaseClient,
+  digest: DigestRow,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  requestId: string
+): Promise<DigestContent> {
+  const today = digest.week_start;
+  const weekAgo = shiftDate(today, -6);
+
+  const { data: goals, error: goalsError } = await supabase
+    .from('goals')
+    .select('id, title, frequency, deadline')
+    .eq('user_id', digest.user_id)
+    .order('created_at', { ascending: true });
+
+  if (goalsError) {
+    throw new Error(`Failed to fetch goals: ${goalsError.message}`);
+  }
+
+  const { data: progress, error: progressError } = await supabase
+    .from('goal_progress')
+    .select('goal_id, status, logged_on')
+    .eq('user_id', digest.user_id)
+    .gte('logged_on', shiftDate(today, -PROGRESS_LOOKBACK_DAYS))
+    .order('logged_on', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (progressError) {
+    throw new Error(`Failed to fetch goal progress: ${progressError.message}`);
+  }
+
+  const { count: callsThisWeek, error: callsError } = await supabase
+    .from('calls')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', digest.user_id)
+    .eq('status', 'completed')
+    .or('outcome.is.null,outcome.eq.completed')
+    .gte('started_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
+
+  if (callsError) {
+    throw new Error(`Failed to count calls: ${callsError.message}`);
+  }
+
+  const summaries = (goals as DigestGoal[] || []).map(goal => {
+    // Progress is newest first, so the first entry of each day is its latest report
+    const goalProgress = latestEntryPerDay((progress as GoalProgressRow[] || []).filter(entry => entry.goal_id === goal.id));
+    const thisWeek = goalProgress.filter(entry => entry.logged_on >= weekAgo);
+    const daysLeft = goal.deadline ? daysUntil(today, goal.deadline.slice(0, 10)) : null;
+
+    return {
+      title: goal.title,
+      frequency: goal.frequency,
+      deadline: goal.deadline,
+      daysLeft,
+      streak: getStreak(goalProgress),
+      doneThisWeek: thisWeek.filter(entry => entry.status === 'done').length,
+      skippedThisWeek: thisWeek.filter(entry => entry.status === 'skipped').length
+    };
+  });
+
+  let futureSelfMessage = '';
+  try {
+    futureSelfMessage = await getFutureSelfMessage(digest.user_id, summaries, callsThisWeek || 0, supabaseUrl, supabaseServiceKey);
+  } catch (error) {
+    // The digest is still worth sending without the note
+    logWithContext('WARN', 'Failed to get future self message for digest', requestId, {
+      digestId: digest.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return { weekStart: today, goals: summaries, callsThisWeek: callsThisWeek || 0, futureSelfMessage };
+}
+
+function getApproachingDeadlines(content: DigestContent): GoalSummary[] {
+  return content.goals
+    .filter(goal => goal.daysLeft !== null && goal.daysLeft >= 0 && goal.daysLeft <= DEADLINE_HORIZON_DAYS)
+    .sort((a, b) => a.daysLeft! - b.daysLeft!);
+}
+
+function describeDaysLeft(daysLeft: number): string {
+  if (daysLeft === 0) return 'due today';
+  if (daysLeft === 1) return 'due tomorrow';
+  return `due in ${daysLeft} days`;
+}
+
+function describeStreak(goal: GoalSummary): string {
+  return goal.streak === 1 ? '1 check-in in a row' : `${goal.streak} check-ins in a row`;
+}
+
+function renderDigestText(content: DigestContent, appUrl: string | null): string {
+  const lines = [`Your week with MyFutrSelf (week of ${content.weekStart})`, ''];
+
+  if (content.futureSelfMessage) {
+    lines.push('A note from your future self:', content.futureSelfMessage, '');
+  }
+
+  lines.push('Your goals:');
+  if (content.goals.length === 0) {
+    lines.push('- No goals yet. Add one in the app to start checking in.');
+  }
+  for (const goal of content.goals) {
+    lines.push(`- ${goal.title}: ${goal.doneThisWeek} done, ${goal.skippedThisWeek} skipped this week, ${describeStreak(goal)}`);
+  }
+
+  const deadlines = getApproachingDeadlines(content);
+  if (deadlines.length > 0) {
+    lines.push('', 'Approaching deadlines:');
+    for (const goal of deadlines) {
+      lines.push(`- ${goal.title}: ${describeDaysLeft(goal.daysLeft!)}`);
+    }
+  }
+
+  lines.push('', `Check-in calls this week: ${content.callsThisWeek}`);
+
+  lines.push('', 'You get this email because email notifications are on in your contact preferences.');
+  if (appUrl) {
+    lines.push(`Manage them at ${appUrl}`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderDigestHtml(content: DigestContent, appUrl: string | null): string {
+  const goalItems = content.goals.length === 0
+    ? '<li>No goals yet. Add one in the app to start checking in.</li>'
+    : content.goals.map(goal =>
+      `<li><strong>${escapeHtml(goal.title)}</strong>: ${goal.doneThisWeek} done, ${goal.skippedThisWeek} skipped this week, ${escapeHtml(describeStreak(goal))}</li>`
+    ).join('');
+
+  const deadlines = getApproachingDeadlines(content);
+  const deadlineSection = deadlines.length === 0 ? '' : `
+      <h2 style="font-size:18px;margin:24px 0 8px;">Approaching deadlines</h2>
+      <ul style="padding-left:20px;margin:0;">${deadlines.map(goal =>
+        `<li><strong>${escapeHtml(goal.title)}</strong>: ${escapeHtml(describeDaysLeft(goal.daysLeft!))}</li>`
+      ).join('')}</ul>`;
+
+  const noteSection = !content.futureSelfMessage ? '' : `
+      <div style="background:#f5f3ff;border-radius:8px;padding:16px;margin:16px 0;">
+        <p style="margin:0 0 8px;font-weight:bold;">A note from your future self</p>
+        <p style="margin:0;">${escapeHtml(content.futureSelfMessage)}</p>
+      </div>`;
+
+  const manageLink = appUrl
+    ? ` <a href="${escapeHtml(appUrl)}" style="color:#6b7280;">Manage your preferences</a>.`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+      <h1 style="font-size:22px;margin:0 0 4px;">Your week with MyFutrSelf</h1>
+      <p style="margin:0;color:#6b7280;">Week of ${escapeHtml(content.weekStart)}</p>${noteSection}
+      <h2 style="font-size:18px;margin:24px 0 8px;">Your goals</h2>
+      <ul style="padding-left:20px;margin:0;">${goalItems}</ul>${deadlineSection}
+      <p style="margin:24px 0 0;">Check-in calls this week: <strong>${content.callsThisWeek}</strong></p>
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">You get this email because email notifications are on in your contact preferences.${manageLink}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+// Build and send one digest
+async function sendDigest(
+  supabase: SupabaseClient,
+  digest: DigestRow,
+  transport: MailTransport,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  appUrl: string | null,
+  requestId: string
+): Promise<void> {
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('email')
+    .eq('user_id', digest.user_id)
+    .single();
+
+  if (profileError || !profile?.email) {
+    throw new Error('User has no email address');
+  }
+
+  const content = await buildDigestContent(supabase, digest, supabaseUrl, supabaseServiceKey, requestId);
+
+  await transport.send({
+    to: profile.email,
+    subject: 'Your weekly progress from MyFutrSelf',
+    html: renderDigestHtml(content, appUrl),
+    text: renderDigestText(content, appUrl)
+  });
+
+  await supabase
+    .from('email_digests')
+    .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+    .eq('id', digest.id);
+
+  logWithContext('INFO', 'Email digest sent', requestId, { digestId: digest.id, goals: content.goals.length });
+}
+
+// Release digests left in `sending` by a run that ended before finishing them: they are retried
+// while their window is open and failed after that. A run that ended between sending the email
+// and marking it sent is rare enough that a second copy is better than a lost digest.
+async function recoverAbandonedDigests(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: DigestSummary,
+  requestId: string
+): Promise<void> {
+  const claimDeadline = new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+
+  const { data: abandoned, error: abandonedError } = await supabase
+    .from('email_digests')
+    .select('id, window_end')
+    .eq('status', 'sending')
+    .lt('claimed_at', claimDeadline.toISOString());
+
+  if (abandonedError) {
+    throw new Error(`Failed to fetch abandoned email digests: ${abandonedError.message}`);
+  }
+
+  for (const digest of abandoned || []) {
+    const update = new Date(digest.window_end) > now
+      ? { status: 'pending', claimed_at: null }
+      : { status: 'failed', last_error: 'The sending run ended before the digest was sent' };
+
+    await supabase
+      .from('email_digests')
+      .update(update)
+      .eq('id', digest.id)
+      .eq('status', 'sending');
+
+    logWithContext('WARN', 'Recovered abandoned email digest', requestId, { digestId: digest.id, status: update.status });
+  }
+
+  summary.recovered = abandoned?.length || 0;
+}
+
+// Recover abandoned claims, expire closed windows, then claim and send every digest that is due
+async function dispatchDueDigests(
+  supabase: SupabaseClient,
+  now: Date,
+  transport: MailTransport,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  appUrl: string | null,
+  summary: DigestSummary,
+  requestId: string
+): Promise<void> {
+  await recoverAbandonedDigests(supabase, now, summary, requestId);
+
+  const { data: expired, error: expiredError } = await supabase
+    .from('email_digests')
+    .update({ status: 'expired' })
+    .eq('status', 'pending')
+    .lt('window_end', now.toISOString())
+    .select('id');
+
+  if (expiredError) {
+    throw new Error(`Failed to expire email digests: ${expiredError.message}`);
+  }
+
+  summary.expired = expired?.length || 0;
+
+  const { data: dueDigests, error: dueError } = await supabase
+    .from('email_digests')
+    .select('id, user_id, week_start, window_end')
+    .eq('status', 'pending')
+    .lte('send_at', now.toISOString())
+    .order('send_at', { ascending: true });
+
+  if (dueError) {
+    throw new Error(`Failed to fetch due email digests: ${dueError.message}`);
+  }
+
+  for (const digest of (dueDigests as DigestRow[]) || []) {
+    // Quiet hours and vacations push the digest later in its window, or suppress it for the week
+    const decision = await checkContactPolicy(supabase, {
+      userId: digest.user_id,
+      channel: 'email',
+      purpose: 'check_in',
+      detail: { email_digest_id: digest.id }
+    }, now);
+
+    if (!decision.allowed) {
+      const deferred = decision.resumeAt !== null && decision.resumeAt < new Date(digest.window_end);
+
+      await supabase
+        .from('email_digests')
+        .update(deferred
+          ? { send_at: decision.resumeAt!.toISOString() }
+          : { status: 'suppressed', last_error: `Suppressed by contact policy: ${decision.reason}` })
+        .eq('id', digest.id)
+        .eq('status', 'pending');
+
+      summary[deferred ? 'deferred' : 'suppressed'] += 1;
+      continue;
+    }
+
+    // Claim the row only if it is still pending so overlapping runs cannot send twice
+    const { data: claimed } = await supabase
+      .from('email_digests')
+      .update({ status: 'sending', claimed_at: new Date().toISOString() })
+      .eq('id', digest.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      logWithContext('WARN', 'Email digest already claimed by another run', requestId, { digestId: digest.id });
+      continue;
+    }
+
+    try {
+      await sendDigest(supabase, digest, transport, supabaseUrl, supabaseServiceKey, appUrl, requestId);
+      summary.sent += 1;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logWithContext('ERROR', 'Failed to send email digest', requestId, { digestId: digest.id, error: errorMessage });
+
+      await supabase
+        .from('email_digests')
+        .update({ status: 'failed', last_error: errorMessage })
+        .eq('id', digest.id);
+
+      summary.failed += 1;
+    }
+  }
+}
+
+serve(async (req) => {
+  const requestId = generateRequestId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    logWithContext('INFO', 'CORS preflight request handled', requestId);
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  logWithContext('INFO', 'Email digest function invoked', requestId, {
+    method: req.method,
+    url: req.url,
+    userAgent: req.headers.get('user-agent')
+  });
+
+  try {
+    // Validate environment variables
+    const { supabaseUrl, supabaseServiceKey, appUrl } = validateEnvironment(requestId);
+
+    // Only the cron job, which authenticates with the service role key, may send digests
+    const authHeader = req.headers.get('authorization');
+    if (!constantTimeEquals(`Bearer ${supabaseServiceKey}`, authHeader || '')) {
+      return createErrorResponse('Unauthorized: sending digests requires service role key', requestId, 401);
+    }
+
+    // Create Supabase admin client and mail transport
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport = createSmtpTransport(smtpConfigFromEnv());
+
+    const now = new Date();
+    const summary: DigestSummary = {
+      planned: 0,
+      sent: 0,
+      deferred: 0,
+      suppressed: 0,
+      failed: 0,
+      expired: 0,
+      recovered: 0
+    };
+
+    summary.planned = await planDigests(supabase, now, requestId);
+    await dispatchDueDigests(supabase, now, transport, supabaseUrl, supabaseServiceKey, appUrl, summary, requestId);
+
+    return createSuccessResponse('Email digest run completed', summary, requestId);
+
+  } catch (error) {
+    logWithContext('ERROR', 'Unexpected error in email-digest', requestId, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred while sending email digests',
+      requestId,
+      500
+    );
+  }
+});
@@ -1,5 +1,24 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { extractMemoriesFromCall, formatMemoriesForPrompt, retrieveRelevantMemories } from '../_shared/user-memories.ts'
+import { actionTurnMessage, buildToolDefinitions, MAX_TOOL_ROUNDS, runToolCalls, type ToolContext } from '../_shared/future-self-tools.ts'
+import { createEventStream } from '../_shared/openai-stream.ts'
+import { llmProviderFromEnv, toAssistantMessage, type LlmProvider } from '../_shared/llm-provider.ts'
+import { synthesizeWithFailover, ttsProvidersFromEnv, type TtsProvider } from '../_shared/tts-provider.ts'
+import { isUnclearTranscript, REPEAT_PROMPT, sttProviderFromEnv, type SttProvider, type Transcript } from '../_shared/stt-provider.ts'
+import {
+  formatGoalsForPrompt,
+  formatUserDataBlock,
+  sanitizePromptText,
+  sanitizeUtterance,
+  USER_DATA_RULES
+} from '../_shared/prompt-assembly.ts'
+import {
+  classifyUtterance,
+  hasGivenSafeResponse,
+  recordSafetyEvent,
+  SAFE_RESPONSE
+} from '../_shared/safety.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,10 +26,45 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+// Unsummarized turns sent with each message; past this, the oldest are folded into the summary
+const MAX_RECENT_TURNS = 20;
+
+// Turns kept word for word after older ones are folded into the summary
+const KEPT_RECENT_TURNS = 10;
+
+// Longest typed message accepted, well beyond what fits in 30 seconds of speech
+const MAX_MESSAGE_TEXT_LENGTH = 2000;
+
+// Earlier conversations processed for long-term memories when a new one starts
+const MAX_MEMORY_EXTRACTIONS = 3;
+
 interface RequestBody {
-  audioData: string; // Base64 audio data
+  audioData?: string; // Base64 audio data of a spoken message
   userId: string;
-  messageText?: string; // Optional pre-transcribed text
+  messageText?: string; // Typed or pre-transcribed text; used instead of transcribing audioData
+  speakReply?: boolean; // Set to false to skip text-to-speech, such as in text chat; defaults to true
+  callId?: string; // Call log entry returned by the first request of this conversation
+  stream?: boolean; // Reply with server-sent events while the reply is generated
+}
+
+interface ChatTurn {
+  role: 'user' | 'assistant' | 'action';
+  content: string;
+  created_at: string;
+}
+
+// What the future self remembers of earlier in-app conversations
+interface ChatMemory {
+  summary: string;
+  summarizedThrough: string | null;
+  recentTurns: ChatTurn[];
+}
+
+interface InAppCall {
+  id: string;
+  startedAt: string;
+  turnCount: number;
+  inCrisis: boolean; // A crisis disclosure was flagged earlier in this conversation
 }
 
 interface ErrorResponse {
@@ -22,13 +76,39 @@ interface ErrorResponse {
 
 interface SuccessResponse {
   success: true;
-  audioResponse: string; // Base64 audio data
+  audioResponse: string | null; // Base64 audio data; null when the reply was not spoken
+  speechFallback: boolean; // The reply was to be spoken but no TTS provider could render it; the app reads it out itself
   textResponse: string;
   userText: string;
+  callId: string;
+  actions: string[]; // Actions the future self took before replying
+  needsRepeat: boolean; // The recording was not understood well enough; the reply asks the user to repeat it
   timestamp: string;
   requestId: string;
 }
 
+interface AIReply {
+  message: string;
+  actions: string[];
+}
+
+interface VoiceChatReply {
+  audioResponse: string | null;
+  speechFallback: boolean;
+  textResponse: string;
+  userText: string;
+  callId: string;
+  actions: string[];
+  needsRepeat: boolean;
+}
+
+// Callbacks for streaming mode, called as the reply is generated
+interface StreamHandlers {
+  onTranscript: (userText: string, callId: string) => void;
+  onText: (text: string) => void;
+  onAction: (action: string) => void;
+}
+
 // Generate unique request ID for tracking
 function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -70,24 +150,23 @@ function createErrorResponse(
 
 // Create standardized success response
 function createSuccessResponse(
-  audioResponse: string,
-  textResponse: string,
-  userText: string,
+  reply: VoiceChatReply,
   requestId: string
 ): Response {
   const successResponse: SuccessResponse = {
     success: true,
-    audioResponse,
-    textResponse,
-    userText,
+    ...reply,
     timestamp: new Date().toISOString(),
     requestId
   };
 
   logWithContext('INFO', `Success response created`, requestId, {
-    audioResponseLength: audioResponse.length,
-    textResponseLength: textResponse.length,
-    userTextLength: userText.length
+    audioResponseLength: reply.audioResponse?.length || 0,
+    speechFallback: reply.speechFallback,
+    textResponseLength: reply.textResponse.length,
+    userTextLength: reply.userText.length,
+    actionsCount: reply.actions.length,
+    needsRepeat: reply.needsRepeat
   });
 
   return new Response(JSON.stringify(successResponse), {
@@ -100,28 +179,36 @@ function createSuccessResponse(
 function validateEnvironment(requestId: string): { 
   supabaseUrl: string; 
   supabaseServiceKey: string; 
-  openaiApiKey: string;
-  elevenLabsApiKey: string;
+  openaiApiKey: string | null;
+  llm: LlmProvider;
+  ttsProviders: TtsProvider[];
+  sttProvider: SttProvider;
 } {
   logWithContext('INFO', 'Validating environment variables', requestId);
   
   const supabaseUrl = Deno.env.get('SUPABASE_URL');
   const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  const elevenLabsApiKey = Deno.env.get('VITE_ELEVENLABS_API_KEY');
   
   const missing = [];
   if (!supabaseUrl) missing.push('SUPABASE_URL');
   if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
-  if (!openaiApiKey) missing.push('OPENAI_API_KEY');
-  if (!elevenLabsApiKey) missing.push('VITE_ELEVENLABS_API_KEY');
   
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
   
-  logWithContext('INFO', 'Environment variables validated successfully', requestId);
-  return { supabaseUrl, supabaseServiceKey, openaiApiKey, elevenLabsApiKey };
+  // The providers check their own settings (LLM_PROVIDER, TTS_PROVIDERS, STT_PROVIDER and their keys)
+  const llm = llmProviderFromEnv();
+  const ttsProviders = ttsProvidersFromEnv();
+  const sttProvider = sttProviderFromEnv();
+  
+  logWithContext('INFO', 'Environment variables validated successfully', requestId, {
+    llmProvider: llm.name,
+    ttsProviders: ttsProviders.map(provider => provider.name),
+    sttProvider: sttProvider.name
+  });
+  // OPENAI_API_KEY is optional here; it enables the moderation check of the safety layer
+  return { supabaseUrl, supabaseServiceKey, openaiApiKey: Deno.env.get('OPENAI_API_KEY') || null, llm, ttsProviders, sttProvider };
 }
 
 // Extract user ID from Clerk JWT
@@ -147,14 +234,15 @@ function extractUserIdFromJWT(authHeader: string | null, requestId: string): str
   }
 }
 
-// Transcribe audio using OpenAI Whisper API
+// Transcribe a recorded message with the configured speech-to-text provider
 async function transcribeAudio(
   audioData: string,
-  openaiApiKey: string,
+  sttProvider: SttProvider,
   requestId: string
-): Promise<string> {
-  logWithContext('INFO', 'Transcribing audio with OpenAI Whisper API', requestId, {
-    audioDataLength: audioData.length
+): Promise<Transcript> {
+  logWithContext('INFO', 'Transcribing audio', requestId, {
+    audioDataLength: audioData.length,
+    sttProvider: sttProvider.name
   });
 
   try {
@@ -168,43 +256,15 @@ async function transcribeAudio(
     const binaryData = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
     const audioBlob = new Blob([binaryData], { type: 'audio/webm' });
 
-    // Create form data for the API request
-    const formData = new FormData();
-    formData.append('file', audioBlob, 'recording.webm');
-    formData.append('model', 'whisper-1');
-    formData.append('language', 'en');
-
-    // Call OpenAI Whisper API
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: formData
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      logWithContext('ERROR', 'OpenAI Whisper API error', requestId, {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
-      });
-      throw new Error(`OpenAI Whisper API error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
-
-    const result = await response.json();
-    const transcription = result.text?.trim();
-    
-    if (!transcription) {
-      throw new Error('No transcription returned from OpenAI Whisper API');
-    }
+    const transcript = await sttProvider.transcribe(audioBlob, 'recording.webm');
 
     logWithContext('INFO', 'Audio transcribed successfully', requestId, {
-      transcription
+      transcription: transcript.text,
+      confidence: transcript.confidence,
+      language: transcript.language
     });
 
-    return transcription;
+    return transcript;
 
   } catch (error) {
     logWithContext('ERROR', 'Error transcribing audio', requestId, {
@@ -280,116 +340,314 @@ async function getUserData(
   }
 }
 
-// Format user goals for AI prompt
+// Format user goals for AI prompt, as a <user_data> block of sanitized goals
 function formatUserGoalsForPrompt(userGoals: any[], requestId: string): string {
   logWithContext('INFO', 'Formatting user goals for AI prompt', requestId, { goalsCount: userGoals.length });
 
-  if (userGoals.length === 0) {
-    return "The user hasn't set up any goals yet, but they're just getting started on their journey.";
+  const formattedData = formatGoalsForPrompt(userGoals.map(goal => ({
+    title: goal.title,
+    category: goal.categories?.name || null,
+    deadline: goal.deadline || null,
+    frequency: goal.frequency || null,
+    motivation: goal.motivations?.[0]?.motivation_text || null,
+    obstacles: goal.motivations?.[0]?.obstacles || []
+  })));
+
+  logWithContext('INFO', 'User goals formatted for prompt', requestId, { 
+    formattedDataLength: formattedData.length
+  });
+
+  return formattedData;
+}
+
+// Load the conversation summary and the in-app turns since it was last updated
+async function loadChatMemory(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string
+): Promise<ChatMemory> {
+  const { data: memory, error: memoryError } = await supabase
+    .from('chat_memories')
+    .select('summary, summarized_through')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (memoryError) {
+    logWithContext('ERROR', 'Error loading chat memory', requestId, { error: memoryError.message, userId });
+    throw new Error(`Failed to load chat memory: ${memoryError.message}`);
+  }
+
+  let query = supabase
+    .from('call_turns')
+    .select('role, content, created_at, calls!inner(channel)')
+    .eq('user_id', userId)
+    .eq('calls.channel', 'in_app')
+    .order('created_at', { ascending: false })
+    .order('turn_index', { ascending: false })
+    // Normally bounded by the summary; the cap only matters if summarizing keeps failing
+    .limit(MAX_RECENT_TURNS * 2);
+
+  if (memory?.summarized_through) {
+    query = query.gt('created_at', memory.summarized_through);
   }
 
-  let formattedData = `Here are the user's current goals and progress:\n\n`;
+  const { data: turns, error: turnsError } = await query;
 
-  userGoals.forEach((goal, index) => {
-    formattedData += `Goal ${index + 1}: ${goal.title}\n`;
-    formattedData += `Category: ${goal.categories?.name || 'Unknown'}\n`;
-    
-    if (goal.deadline) {
-      formattedData += `Deadline: ${goal.deadline}\n`;
+  if (turnsError) {
+    logWithContext('ERROR', 'Error loading recent turns', requestId, { error: turnsError.message, userId });
+    throw new Error(`Failed to load chat memory: ${turnsError.message}`);
+  }
+
+  const recentTurns = (turns || [])
+    .reverse()
+    .map(turn => ({ role: turn.role as ChatTurn['role'], content: turn.content, created_at: turn.created_at }));
+
+  logWithContext('INFO', 'Chat memory loaded', requestId, {
+    userId,
+    hasSummary: !!memory?.summary,
+    recentTurns: recentTurns.length
+  });
+
+  return {
+    summary: memory?.summary || '',
+    summarizedThrough: memory?.summarized_through || null,
+    recentTurns
+  };
+}
+
+// Fold older turns into the running summary of what the user has shared
+async function summarizeTurns(
+  previousSummary: string,
+  turns: ChatTurn[],
+  llm: LlmProvider
+): Promise<string> {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'User' : turn.role === 'action' ? 'Action taken' : 'Future self'}: ${turn.content}`)
+    .join('\n');
+
+  const completion = await llm.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You keep the memory of conversations between a user and their future self. Merge the existing summary and the new exchanges into one updated summary, written in the third person about the user. Keep what matters for later conversations: events in their life, progress and setbacks on their goals, commitments they made, feelings they shared and things to follow up on. Drop small talk. Stay under 200 words.'
+      },
+      {
+        role: 'user',
+        content: `Existing summary:\n${previousSummary || '(none yet)'}\n\nNew exchanges:\n${transcript}`
+      }
+    ],
+    maxTokens: 400,
+    temperature: 0.3
+  });
+
+  const summary = completion.content?.trim();
+
+  if (!summary) {
+    throw new Error(`Empty summary returned from ${llm.name}`);
+  }
+
+  return summary;
+}
+
+// Once too many turns are unsummarized, fold all but the latest into the summary
+async function compactChatMemory(
+  supabase: SupabaseClient,
+  userId: string,
+  llm: LlmProvider,
+  requestId: string
+): Promise<void> {
+  try {
+    const memory = await loadChatMemory(supabase, userId, requestId);
+    if (memory.recentTurns.length <= MAX_RECENT_TURNS) {
+      return;
     }
-    
-    if (goal.frequency) {
-      formattedData += `Check-in Frequency: ${goal.frequency}\n`;
+
+    // Both turns of an exchange share a timestamp, so fold everything up to the boundary
+    const boundary = memory.recentTurns[memory.recentTurns.length - KEPT_RECENT_TURNS - 1].created_at;
+    const folded = memory.recentTurns.filter(turn => turn.created_at <= boundary);
+    const summary = await summarizeTurns(memory.summary, folded, llm);
+
+    const { error } = await supabase
+      .from('chat_memories')
+      .upsert({ user_id: userId, summary, summarized_through: boundary }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(error.message);
     }
-    
-    if (goal.motivations && goal.motivations.length > 0) {
-      const motivation = goal.motivations[0];
-      
-      if (motivation.motivation_text) {
-        formattedData += `Motivation: ${motivation.motivation_text}\n`;
-      }
-      
-      if (motivation.obstacles && motivation.obstacles.length > 0) {
-        formattedData += `Obstacles: ${motivation.obstacles.join(', ')}\n`;
-      }
+
+    logWithContext('INFO', 'Chat memory summarized', requestId, { userId, foldedTurns: folded.length });
+
+  } catch (error) {
+    // The turns stay in the recent window and are summarized on a later message
+    logWithContext('WARN', 'Failed to update chat memory', requestId, {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// A new conversation means the earlier ones are over; learn what they revealed
+async function extractEarlierConversationMemories(
+  supabase: SupabaseClient,
+  userId: string,
+  currentCallId: string,
+  llm: LlmProvider,
+  requestId: string
+): Promise<void> {
+  try {
+    const { data: calls, error } = await supabase
+      .from('calls')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('channel', 'in_app')
+      .neq('id', currentCallId)
+      .is('memories_extracted_at', null)
+      .order('started_at', { ascending: false })
+      .limit(MAX_MEMORY_EXTRACTIONS);
+
+    if (error) {
+      throw new Error(error.message);
     }
-    
-    formattedData += '\n';
-  });
 
-  logWithContext('INFO', 'User goals formatted for prompt', requestId, { 
-    formattedDataLength: formattedData.length
-  });
+    for (const call of calls || []) {
+      const stored = await extractMemoriesFromCall(supabase, call.id, llm);
+      logWithContext('INFO', 'Memories extracted from earlier conversation', requestId, { callId: call.id, stored });
+    }
 
-  return formattedData;
+  } catch (error) {
+    // Unprocessed conversations are picked up again when the next one starts
+    logWithContext('WARN', 'Failed to extract memories from earlier conversations', requestId, {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
 }
 
-// Generate AI response using OpenAI
+// Generate AI response with the configured LLM provider. The message is classified first,
+// with OpenAI moderation when a key is set; a crisis disclosure gets the safe response
+// instead, and is recorded for review.
 async function generateAIResponse(
   userMessage: string,
   userGoalsData: string,
-  openaiApiKey: string,
+  memory: ChatMemory,
+  facts: string,
+  toolContext: ToolContext,
+  callId: string,
+  callInCrisis: boolean,
+  streamHandlers: StreamHandlers | null,
+  llm: LlmProvider,
+  openaiApiKey: string | null,
   requestId: string
-): Promise<string> {
-  logWithContext('INFO', 'Generating AI response with OpenAI', requestId, {
+): Promise<AIReply> {
+  logWithContext('INFO', 'Generating AI response', requestId, {
+    llmProvider: llm.name,
     userMessageLength: userMessage.length,
-    userGoalsDataLength: userGoalsData.length
+    userGoalsDataLength: userGoalsData.length,
+    recentTurns: memory.recentTurns.length
   });
 
   try {
-    const systemPrompt = `You are the user's future self, speaking to them from several years in the future. You have achieved the goals they're currently working on. Your role is to provide guidance, motivation, and wisdom based on your "experience" of having gone through what they're facing now.
+    const assessment = await classifyUtterance(userMessage, openaiApiKey);
 
-Speak in first person, as if you are truly their future self. Be warm, encouraging, and authentic. Draw on the specific goals, motivations, and obstacles they've shared to make your responses personal and relevant.
+    if (assessment.flagged) {
+      logWithContext('WARN', 'Message flagged by safety check, sending safe response', requestId, {
+        category: assessment.category,
+        detectedBy: assessment.detectedBy,
+        callId
+      });
 
-Keep your responses concise (1-3 paragraphs) but impactful. Focus on being supportive while also gently challenging them to overcome obstacles and stay committed to their goals.`;
+      try {
+        await recordSafetyEvent(toolContext.supabase, {
+          userId: toolContext.userId,
+          callId,
+          channel: 'in_app',
+          utterance: userMessage,
+          assessment
+        });
+      } catch (error) {
+        logWithContext('ERROR', 'Failed to record safety event', requestId, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
 
-    const userPrompt = `Here's what I'm currently working on:\n\n${userGoalsData}\n\nI just said: "${userMessage}"`;
+      streamHandlers?.onText(SAFE_RESPONSE);
+      return { message: SAFE_RESPONSE, actions: [] };
+    }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: 300,
-        temperature: 0.7
-      })
-    });
+    // Once the safe response has been given, the future self stops pushing goals and acting on
+    // them. The flag on the call keeps this going after summaries fold the safe response away.
+    const inCrisis = callInCrisis || hasGivenSafeResponse(memory.recentTurns);
+
+    const systemPrompt = `You are the user's future self, speaking to them from several years in the future. You have achieved the goals they're currently working on. Your role is to provide guidance, motivation, and wisdom based on your "experience" of having gone through what they're facing now.
+
+Speak in first person, as if you are truly their future self. Be warm, encouraging, and authentic. Draw on the specific goals, motivations, and obstacles they've shared to make your responses personal and relevant.
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      logWithContext('ERROR', 'OpenAI API error', requestId, {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
+Keep your responses concise (1-3 paragraphs) but impactful. Focus on being supportive while also gently challenging them to overcome obstacles and stay committed to their goals.
+
+You talk with them regularly. When it fits, follow up on things they told you in earlier conversations. When they clearly ask for a change to their goals or schedule, or tell you about progress, use your tools to make it happen and then tell them what you did.${inCrisis ? '\n\nEarlier they shared that they may be in crisis. Stay calm and supportive, do not bring up their goals, deadlines or progress, and gently remind them that they can call or text 988, or their local emergency number or helpline, at any time.' : ''}
+
+${USER_DATA_RULES}`;
+
+    const summary = memory.summary
+      ? `\n\nWhat you remember from our earlier conversations:\n${formatUserDataBlock('summary', sanitizePromptText(memory.summary, { maxLength: 2000, multiline: true }))}`
+      : '';
+    const userDataPrompt = `Here's what I'm currently working on:\n\n${userGoalsData}${summary}${facts ? `\n\n${facts}` : ''}`;
+
+    // What the user said goes in user turns of its own, after the data, never quoted into it
+    const messages: object[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userDataPrompt },
+      ...memory.recentTurns.map(turn => turn.role === 'action'
+        ? actionTurnMessage(turn.content)
+        : { role: turn.role, content: turn.role === 'user' ? sanitizeUtterance(turn.content) : turn.content }),
+      { role: 'user', content: sanitizeUtterance(userMessage) }
+    ];
+    const tools = buildToolDefinitions(toolContext.goals);
+    const actions: string[] = [];
+
+    for (let round = 0; ; round++) {
+      // The last round leaves the tools out so the future self has to answer
+      const offerTools = !inCrisis && round < MAX_TOOL_ROUNDS;
+
+      const completion = await llm.complete({
+        messages,
+        tools: offerTools ? tools : null,
+        onText: streamHandlers?.onText,
+        maxTokens: 300,
+        temperature: 0.7
       });
-      throw new Error(`OpenAI API error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
 
-    const completion = await response.json();
-    
-    if (!completion.choices || completion.choices.length === 0) {
-      throw new Error('No completion choices returned from OpenAI');
-    }
+      if (offerTools && completion.toolCalls.length > 0) {
+        const toolResults = await runToolCalls(toolContext, completion.toolCalls);
+        messages.push(toAssistantMessage(completion), ...toolResults.messages);
+        actions.push(...toolResults.actions);
+        toolResults.actions.forEach(action => streamHandlers?.onAction(action));
+
+        logWithContext('INFO', 'Tool calls handled', requestId, {
+          round,
+          tools: completion.toolCalls.map(toolCall => toolCall.function.name),
+          actions: toolResults.actions
+        });
+        if (toolResults.errors.length > 0) {
+          logWithContext('WARN', 'Tool calls failed', requestId, { errors: toolResults.errors });
+        }
+        continue;
+      }
 
-    const aiMessage = completion.choices[0].message?.content?.trim();
-    
-    if (!aiMessage) {
-      throw new Error('Empty message returned from OpenAI');
-    }
+      const aiMessage = completion.content?.trim();
+      
+      if (!aiMessage) {
+        throw new Error(`Empty message returned from ${llm.name}`);
+      }
 
-    logWithContext('INFO', 'AI response generated successfully', requestId, {
-      aiMessageLength: aiMessage.length,
-      tokensUsed: completion.usage?.total_tokens || 0
-    });
+      logWithContext('INFO', 'AI response generated successfully', requestId, {
+        aiMessageLength: aiMessage.length,
+        actionsCount: actions.length,
+        tokensUsed: completion.tokensUsed
+      });
 
-    return aiMessage;
+      return { message: aiMessage, actions };
+    }
 
   } catch (error) {
     logWithContext('ERROR', 'Error generating AI response', requestId, {
@@ -399,70 +657,307 @@ Keep your responses concise (1-3 paragraphs) but impactful. Focus on being suppo
   }
 }
 
-// Convert text to speech using ElevenLabs
+// Convert text to speech with the TTS provider chain. Returns null when no provider could
+// render it, so the reply is still sent and the app can read it out itself.
 async function textToSpeech(
   text: string,
   voiceId: string,
-  elevenLabsApiKey: string,
+  ttsProviders: TtsProvider[],
   requestId: string
-): Promise<string> {
-  logWithContext('INFO', 'Converting text to speech with ElevenLabs', requestId, {
+): Promise<string | null> {
+  logWithContext('INFO', 'Converting text to speech', requestId, {
     textLength: text.length,
-    voiceId
+    voiceId,
+    providers: ttsProviders.map(provider => provider.name)
   });
 
-  try {
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': elevenLabsApiKey
-      },
-      body: JSON.stringify({
-        text,
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.75
-        }
-      })
-    });
+  const rendered = await synthesizeWithFailover(ttsProviders, text, voiceId, (provider, error) => {
+    logWithContext('WARN', 'TTS provider failed, failing over', requestId, { provider: provider.name, error: error.message });
+  });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logWithContext('ERROR', 'ElevenLabs API error', requestId, {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorText
-      });
-      throw new Error(`ElevenLabs API error (${response.status}): ${errorText}`);
+  if (!rendered) {
+    logWithContext('WARN', 'No TTS provider could render speech, sending the reply as text only', requestId, { voiceId });
+    return null;
+  }
+
+  // Convert to base64
+  const audioBytes = new Uint8Array(await rendered.audio.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < audioBytes.length; i++) {
+    binary += String.fromCharCode(audioBytes[i]);
+  }
+  const base64Audio = `data:audio/mpeg;base64,${btoa(binary)}`;
+
+  logWithContext('INFO', 'Text-to-speech conversion successful', requestId, {
+    provider: rendered.provider.name,
+    base64AudioLength: base64Audio.length
+  });
+
+  return base64Audio;
+}
+
+// Resume the conversation's call log entry, or start a new one for the first message
+async function startOrResumeInAppCall(
+  supabase: SupabaseClient,
+  userId: string,
+  callId: string | undefined,
+  requestId: string
+): Promise<InAppCall> {
+  if (callId) {
+    const { data: call, error } = await supabase
+      .from('calls')
+      .select('id, started_at, safety_flagged_at, call_turns(count)')
+      .eq('id', callId)
+      .eq('user_id', userId)
+      .eq('channel', 'in_app')
+      .maybeSingle();
+
+    if (error) {
+      logWithContext('ERROR', 'Error loading in-app call', requestId, { error: error.message, callId });
+      throw new Error(`Failed to load conversation: ${error.message}`);
     }
 
-    // Convert response to base64
-    const audioBuffer = await response.arrayBuffer();
-    const audioBytes = new Uint8Array(audioBuffer);
-    
-    // Convert to base64
-    let binary = '';
-    for (let i = 0; i < audioBytes.length; i++) {
-      binary += String.fromCharCode(audioBytes[i]);
+    if (!call) {
+      throw new Error('Conversation not found');
     }
-    const base64String = btoa(binary);
-    const base64Audio = `data:audio/mpeg;base64,${base64String}`;
 
-    logWithContext('INFO', 'Text-to-speech conversion successful', requestId, {
-      base64AudioLength: base64Audio.length
-    });
+    return {
+      id: call.id,
+      startedAt: call.started_at,
+      turnCount: call.call_turns?.[0]?.count || 0,
+      inCrisis: !!call.safety_flagged_at
+    };
+  }
 
-    return base64Audio;
+  const { data: call, error } = await supabase
+    .from('calls')
+    .insert({
+      user_id: userId,
+      channel: 'in_app',
+      direction: 'outbound'
+    })
+    .select('id, started_at')
+    .single();
+
+  if (error) {
+    logWithContext('ERROR', 'Error creating in-app call', requestId, { error: error.message, userId });
+    throw new Error(`Failed to start conversation: ${error.message}`);
+  }
 
-  } catch (error) {
-    logWithContext('ERROR', 'Error converting text to speech', requestId, {
-      error: error instanceof Error ? error.message : String(error)
+  logWithContext('INFO', 'In-app call log created', requestId, { callId: call.id });
+  return { id: call.id, startedAt: call.started_at, turnCount: 0, inCrisis: false };
+}
+
+// Copy the spoken reply into the call-audio bucket so the call log can play it back
+async function archiveTurnAudio(
+  supabase: SupabaseClient,
+  callId: string,
+  turnIndex: number,
+  base64Audio: string,
+  requestId: string
+): Promise<string | null> {
+  const audioPath = `${callId}/${turnIndex}.mp3`;
+  const audioBytes = Uint8Array.from(atob(base64Audio.split(',')[1]), c => c.charCodeAt(0));
+
+  const { error } = await supabase.storage
+    .from('call-audio')
+    .upload(audioPath, new Blob([audioBytes], { type: 'audio/mpeg' }), {
+      contentType: 'audio/mpeg',
+      upsert: true
     });
-    throw error;
+
+  if (error) {
+    // Missing playback audio should not fail the conversation
+    logWithContext('WARN', 'Failed to archive turn audio', requestId, { audioPath, error: error.message });
+    return null;
+  }
+
+  return audioPath;
+}
+
+// Save the user's message, the actions taken and the reply to the call log and refresh its duration
+async function appendCallTurns(
+  supabase: SupabaseClient,
+  call: InAppCall,
+  userId: string,
+  userMessage: string,
+  aiReply: AIReply,
+  audioPath: string | null,
+  requestId: string
+): Promise<void> {
+  const replyIndex = call.turnCount + 1 + aiReply.actions.length;
+
+  const { error: insertError } = await supabase
+    .from('call_turns')
+    .insert([
+      { call_id: call.id, user_id: userId, turn_index: call.turnCount, role: 'user', content: userMessage },
+      ...aiReply.actions.map((action, index) => (
+        { call_id: call.id, user_id: userId, turn_index: call.turnCount + 1 + index, role: 'action', content: action }
+      )),
+      { call_id: call.id, user_id: userId, turn_index: replyIndex, role: 'assistant', content: aiReply.message, audio_path: audioPath }
+    ]);
+
+  if (insertError) {
+    logWithContext('ERROR', 'Error saving call turns', requestId, { error: insertError.message, callId: call.id });
+    throw new Error(`Failed to save conversation: ${insertError.message}`);
+  }
+
+  const endedAt = new Date();
+  const { error: updateError } = await supabase
+    .from('calls')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_seconds: Math.round((endedAt.getTime() - new Date(call.startedAt).getTime()) / 1000)
+    })
+    .eq('id', call.id);
+
+  if (updateError) {
+    logWithContext('WARN', 'Failed to update call duration', requestId, { callId: call.id, error: updateError.message });
+  }
+
+  logWithContext('INFO', 'Call turns saved', requestId, { callId: call.id, turnIndex: call.turnCount });
+}
+
+// Answer one message: transcribe it, generate and speak the reply and save the exchange.
+// Stream handlers are told about the transcript, reply text and actions as they happen.
+async function respondToMessage(
+  supabase: SupabaseClient,
+  requestBody: RequestBody,
+  llm: LlmProvider,
+  openaiApiKey: string | null,
+  ttsProviders: TtsProvider[],
+  sttProvider: SttProvider,
+  streamHandlers: StreamHandlers | null,
+  requestId: string
+): Promise<VoiceChatReply> {
+  // Get user data (voice preference and goals)
+  const { voicePreference, userGoals } = await getUserData(supabase, requestBody.userId, requestId);
+
+  // Every exchange is written to the call log
+  const call = await startOrResumeInAppCall(supabase, requestBody.userId, requestBody.callId, requestId);
+
+  // Typed messages skip transcription
+  let userMessage: string;
+  if (requestBody.messageText?.trim()) {
+    userMessage = requestBody.messageText.trim();
+    logWithContext('INFO', 'Using provided message text', requestId, { userMessage });
+  } else {
+    const transcript = await transcribeAudio(requestBody.audioData as string, sttProvider, requestId);
+    userMessage = transcript.text;
+
+    // Replying to a garbled transcript only confuses the conversation, so ask for it again.
+    // Nothing is saved to the call log.
+    if (isUnclearTranscript(transcript)) {
+      logWithContext('INFO', 'Transcript not confident enough, asking the user to repeat', requestId, {
+        confidence: transcript.confidence,
+        textLength: userMessage.length
+      });
+
+      streamHandlers?.onText(REPEAT_PROMPT);
+      const wantsSpeech = requestBody.speakReply !== false;
+      const audioResponse = wantsSpeech ? await textToSpeech(REPEAT_PROMPT, voicePreference, ttsProviders, requestId) : null;
+
+      return {
+        audioResponse,
+        speechFallback: wantsSpeech && !audioResponse,
+        textResponse: REPEAT_PROMPT,
+        userText: userMessage,
+        callId: call.id,
+        actions: [],
+        needsRepeat: true
+      };
+    }
   }
+
+  streamHandlers?.onTranscript(userMessage, call.id);
+
+  // Format user goals for AI prompt
+  const userGoalsData = formatUserGoalsForPrompt(userGoals, requestId);
+
+  if (!requestBody.callId) {
+    await extractEarlierConversationMemories(supabase, requestBody.userId, call.id, llm, requestId);
+  }
+
+  // Load earlier conversations before this exchange is saved
+  const memory = await loadChatMemory(supabase, requestBody.userId, requestId);
+  const facts = formatMemoriesForPrompt(await retrieveRelevantMemories(supabase, requestBody.userId, userMessage));
+
+  // Generate AI response, letting the future self act on what was said
+  const toolContext: ToolContext = {
+    supabase,
+    userId: requestBody.userId,
+    channel: 'in_app',
+    goals: userGoals.map(goal => ({ id: goal.id, title: goal.title }))
+  };
+  const aiReply = await generateAIResponse(userMessage, userGoalsData, memory, facts, toolContext, call.id, call.inCrisis, streamHandlers, llm, openaiApiKey, requestId);
+  const aiResponse = aiReply.message;
+  logWithContext('INFO', 'AI response generated successfully', requestId, { aiResponse, actions: aiReply.actions });
+
+  // Convert AI response to speech
+  const wantsSpeech = requestBody.speakReply !== false;
+  const audioResponse = wantsSpeech ? await textToSpeech(aiResponse, voicePreference, ttsProviders, requestId) : null;
+
+  // Save this exchange to the call log
+  const audioPath = audioResponse
+    ? await archiveTurnAudio(supabase, call.id, call.turnCount + 1 + aiReply.actions.length, audioResponse, requestId)
+    : null;
+  await appendCallTurns(supabase, call, requestBody.userId, userMessage, aiReply, audioPath, requestId);
+  await compactChatMemory(supabase, requestBody.userId, llm, requestId);
+
+  return {
+    audioResponse,
+    speechFallback: wantsSpeech && !audioResponse,
+    textResponse: aiResponse,
+    userText: userMessage,
+    callId: call.id,
+    actions: aiReply.actions,
+    needsRepeat: false
+  };
+}
+
+// Reply with server-sent events: `transcript` once the message is understood, `delta` for
+// each piece of reply text, `action` for each action taken, then `done` with the same fields
+// as the JSON response, or `error`
+function streamVoiceChat(
+  supabase: SupabaseClient,
+  requestBody: RequestBody,
+  llm: LlmProvider,
+  openaiApiKey: string | null,
+  ttsProviders: TtsProvider[],
+  sttProvider: SttProvider,
+  requestId: string
+): Response {
+  const stream = createEventStream(corsHeaders);
+
+  const handlers: StreamHandlers = {
+    onTranscript: (userText, callId) => stream.send('transcript', { userText, callId }),
+    onText: (text) => stream.send('delta', { text }),
+    onAction: (action) => stream.send('action', { action })
+  };
+
+  respondToMessage(supabase, requestBody, llm, openaiApiKey, ttsProviders, sttProvider, handlers, requestId)
+    .then(reply => {
+      stream.send('done', {
+        success: true,
+        ...reply,
+        timestamp: new Date().toISOString(),
+        requestId
+      });
+    })
+    .catch(error => {
+      logWithContext('ERROR', 'Error in streamed voice chat', requestId, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      stream.send('error', {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred during voice chat processing',
+        timestamp: new Date().toISOString(),
+        requestId
+      });
+    })
+    .finally(() => stream.close());
+
+  return stream.response;
 }
 
 serve(async (req) => {
@@ -482,7 +977,7 @@ serve(async (req) => {
 
   try {
     // Validate environment variables
-    const { supabaseUrl, supabaseServiceKey, openaiApiKey, elevenLabsApiKey } = validateEnvironment(requestId);
+    const { supabaseUrl, supabaseServiceKey, openaiApiKey, llm, ttsProviders, sttProvider } = validateEnvironment(requestId);
 
     // Extract user ID from JWT
     const authHeader = req.headers.get('authorization');
@@ -491,8 +986,12 @@ serve(async (req) => {
     // Parse request body
     const requestBody: RequestBody = await req.json();
     
-    if (!requestBody.audioData || !requestBody.userId) {
-      return createErrorResponse('Missing required fields: audioData and userId', requestId, 400);
+    if (!requestBody.userId || (!requestBody.audioData && !requestBody.messageText?.trim())) {
+      return createErrorResponse('Missing required fields: userId and either audioData or messageText', requestId, 400);
+    }
+
+    if (requestBody.messageText && requestBody.messageText.length > MAX_MESSAGE_TEXT_LENGTH) {
+      return createErrorResponse(`Message is too long (max ${MAX_MESSAGE_TEXT_LENGTH} characters)`, requestId, 400);
     }
 
     // Verify the requesting user matches the user_id in the request
@@ -506,40 +1005,23 @@ serve(async (req) => {
 
     logWithContext('INFO', 'Processing voice chat request', requestId, {
       userId: requestBody.userId,
-      audioDataLength: requestBody.audioData.length,
-      hasMessageText: !!requestBody.messageText
+      audioDataLength: requestBody.audioData?.length || 0,
+      hasMessageText: !!requestBody.messageText,
+      speakReply: requestBody.speakReply !== false
     });
 
     // Create Supabase admin client
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
     logWithContext('INFO', 'Supabase admin client created successfully', requestId);
 
-    // Get user data (voice preference and goals)
-    const { voicePreference, userGoals } = await getUserData(supabase, requestBody.userId, requestId);
-
-    // Transcribe audio if messageText not provided
-    let userMessage: string;
-    if (requestBody.messageText) {
-      userMessage = requestBody.messageText;
-      logWithContext('INFO', 'Using provided message text', requestId, { userMessage });
-    } else {
-      userMessage = await transcribeAudio(requestBody.audioData, openaiApiKey, requestId);
-      logWithContext('INFO', 'Audio transcribed successfully', requestId, { userMessage });
+    if (requestBody.stream) {
+      return streamVoiceChat(supabase, requestBody, llm, openaiApiKey, ttsProviders, sttProvider, requestId);
     }
 
-    // Format user goals for AI prompt
-    const userGoalsData = formatUserGoalsForPrompt(userGoals, requestId);
-
-    // Generate AI response
-    const aiResponse = await generateAIResponse(userMessage, userGoalsData, openaiApiKey, requestId);
-    logWithContext('INFO', 'AI response generated successfully', requestId, { aiResponse });
-
-    // Convert AI response to speech
-    const audioResponse = await textToSpeech(aiResponse, voicePreference, elevenLabsApiKey, requestId);
-    logWithContext('INFO', 'Text-to-speech conversion successful', requestId, { audioResponseLength: audioResponse.length });
+    const reply = await respondToMessage(supabase, requestBody, llm, openaiApiKey, ttsProviders, sttProvider, null, requestId);
 
     // Return success response
-    return createSuccessResponse(audioResponse, aiResponse, userMessage, requestId);
+    return createSuccessResponse(reply, requestId);
 
   } catch (error) {
     logWithContext('ERROR', 'Unexpected error in in-app-voice-chat', requestId, {
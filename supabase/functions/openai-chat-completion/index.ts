@@ -1,5 +1,25 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatMemoriesForPrompt, retrieveRelevantMemories } from '../_shared/user-memories.ts'
+import {
+  actionTurnMessage,
+  buildToolDefinitions,
+  MAX_TOOL_ROUNDS,
+  runToolCalls,
+  type ToolChannel,
+  type ToolContext
+} from '../_shared/future-self-tools.ts'
+import { createEventStream, SentenceBuffer } from '../_shared/openai-stream.ts'
+import { formatGoalsForPrompt, formatUserDataBlock, sanitizeUtterance, USER_DATA_RULES } from '../_shared/prompt-assembly.ts'
+import { llmProviderFromEnv, toAssistantMessage, type LlmProvider } from '../_shared/llm-provider.ts'
+import { constantTimeEquals } from '../_shared/twilio-request.ts'
+import {
+  classifyUtterance,
+  hasGivenSafeResponse,
+  isCallInCrisis,
+  recordSafetyEvent,
+  SAFE_RESPONSE
+} from '../_shared/safety.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,11 +38,54 @@ interface UserGoalData {
   obstacles: string[] | null;
 }
 
+interface ConversationTurn {
+  role: 'user' | 'assistant' | 'action';
+  content: string;
+}
+
 interface ChatCompletionRequest {
   user_id: string;
   context?: string;
+  history?: ConversationTurn[]; // Earlier turns of the same conversation, oldest first
+  channel?: ToolChannel; // Live conversation the reply is for; lets the future self take actions
+  stream?: boolean; // Reply with server-sent events while the completion is generated
+  call_id?: string; // Call the reply is for (internal requests only), linked to any safety event it raises
+}
+
+interface ChatCompletionResult {
+  message: string;
+  actions: string[]; // Summary of each action taken, for the call transcript
+  safetyFlagged: boolean; // The user's last turn was answered with the safe response
+}
+
+// Where a flagged utterance came from, for the safety_events record
+interface SafetyContext {
+  supabase: SupabaseClient;
+  userId: string;
+  callId: string | null;
+  channel: string | null;
+  openaiApiKey: string | null; // For the moderation check; without it only the built-in phrases are matched
+  inCrisis: boolean; // The conversation was flagged earlier, so the future self stays supportive
+}
+
+// Callbacks for streaming mode, called as the reply is generated
+interface StreamHandlers {
+  onText: (text: string) => void;
+  onAction: (action: string) => void;
 }
 
+// Maximum number of earlier turns sent to OpenAI to keep the prompt bounded
+const MAX_HISTORY_TURNS = 20;
+
+// Added to the system prompt for the rest of a conversation once the safe response was given
+const SAFETY_FOLLOW_UP_PROMPT = 'earlier in this conversation i shared that i may be in crisis. stay calm and supportive, do not bring up my goals, deadlines or progress, and gently remind me that i can call or text 988, or my local emergency number or helpline, any time.';
+
+// Instructions for a request without a context
+const DEFAULT_CONTEXT = 'This is a test call to verify the system is working properly.';
+
+// Instructions when a client described the conversation; its description is only data
+const CLIENT_CONTEXT_INSTRUCTIONS = 'i described what this conversation is about in the <user_data kind="context"> block of my first message. use it as background.';
+
 interface ErrorResponse {
   success: false;
   error: string;
@@ -36,6 +99,8 @@ interface SuccessResponse {
   timestamp: string;
   requestId: string;
   user_id: string;
+  actions: string[];
+  safety_flagged: boolean;
 }
 
 // Generate unique request ID for tracking
@@ -79,19 +144,21 @@ function createErrorResponse(
 
 // Create standardized success response
 function createSuccessResponse(
-  message: string,
+  result: ChatCompletionResult,
   requestId: string,
   userId: string
 ): Response {
   const successResponse: SuccessResponse = {
     success: true,
-    message,
+    message: result.message,
     timestamp: new Date().toISOString(),
     requestId,
-    user_id: userId
+    user_id: userId,
+    actions: result.actions,
+    safety_flagged: result.safetyFlagged
   };
 
-  logWithContext('INFO', `Success response created`, requestId, { messageLength: message.length });
+  logWithContext('INFO', `Success response created`, requestId, { messageLength: result.message.length, actionsCount: result.actions.length });
 
   return new Response(JSON.stringify(successResponse), {
     headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -100,24 +167,25 @@ function createSuccessResponse(
 }
 
 // Validate environment variables
-function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string; openaiApiKey: string } {
+function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string; llm: LlmProvider; openaiApiKey: string | null } {
   logWithContext('INFO', 'Validating environment variables', requestId);
   
   const supabaseUrl = Deno.env.get('SUPABASE_URL');
   const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
   
   const missing = [];
   if (!supabaseUrl) missing.push('SUPABASE_URL');
   if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
-  if (!openaiApiKey) missing.push('OPENAI_API_KEY');
   
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+
+  // The LLM provider checks its own settings (LLM_PROVIDER and its keys)
+  const llm = llmProviderFromEnv();
   
-  logWithContext('INFO', 'Environment variables validated successfully', requestId);
-  return { supabaseUrl, supabaseServiceKey, openaiApiKey };
+  logWithContext('INFO', 'Environment variables validated successfully', requestId, { llmProvider: llm.name });
+  return { supabaseUrl, supabaseServiceKey, llm, openaiApiKey: Deno.env.get('OPENAI_API_KEY') || null };
 }
 
 // Extract user ID from Clerk JWT
@@ -143,6 +211,36 @@ function extractUserIdFromJWT(authHeader: string | null, requestId: string): str
   }
 }
 
+// Keep only well-formed turns, capped to the most recent ones. Assistant and action turns are
+// only accepted from other Edge Functions, which load them from call_turns; a client could
+// otherwise put words in the future self's mouth or claim actions it never took.
+function sanitizeHistory(history: unknown, isInternalRequest: boolean, requestId: string): ConversationTurn[] {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  const acceptedRoles = isInternalRequest ? ['user', 'assistant', 'action'] : ['user'];
+  const turns = history.filter((turn): turn is ConversationTurn =>
+    !!turn &&
+    acceptedRoles.includes(turn.role) &&
+    typeof turn.content === 'string' &&
+    turn.content.trim().length > 0
+  );
+
+  if (turns.length !== history.length) {
+    logWithContext('WARN', 'Dropped malformed or untrusted conversation turns', requestId, {
+      received: history.length,
+      kept: turns.length,
+      isInternalRequest
+    });
+  }
+
+  // What the user said reaches the model as a user turn, with control content removed
+  return turns
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => turn.role === 'user' ? { role: turn.role, content: sanitizeUtterance(turn.content) } : turn);
+}
+
 // Fetch user's goals, motivations, and obstacles from database
 async function fetchUserGoalData(
   supabase: any,
@@ -210,34 +308,18 @@ async function fetchUserGoalData(
   }
 }
 
-// Format user data for OpenAI prompt
+// Format user data for OpenAI prompt, as a <user_data> block of sanitized goals
 function formatUserDataForPrompt(goalData: UserGoalData[], requestId: string): string {
   logWithContext('INFO', 'Formatting user data for OpenAI prompt', requestId, { goalsCount: goalData.length });
 
-  if (goalData.length === 0) {
-    return "The user hasn't set up any goals yet, but they're just getting started on their journey.";
-  }
-
-  let formattedData = `Here are the user's current goals and progress:\n\n`;
-
-  goalData.forEach((goal, index) => {
-    formattedData += `Goal ${index + 1}: ${goal.title}\n`;
-    formattedData += `Category: ${goal.category_name}\n`;
-    
-    if (goal.deadline) {
-      formattedData += `Deadline: ${goal.deadline}\n`;
-    }
-    
-    if (goal.motivation_text) {
-      formattedData += `Motivation: ${goal.motivation_text}\n`;
-    }
-    
-    if (goal.obstacles && goal.obstacles.length > 0) {
-      formattedData += `Obstacles: ${goal.obstacles.join(', ')}\n`;
-    }
-    
-    formattedData += '\n';
-  });
+  const formattedData = formatGoalsForPrompt(goalData.map(goal => ({
+    title: goal.title,
+    category: goal.category_name,
+    deadline: goal.deadline,
+    frequency: null,
+    motivation: goal.motivation_text,
+    obstacles: goal.obstacles || []
+  })));
 
   logWithContext('INFO', 'User data formatted for prompt', requestId, { 
     formattedDataLength: formattedData.length,
@@ -247,79 +329,195 @@ function formatUserDataForPrompt(goalData: UserGoalData[], requestId: string): s
   return formattedData;
 }
 
-// Generate OpenAI chat completion
+// Generate the chat completion with the configured LLM provider. With a tool context the
+// future self can take actions first; each round's tool calls are run and their results sent
+// back before it answers. With stream handlers the completion is streamed and text is passed
+// on as it arrives. The user's last turn is classified first; a crisis disclosure gets the
+// safe response instead.
 async function generateChatCompletion(
   userData: string,
   context: string,
-  openaiApiKey: string,
+  clientContext: string | null,
+  history: ConversationTurn[],
+  memories: string,
+  toolContext: ToolContext | null,
+  safetyContext: SafetyContext,
+  streamHandlers: StreamHandlers | null,
+  llm: LlmProvider,
   requestId: string
-): Promise<string> {
-  logWithContext('INFO', 'Generating OpenAI chat completion', requestId, { 
+): Promise<ChatCompletionResult> {
+  logWithContext('INFO', 'Generating chat completion', requestId, { 
+    llmProvider: llm.name,
     userDataLength: userData.length,
-    context 
+    historyTurns: history.length,
+    memoriesLength: memories.length,
+    toolsEnabled: !!toolContext,
+    streaming: !!streamHandlers,
+    context,
+    hasClientContext: !!clientContext
   });
 
   try {
-    const systemPrompt = `you are conversational agent designed to be my future self. i am giving you my goals, motivations, deadlines, and obstacles. your task is to motivate me and keep me accountable to these goals.`;
-
-    const userPrompt = `Here's what I'm currently working on:\n\n${userData}`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: 200,
-        temperature: 0.7,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      logWithContext('ERROR', 'OpenAI API error', requestId, {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
-      });
-      throw new Error(`OpenAI API error (${response.status}): ${errorData.error?.message || response.statusText}`);
+    const lastTurn = history[history.length - 1];
+    if (lastTurn?.role === 'user') {
+      const assessment = await classifyUtterance(lastTurn.content, safetyContext.openaiApiKey);
+
+      if (assessment.flagged) {
+        logWithContext('WARN', 'User turn flagged by safety check, sending safe response', requestId, {
+          category: assessment.category,
+          detectedBy: assessment.detectedBy,
+          callId: safetyContext.callId
+        });
+
+        try {
+          await recordSafetyEvent(safetyContext.supabase, {
+            userId: safetyContext.userId,
+            callId: safetyContext.callId,
+            channel: safetyContext.channel,
+            utterance: lastTurn.content,
+            assessment
+          });
+        } catch (error) {
+          logWithContext('ERROR', 'Failed to record safety event', requestId, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+
+        streamHandlers?.onText(SAFE_RESPONSE);
+        return { message: SAFE_RESPONSE, actions: [], safetyFlagged: true };
+      }
     }
 
-    const completion = await response.json();
-    
-    if (!completion.choices || completion.choices.length === 0) {
-      throw new Error('No completion choices returned from OpenAI');
-    }
+    const systemPrompt = `you are conversational agent designed to be my future self. i am giving you my goals, motivations, deadlines, and obstacles. your task is to motivate me and keep me accountable to these goals.${toolContext ? ' when i clearly ask for a change or report progress, use your tools to make it happen and then tell me what you did.' : ''}${safetyContext.inCrisis ? ` ${SAFETY_FOLLOW_UP_PROMPT}` : ''}
 
-    const message = completion.choices[0].message?.content?.trim();
-    
-    if (!message) {
-      throw new Error('Empty message returned from OpenAI');
-    }
+${context}
 
-    logWithContext('INFO', 'OpenAI chat completion generated successfully', requestId, {
-      messageLength: message.length,
-      tokensUsed: completion.usage?.total_tokens || 0
-    });
+${USER_DATA_RULES}`;
+
+    const userPrompt = `Here's what I'm currently working on:\n\n${userData}${memories ? `\n\n${memories}` : ''}` +
+      (clientContext ? `\n\nWhat this conversation is about:\n\n${formatUserDataBlock('context', clientContext)}` : '');
+
+    const messages: object[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+      ...history.map(turn => turn.role === 'action' ? actionTurnMessage(turn.content) : turn)
+    ];
+    const tools = toolContext ? buildToolDefinitions(toolContext.goals) : null;
+    const actions: string[] = [];
 
-    return message;
+    for (let round = 0; ; round++) {
+      // The last round leaves the tools out so the future self has to answer
+      const offerTools = !!tools && round < MAX_TOOL_ROUNDS;
+
+      const completion = await llm.complete({
+        messages,
+        tools: offerTools ? tools : null,
+        onText: streamHandlers?.onText,
+        maxTokens: 200,
+        temperature: 0.7,
+        presencePenalty: 0.1,
+        frequencyPenalty: 0.1
+      });
+
+      if (offerTools && completion.toolCalls.length > 0) {
+        const toolResults = await runToolCalls(toolContext!, completion.toolCalls);
+        messages.push(toAssistantMessage(completion), ...toolResults.messages);
+        actions.push(...toolResults.actions);
+        toolResults.actions.forEach(action => streamHandlers?.onAction(action));
+
+        logWithContext('INFO', 'Tool calls handled', requestId, {
+          round,
+          tools: completion.toolCalls.map(toolCall => toolCall.function.name),
+          actions: toolResults.actions
+        });
+        if (toolResults.errors.length > 0) {
+          logWithContext('WARN', 'Tool calls failed', requestId, { errors: toolResults.errors });
+        }
+        continue;
+      }
+
+      const message = completion.content?.trim();
+      
+      if (!message) {
+        throw new Error(`Empty message returned from ${llm.name}`);
+      }
+
+      logWithContext('INFO', 'Chat completion generated successfully', requestId, {
+        llmProvider: llm.name,
+        messageLength: message.length,
+        actionsCount: actions.length,
+        tokensUsed: completion.tokensUsed
+      });
+
+      return { message, actions, safetyFlagged: false };
+    }
 
   } catch (error) {
-    logWithContext('ERROR', 'Error generating OpenAI chat completion', requestId, {
+    logWithContext('ERROR', 'Error generating chat completion', requestId, {
       error: error instanceof Error ? error.message : String(error)
     });
     throw error;
   }
 }
 
+// Stream the reply as server-sent events: `delta` for each piece of text, `sentence` for each
+// complete sentence (for text-to-speech), `action` for each action taken, then `done` with the
+// same fields as the JSON response, or `error`
+function streamChatCompletion(
+  userData: string,
+  context: string,
+  clientContext: string | null,
+  history: ConversationTurn[],
+  memories: string,
+  toolContext: ToolContext | null,
+  safetyContext: SafetyContext,
+  llm: LlmProvider,
+  requestId: string,
+  userId: string
+): Response {
+  const stream = createEventStream(corsHeaders);
+  const sentences = new SentenceBuffer();
+
+  const handlers: StreamHandlers = {
+    onText: (text) => {
+      stream.send('delta', { text });
+      sentences.push(text).forEach(sentence => stream.send('sentence', { text: sentence }));
+    },
+    onAction: (action) => stream.send('action', { action })
+  };
+
+  generateChatCompletion(userData, context, clientContext, history, memories, toolContext, safetyContext, handlers, llm, requestId)
+    .then(result => {
+      const lastSentence = sentences.flush();
+      if (lastSentence) {
+        stream.send('sentence', { text: lastSentence });
+      }
+
+      stream.send('done', {
+        success: true,
+        message: result.message,
+        timestamp: new Date().toISOString(),
+        requestId,
+        user_id: userId,
+        actions: result.actions,
+        safety_flagged: result.safetyFlagged
+      });
+      logWithContext('INFO', 'Streamed response completed', requestId, { messageLength: result.message.length, actionsCount: result.actions.length });
+    })
+    .catch(error => {
+      stream.send('error', {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred while generating the chat completion',
+        timestamp: new Date().toISOString(),
+        requestId
+      });
+    })
+    .finally(() => stream.close());
+
+  logWithContext('INFO', 'Streaming chat completion', requestId, { userId });
+  return stream.response;
+}
+
 serve(async (req) => {
   const requestId = generateRequestId();
   
@@ -337,11 +535,11 @@ serve(async (req) => {
 
   try {
     // Validate environment variables
-    const { supabaseUrl, supabaseServiceKey, openaiApiKey } = validateEnvironment(requestId);
+    const { supabaseUrl, supabaseServiceKey, llm, openaiApiKey } = validateEnvironment(requestId);
 
-    // Extract user ID from JWT
+    // Other Edge Functions (e.g. twilio-call-handler) call in with the service role key on behalf of a user
     const authHeader = req.headers.get('authorization');
-    const userId = extractUserIdFromJWT(authHeader, requestId);
+    const isInternalRequest = constantTimeEquals(`Bearer ${supabaseServiceKey}`, authHeader || '');
 
     // Parse request body
     const requestBody: ChatCompletionRequest = await req.json();
@@ -350,6 +548,9 @@ serve(async (req) => {
       return createErrorResponse('Missing required field: user_id', requestId, 400);
     }
 
+    // Extract user ID from JWT unless the request comes from another Edge Function
+    const userId = isInternalRequest ? requestBody.user_id : extractUserIdFromJWT(authHeader, requestId);
+
     // Verify the requesting user matches the user_id in the request
     if (userId !== requestBody.user_id) {
       logWithContext('ERROR', 'User ID mismatch', requestId, { 
@@ -359,9 +560,14 @@ serve(async (req) => {
       return createErrorResponse('Unauthorized: User ID mismatch', requestId, 403);
     }
 
+    const history = sanitizeHistory(requestBody.history, isInternalRequest, requestId);
+
     logWithContext('INFO', 'Processing chat completion request', requestId, {
       userId: requestBody.user_id,
-      context: requestBody.context || 'test_call'
+      context: requestBody.context || 'test_call',
+      isInternalRequest,
+      historyTurns: history.length,
+      channel: requestBody.channel || null
     });
 
     // Create Supabase admin client
@@ -374,17 +580,76 @@ serve(async (req) => {
     // Format data for OpenAI prompt
     const formattedUserData = formatUserDataForPrompt(goalData, requestId);
 
+    // Contexts from other Edge Functions are trusted instructions. One sent by a client is
+    // sanitized and sent as data with the user's goals, never in the system prompt.
+    const clientContext = !isInternalRequest && requestBody.context ? sanitizeUtterance(requestBody.context) || null : null;
+    const context = isInternalRequest && requestBody.context
+      ? requestBody.context
+      : clientContext ? CLIENT_CONTEXT_INSTRUCTIONS : DEFAULT_CONTEXT;
+
+    // Recall what the user shared before that relates to this moment of the conversation
+    const recentUserSpeech = history.filter(turn => turn.role === 'user').slice(-3).map(turn => turn.content).join(' ');
+    const memories = await retrieveRelevantMemories(supabase, requestBody.user_id, `${clientContext || context} ${recentUserSpeech}`);
+
+    // The flag on the call outlasts the history sent with each request
+    const callId = isInternalRequest ? requestBody.call_id || null : null;
+    const inCrisis = hasGivenSafeResponse(history) || (callId ? await isCallInCrisis(supabase, callId) : false);
+
+    // Only the Edge Functions that run live conversations say which channel a reply is for;
+    // a client cannot claim one to get the tools or to pick where its progress is logged from
+    const channel = isInternalRequest ? requestBody.channel : undefined;
+
+    // Only live conversations may change the user's goals and schedule, and not once the
+    // conversation has turned to a crisis
+    const toolContext: ToolContext | null = (channel === 'phone' || channel === 'in_app') && !inCrisis
+      ? {
+        supabase,
+        userId: requestBody.user_id,
+        channel,
+        goals: goalData.map(goal => ({ id: goal.id, title: goal.title }))
+      }
+      : null;
+
+    const safetyContext: SafetyContext = {
+      supabase,
+      userId: requestBody.user_id,
+      callId,
+      channel: channel || null,
+      openaiApiKey,
+      inCrisis
+    };
+
+    if (requestBody.stream) {
+      return streamChatCompletion(
+        formattedUserData,
+        context,
+        clientContext,
+        history,
+        formatMemoriesForPrompt(memories),
+        toolContext,
+        safetyContext,
+        llm,
+        requestId,
+        requestBody.user_id
+      );
+    }
+
     // Generate chat completion
-    const context = requestBody.context || 'This is a test call to verify the system is working properly.';
-    const aiMessage = await generateChatCompletion(
+    const result = await generateChatCompletion(
       formattedUserData,
       context,
-      openaiApiKey,
+      clientContext,
+      history,
+      formatMemoriesForPrompt(memories),
+      toolContext,
+      safetyContext,
+      null,
+      llm,
       requestId
     );
 
     // Return success response
-    return createSuccessResponse(aiMessage, requestId, requestBody.user_id);
+    return createSuccessResponse(result, requestId, requestBody.user_id);
 
   } catch (error) {
     logWithContext('ERROR', 'Unexpected error in openai-chat-completion', requestId, {
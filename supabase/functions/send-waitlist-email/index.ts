@@ -0,0 +1,429 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createSmtpTransport, escapeHtml, smtpConfigFromEnv, type MailTransport } from '../_shared/mail-transport.ts'
+import { constantTimeEquals } from '../_shared/twilio-request.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Longest excerpt of the signup's goals quoted back in an email
+const GOALS_EXCERPT_LENGTH = 280;
+
+type WaitlistTemplate = 'welcome' | 'invitation' | 'launch';
+
+const WAITLIST_TEMPLATES: WaitlistTemplate[] = ['welcome', 'invitation', 'launch'];
+
+interface WaitlistEntry {
+  id: string;
+  email: string;
+  first_name: string | null;
+  goals: string | null;
+}
+
+interface TemplateData {
+  firstName: string | null;
+  goals: string | null;
+  appUrl: string | null;
+}
+
+// A template is written as plain-text paragraphs; the HTML and text parts are rendered from them
+interface EmailTemplate {
+  subject: (data: TemplateData) => string;
+  heading: (data: TemplateData) => string;
+  paragraphs: (data: TemplateData) => string[];
+  action?: (data: TemplateData) => { label: string; url: string } | null;
+}
+
+interface SendRequest {
+  email?: string;
+  emails?: string[];
+  template?: WaitlistTemplate;
+}
+
+type SendResult = 'sent' | 'duplicate' | 'failed';
+
+interface SendSummary {
+  sent: number;
+  duplicate: number;
+  failed: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+interface SuccessResponse {
+  success: true;
+  message: string;
+  summary: SendSummary;
+  timestamp: string;
+  requestId: string;
+}
+
+function greeting(data: TemplateData): string {
+  return data.firstName ? `Hi ${data.firstName},` : 'Hi there,';
+}
+
+function goalsExcerpt(goals: string): string {
+  const trimmed = goals.trim();
+  return trimmed.length > GOALS_EXCERPT_LENGTH ? `${trimmed.slice(0, GOALS_EXCERPT_LENGTH).trimEnd()}…` : trimmed;
+}
+
+const TEMPLATES: Record<WaitlistTemplate, EmailTemplate> = {
+  welcome: {
+    subject: () => "You're on the MyFutrSelf waitlist",
+    heading: data => data.firstName ? `Welcome, ${data.firstName}!` : 'Welcome!',
+    paragraphs: data => [
+      greeting(data),
+      "Thanks for joining the MyFutrSelf waitlist. We're building a way to hear from the person you're becoming, with check-in calls and texts from your future self to keep you on track.",
+      ...(data.goals
+        ? [`You told us what you're working toward: "${goalsExcerpt(data.goals)}". Your future self will be ready to help with exactly that.`]
+        : []),
+      "We'll email you as soon as your spot opens up."
+    ]
+  },
+  invitation: {
+    subject: data => data.firstName ? `${data.firstName}, your MyFutrSelf invitation is here` : 'Your MyFutrSelf invitation is here',
+    heading: () => "You're invited",
+    paragraphs: data => [
+      greeting(data),
+      "Your spot on the waitlist has opened up. You can now create your account and meet your future self.",
+      ...(data.goals
+        ? [`Start with the goals you shared with us: "${goalsExcerpt(data.goals)}".`]
+        : ['Setting up takes a few minutes: pick your goals, choose how you want to be reached, and your future self takes it from there.'])
+    ],
+    action: data => data.appUrl ? { label: 'Create your account', url: data.appUrl } : null
+  },
+  launch: {
+    subject: () => 'MyFutrSelf is live',
+    heading: () => 'MyFutrSelf is live',
+    paragraphs: data => [
+      greeting(data),
+      "MyFutrSelf is now open to everyone, and as one of the first on the waitlist you're among the first we wanted to tell.",
+      ...(data.goals
+        ? [`It's a good day to get started on "${goalsExcerpt(data.goals)}".`]
+        : []),
+      'Thank you for waiting with us.'
+    ],
+    action: data => data.appUrl ? { label: 'Get started', url: data.appUrl } : null
+  }
+};
+
+function renderText(template: EmailTemplate, data: TemplateData): string {
+  const action = template.action?.(data);
+  return [
+    ...template.paragraphs(data),
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    '— The MyFutrSelf team'
+  ].join('\n\n');
+}
+
+function renderHtml(template: EmailTemplate, data: TemplateData): string {
+  const action = template.action?.(data);
+  const paragraphs = template.paragraphs(data)
+    .map(paragraph => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(paragraph)}</p>`)
+    .join('\n      ');
+  const button = action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:8px;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+      <h1 style="font-size:22px;margin:0 0 16px;">${escapeHtml(template.heading(data))}</h1>
+      ${paragraphs}
+      ${button}
+      <p style="margin:24px 0 0;color:#6b7280;">— The MyFutrSelf team</p>
+    </div>
+  </body>
+</html>`;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Create standardized success response
+function createSuccessResponse(
+  message: string,
+  summary: SendSummary,
+  requestId: string
+): Response {
+  const successResponse: SuccessResponse = {
+    success: true,
+    message,
+    summary,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('INFO', `Success response created: ${message}`, requestId, { ...summary });
+
+  return new Response(JSON.stringify(successResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string; appUrl: string | null } {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId);
+  return { supabaseUrl, supabaseServiceKey, appUrl: Deno.env.get('APP_URL')?.replace(/\/+$/, '') || null };
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Load waitlist signups, either the given addresses or the whole list
+async function loadWaitlistEntries(
+  supabase: SupabaseClient,
+  emails: string[] | null
+): Promise<WaitlistEntry[]> {
+  let query = supabase
+    .from('waitlist')
+    .select('id, email, first_name, goals')
+    .order('created_at', { ascending: true });
+
+  if (emails) {
+    query = query.in('email', emails.map(normalizeEmail));
+  }
+
+  const { data: entries, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load waitlist: ${error.message}`);
+  }
+
+  return entries || [];
+}
+
+// Reserve the send in the log. Returns the log id, or null when this address already
+// received (or is receiving) the template; failed sends can be claimed again.
+async function claimSend(
+  supabase: SupabaseClient,
+  entry: WaitlistEntry,
+  template: WaitlistTemplate
+): Promise<string | null> {
+  const email = normalizeEmail(entry.email);
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('waitlist_emails')
+    .upsert({ waitlist_id: entry.id, email, template, status: 'sending' }, { onConflict: 'email,template', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) {
+    throw new Error(`Failed to log waitlist email: ${insertError.message}`);
+  }
+
+  if (inserted && inserted.length > 0) {
+    return inserted[0].id;
+  }
+
+  const { data: retried, error: retryError } = await supabase
+    .from('waitlist_emails')
+    .update({ status: 'sending', waitlist_id: entry.id, last_error: null })
+    .eq('email', email)
+    .eq('template', template)
+    .eq('status', 'failed')
+    .select('id');
+
+  if (retryError) {
+    throw new Error(`Failed to log waitlist email: ${retryError.message}`);
+  }
+
+  return retried && retried.length > 0 ? retried[0].id : null;
+}
+
+// Render and send one template to one signup, recording the outcome in the send log
+async function sendWaitlistEmail(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  entry: WaitlistEntry,
+  template: WaitlistTemplate,
+  appUrl: string | null,
+  requestId: string
+): Promise<SendResult> {
+  const logId = await claimSend(supabase, entry, template);
+  if (!logId) {
+    logWithContext('INFO', 'Waitlist email already sent, skipping', requestId, { waitlistId: entry.id, template });
+    return 'duplicate';
+  }
+
+  const data: TemplateData = {
+    firstName: entry.first_name?.trim() || null,
+    goals: entry.goals?.trim() || null,
+    appUrl
+  };
+
+  try {
+    await transport.send({
+      to: entry.email,
+      subject: TEMPLATES[template].subject(data),
+      html: renderHtml(TEMPLATES[template], data),
+      text: renderText(TEMPLATES[template], data)
+    });
+
+    await supabase
+      .from('waitlist_emails')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', logId);
+
+    logWithContext('INFO', 'Waitlist email sent', requestId, { waitlistId: entry.id, template });
+    return 'sent';
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logWithContext('ERROR', 'Failed to send waitlist email', requestId, { waitlistId: entry.id, template, error: errorMessage });
+
+    await supabase
+      .from('waitlist_emails')
+      .update({ status: 'failed', last_error: errorMessage })
+      .eq('id', logId);
+
+    return 'failed';
+  }
+}
+
+serve(async (req) => {
+  const requestId = generateRequestId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    logWithContext('INFO', 'CORS preflight request handled', requestId);
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  logWithContext('INFO', 'Send waitlist email function invoked', requestId, {
+    method: req.method,
+    url: req.url,
+    userAgent: req.headers.get('user-agent')
+  });
+
+  try {
+    // Validate environment variables
+    const { supabaseUrl, supabaseServiceKey, appUrl } = validateEnvironment(requestId);
+
+    let body: SendRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse('Request body must be JSON', requestId, 400);
+    }
+
+    const template = body.template || 'welcome';
+    if (!WAITLIST_TEMPLATES.includes(template)) {
+      return createErrorResponse(`Unknown template: ${template}`, requestId, 400);
+    }
+
+    // Anyone who just joined may trigger their own welcome email; invitation and launch
+    // emails go out in bulk and need the service role key
+    const isServiceRequest = constantTimeEquals(`Bearer ${supabaseServiceKey}`, req.headers.get('authorization') || '');
+    if (template !== 'welcome' && !isServiceRequest) {
+      return createErrorResponse(`Unauthorized: ${template} emails require service role key`, requestId, 401);
+    }
+
+    let emails: string[] | null;
+    if (isServiceRequest) {
+      emails = body.emails || (body.email ? [body.email] : null);
+    } else {
+      if (!body.email || typeof body.email !== 'string') {
+        return createErrorResponse('Email is required', requestId, 400);
+      }
+      emails = [body.email];
+    }
+
+    // Create Supabase admin client and mail transport
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport = createSmtpTransport(smtpConfigFromEnv());
+
+    // Names and goals always come from the stored signup, never from the request, so the
+    // function cannot be used to mail arbitrary content to arbitrary addresses
+    const entries = await loadWaitlistEntries(supabase, emails);
+    if (entries.length === 0) {
+      return createErrorResponse('No matching waitlist signup found', requestId, 404);
+    }
+
+    const summary: SendSummary = { sent: 0, duplicate: 0, failed: 0 };
+    for (const entry of entries) {
+      summary[await sendWaitlistEmail(supabase, transport, entry, template, appUrl, requestId)] += 1;
+    }
+
+    if (summary.sent === 0 && summary.failed > 0) {
+      return createErrorResponse(`Failed to send ${template} email`, requestId, 502);
+    }
+
+    return createSuccessResponse(
+      summary.sent > 0 ? `${template} email sent` : `${template} email was already sent`,
+      summary,
+      requestId
+    );
+
+  } catch (error) {
+    logWithContext('ERROR', 'Unexpected error in send-waitlist-email', requestId, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred while sending the waitlist email',
+      requestId,
+      500
+    );
+  }
+});
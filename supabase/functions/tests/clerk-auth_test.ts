@@ -0,0 +1,69 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { verifyClerkToken } from '../_shared/clerk-auth.ts'
+
+const ISSUER = 'https://clerk.example.test';
+
+const keyPair = await crypto.subtle.generateKey(
+  { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+  true,
+  ['sign', 'verify']
+);
+const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function encodeSegment(value: object): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function signToken(payload: object, kid = 'key-1'): Promise<string> {
+  const signingInput = `${encodeSegment({ alg: 'RS256', typ: 'JWT', kid })}.${encodeSegment(payload)}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function validClaims(overrides: object = {}): object {
+  const now = Math.floor(Date.now() / 1000);
+  return { sub: 'user_123', iss: ISSUER, iat: now, nbf: now - 10, exp: now + 60, ...overrides };
+}
+
+// Serve the test key as the issuer's JWKS
+globalThis.fetch = (input: string | URL | Request) => {
+  const url = input instanceof Request ? input.url : String(input);
+  if (url !== `${ISSUER}/.well-known/jwks.json`) {
+    return Promise.resolve(new Response('Not found', { status: 404 }));
+  }
+  return Promise.resolve(Response.json({ keys: [{ ...publicJwk, kid: 'key-1' }] }));
+};
+
+Deno.test('returns the user id of a valid token', async () => {
+  assertEquals(await verifyClerkToken(await signToken(validClaims()), ISSUER), 'user_123');
+});
+
+Deno.test('rejects a token whose user id was changed after signing', async () => {
+  const [header, , signature] = (await signToken(validClaims())).split('.');
+  const forged = `${header}.${encodeSegment(validClaims({ sub: 'user_victim' }))}.${signature}`;
+  await assertRejects(() => verifyClerkToken(forged, ISSUER), Error, 'Invalid token signature');
+});
+
+Deno.test('rejects an unsigned token', async () => {
+  const unsigned = `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(validClaims())}.`;
+  await assertRejects(() => verifyClerkToken(unsigned, ISSUER), Error, 'Unsupported token signature');
+});
+
+Deno.test('rejects a token signed with an unknown key', async () => {
+  const rotatedOut = await signToken(validClaims(), 'key-2');
+  await assertRejects(() => verifyClerkToken(rotatedOut, ISSUER), Error, 'unknown key');
+});
+
+Deno.test('rejects an expired token', async () => {
+  const expired = await signToken(validClaims({ exp: Math.floor(Date.now() / 1000) - 60 }));
+  await assertRejects(() => verifyClerkToken(expired, ISSUER), Error, 'Token expired');
+});
+
+Deno.test('rejects a token from another issuer', async () => {
+  const foreign = await signToken(validClaims({ iss: 'https://clerk.attacker.test' }));
+  await assertRejects(() => verifyClerkToken(foreign, ISSUER), Error, 'another issuer');
+});
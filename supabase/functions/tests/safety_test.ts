@@ -0,0 +1,111 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { classifyUtterance, hasGivenSafeResponse, SAFE_RESPONSE, type SafetyCategory } from '../_shared/safety.ts'
+
+const originalFetch = globalThis.fetch;
+
+// Stub the moderation endpoint and count the requests that reach it
+function stubModeration(respond: () => Response | Promise<Response>): { calls: number } {
+  const stub = { calls: 0 };
+  globalThis.fetch = () => {
+    stub.calls++;
+    return Promise.resolve(respond());
+  };
+  return stub;
+}
+
+function moderationResult(categories: Record<string, boolean>): Response {
+  return Response.json({ results: [{ flagged: Object.values(categories).some(Boolean), categories }] });
+}
+
+const PATTERN_HITS: [string, SafetyCategory][] = [
+  ['I want to kill myself', 'self_harm'],
+  ['Sometimes I think about how to end my life', 'self_harm'],
+  ["I've been feeling suicidal again", 'self_harm'],
+  ['Honestly everyone would be better off without me', 'self_harm'],
+  ["I don't want to wake up tomorrow", 'self_harm'],
+  ['I don’t want to be alive anymore', 'self_harm'],
+  ["I'm planning to overdose on my pills", 'self_harm'],
+  ['I just want to die', 'self_harm'],
+  ['I AM NOT SAFE at home', 'crisis'],
+  ['He keeps hitting me when he drinks', 'crisis'],
+  ["I'm going to hurt him if he does it again", 'crisis']
+];
+
+// Everyday phrases that share words with the patterns but disclose nothing
+const NEAR_MISSES = [
+  'I killed it at the gym today',
+  'This deadline is killing me',
+  "I'm dying to finish this book",
+  'My phone is about to die',
+  'I want to cut back on sugar',
+  'I hurt my knee on the run yesterday',
+  "I'm safe at home now, the storm passed",
+  'I would hate to harm my streak',
+  'I finished my life goals list',
+  'She keeps helping me with the budget'
+];
+
+for (const [utterance, category] of PATTERN_HITS) {
+  Deno.test(`flags "${utterance}" as ${category} without calling moderation`, async () => {
+    const moderation = stubModeration(() => moderationResult({}));
+    try {
+      assertEquals(await classifyUtterance(utterance, 'sk-test'), { flagged: true, category, detectedBy: 'pattern' });
+      assertEquals(moderation.calls, 0);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+}
+
+for (const utterance of NEAR_MISSES) {
+  Deno.test(`does not flag "${utterance}"`, async () => {
+    const moderation = stubModeration(() => moderationResult({ 'self-harm': false, violence: false }));
+    try {
+      assertEquals(await classifyUtterance(utterance, 'sk-test'), { flagged: false, category: null, detectedBy: null });
+      assertEquals(moderation.calls, 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+}
+
+Deno.test('flags what moderation finds beyond the patterns', async () => {
+  stubModeration(() => moderationResult({ 'self-harm': false, 'self-harm/intent': true }));
+  try {
+    assertEquals(
+      await classifyUtterance('I keep thinking about the bridge near my office', 'sk-test'),
+      { flagged: true, category: 'self_harm', detectedBy: 'moderation' }
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test('ignores moderation categories other than self-harm', async () => {
+  stubModeration(() => moderationResult({ violence: true, harassment: true }));
+  try {
+    assertEquals((await classifyUtterance('That referee should be fired', 'sk-test')).flagged, false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test('falls back to the patterns when moderation fails or there is no key', async () => {
+  const moderation = stubModeration(() => new Response('Service unavailable', { status: 503 }));
+  try {
+    assertEquals((await classifyUtterance('I keep thinking about the bridge', 'sk-test')).flagged, false);
+    assertEquals((await classifyUtterance('I want to kill myself', 'sk-test')).detectedBy, 'pattern');
+
+    moderation.calls = 0;
+    assertEquals((await classifyUtterance('I keep thinking about the bridge', null)).flagged, false);
+    assertEquals(moderation.calls, 0);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test('recognises a conversation that already had the safe response', () => {
+  assertEquals(hasGivenSafeResponse([{ role: 'user', content: 'hi' }, { role: 'assistant', content: SAFE_RESPONSE }]), true);
+  assertEquals(hasGivenSafeResponse([{ role: 'user', content: SAFE_RESPONSE }]), false);
+  assertEquals(hasGivenSafeResponse([]), false);
+});
@@ -0,0 +1,87 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { createDeepgramStreamingProvider, isUnclearTranscript, type Transcript } from '../_shared/stt-provider.ts'
+
+const OriginalWebSocket = globalThis.WebSocket;
+
+// Stands in for the Deepgram connection; tests push its messages through onmessage
+class FakeWebSocket {
+  static OPEN = 1;
+  static latest: FakeWebSocket;
+  readyState = 0;
+  sent: unknown[] = [];
+  binaryType = 'blob';
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string, public protocols: string[]) {
+    FakeWebSocket.latest = this;
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close() {}
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function results(transcript: string, confidence: number, flags: { is_final?: boolean; speech_final?: boolean }) {
+  return { type: 'Results', ...flags, channel: { alternatives: [{ transcript, confidence }] } };
+}
+
+function connect(): { utterances: Transcript[]; speech: { count: number }; socket: FakeWebSocket; send: (audio: Uint8Array) => void } {
+  const utterances: Transcript[] = [];
+  const speech = { count: 0 };
+  const transcription = createDeepgramStreamingProvider({ apiKey: 'dg-test', language: 'en' }).connect({
+    onSpeech: () => speech.count++,
+    onUtterance: (transcript) => utterances.push(transcript),
+    onError: () => {}
+  });
+  return { utterances, speech, socket: FakeWebSocket.latest, send: (audio) => transcription.send(audio) };
+}
+
+Deno.test('asks to repeat empty and low-confidence transcripts only', () => {
+  assertEquals(isUnclearTranscript({ text: '', confidence: 0.9, language: 'en' }), true);
+  assertEquals(isUnclearTranscript({ text: 'I ran', confidence: 0.2, language: 'en' }), true);
+  assertEquals(isUnclearTranscript({ text: 'I ran', confidence: 0.4, language: 'en' }), false);
+  assertEquals(isUnclearTranscript({ text: 'I ran', confidence: null, language: null }), false);
+});
+
+Deno.test('joins final Deepgram results into one utterance with their average confidence', () => {
+  globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  try {
+    const { utterances, speech, socket } = connect();
+    assertEquals(new URL(socket.url).searchParams.get('encoding'), 'mulaw');
+    assertEquals(new URL(socket.url).searchParams.get('language'), 'en');
+
+    socket.receive(results('I went', 0.5, {}));
+    socket.receive(results('I went for a run', 0.9, { is_final: true }));
+    socket.receive(results('', 0, { is_final: true }));
+    socket.receive(results('this morning', 0.5, { is_final: true, speech_final: true }));
+
+    assertEquals(speech.count, 3);
+    assertEquals(utterances, [{ text: 'I went for a run this morning', confidence: 0.7, language: 'en' }]);
+
+    // Nothing was pending, so the utterance end that follows adds nothing
+    socket.receive({ type: 'UtteranceEnd' });
+    assertEquals(utterances.length, 1);
+  } finally {
+    globalThis.WebSocket = OriginalWebSocket;
+  }
+});
+
+Deno.test('drops audio until the Deepgram connection is open', () => {
+  globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  try {
+    const { socket, send } = connect();
+    send(new Uint8Array([1]));
+    socket.readyState = FakeWebSocket.OPEN;
+    send(new Uint8Array([2]));
+    assertEquals(socket.sent, [new Uint8Array([2])]);
+  } finally {
+    globalThis.WebSocket = OriginalWebSocket;
+  }
+});
@@ -0,0 +1,43 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { getLocalDate, getLocalTime, resolveTimeZone, zonedTimeToUtc } from '../_shared/time-zone.ts'
+
+Deno.test('converts ordinary wall-clock times on either side of UTC', () => {
+  assertEquals(zonedTimeToUtc('2025-07-01', '09:00', 'Europe/Berlin').toISOString(), '2025-07-01T07:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-01-15', '09:00:30', 'America/New_York').toISOString(), '2025-01-15T14:00:30.000Z');
+  assertEquals(zonedTimeToUtc('2025-07-01', '09:00', 'UTC').toISOString(), '2025-07-01T09:00:00.000Z');
+});
+
+Deno.test('times skipped by spring forward move forward by the gap', () => {
+  // Berlin jumps from 02:00 CET to 03:00 CEST, so 02:30 becomes 03:30 CEST
+  assertEquals(zonedTimeToUtc('2025-03-30', '02:30', 'Europe/Berlin').toISOString(), '2025-03-30T01:30:00.000Z');
+  // New York jumps from 02:00 EST to 03:00 EDT, so 02:30 becomes 03:30 EDT
+  assertEquals(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString(), '2025-03-09T07:30:00.000Z');
+});
+
+Deno.test('times repeated by fall back resolve to their first occurrence', () => {
+  // 02:30 happens at 00:30Z (CEST) and again at 01:30Z (CET)
+  assertEquals(zonedTimeToUtc('2025-10-26', '02:30', 'Europe/Berlin').toISOString(), '2025-10-26T00:30:00.000Z');
+  // 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+  assertEquals(zonedTimeToUtc('2025-11-02', '01:30', 'America/New_York').toISOString(), '2025-11-02T05:30:00.000Z');
+  // Southern hemisphere: Sydney falls back from AEDT to AEST in April
+  assertEquals(zonedTimeToUtc('2025-04-06', '02:30', 'Australia/Sydney').toISOString(), '2025-04-05T15:30:00.000Z');
+});
+
+Deno.test('times next to a DST change keep their own offset', () => {
+  assertEquals(zonedTimeToUtc('2025-10-26', '01:59', 'Europe/Berlin').toISOString(), '2025-10-25T23:59:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-10-26', '03:00', 'Europe/Berlin').toISOString(), '2025-10-26T02:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-03-30', '03:00', 'Europe/Berlin').toISOString(), '2025-03-30T01:00:00.000Z');
+});
+
+Deno.test('reads local dates and times back from an instant', () => {
+  const instant = new Date('2025-10-26T00:30:00.000Z');
+  assertEquals(getLocalDate(instant, 'Europe/Berlin'), '2025-10-26');
+  assertEquals(getLocalTime(instant, 'Europe/Berlin'), '02:30:00');
+  assertEquals(getLocalDate(instant, 'America/Los_Angeles'), '2025-10-25');
+});
+
+Deno.test('falls back to UTC for unset or unknown zones', () => {
+  assertEquals(resolveTimeZone(null), 'UTC');
+  assertEquals(resolveTimeZone('Mars/Olympus_Mons'), 'UTC');
+  assertEquals(resolveTimeZone('Asia/Kolkata'), 'Asia/Kolkata');
+});
@@ -0,0 +1,43 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { pcm24kToMuLaw8k, synthesizeWithFailover, type TtsProvider } from '../_shared/tts-provider.ts'
+
+function provider(name: string, synthesize: TtsProvider['synthesize']): TtsProvider {
+  return { name, modelId: name, synthesize };
+}
+
+function pcm(samples: number[]): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+  return view.buffer;
+}
+
+Deno.test('encodes 24kHz PCM as one μ-law byte per three samples', () => {
+  assertEquals(Array.from(pcm24kToMuLaw8k(pcm([0, 0, 0, 32767, 32767, 32767, -32768, -32768, -32768, 1000, 1000]))), [0xff, 0x80, 0x00]);
+});
+
+Deno.test('fails over to the next provider in the requested format', async () => {
+  const failures: string[] = [];
+  const formats: (string | undefined)[] = [];
+  const rendered = await synthesizeWithFailover(
+    [
+      provider('broken', () => Promise.reject(new Error('quota exceeded'))),
+      provider('working', (_text, _voiceId, format) => {
+        formats.push(format);
+        return Promise.resolve(new Blob(['audio']));
+      })
+    ],
+    'Hello',
+    'voice',
+    (failed, error) => failures.push(`${failed.name}: ${error.message}`),
+    'ulaw_8000'
+  );
+
+  assertEquals(rendered?.provider.name, 'working');
+  assertEquals(failures, ['broken: quota exceeded']);
+  assertEquals(formats, ['ulaw_8000']);
+});
+
+Deno.test('returns null when every provider fails', async () => {
+  const rendered = await synthesizeWithFailover([provider('broken', () => Promise.reject(new Error('down')))], 'Hello', 'voice', () => {});
+  assertEquals(rendered, null);
+});
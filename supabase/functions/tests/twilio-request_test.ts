@@ -0,0 +1,67 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { constantTimeEquals, validateTwilioSignature, verifyTwilioRequest } from '../_shared/twilio-request.ts'
+
+// The example request from Twilio's webhook security documentation
+const AUTH_TOKEN = '12345';
+const DOCS_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const DOCS_PARAMS = {
+  CallSid: 'CA1234567890ABCDE',
+  Caller: '+12349013030',
+  Digits: '1234',
+  From: '+12349013030',
+  To: '+18005551212'
+};
+const DOCS_SIGNATURE = '0/KCTR6DLpKmkAf8muzZqo1nDgQ=';
+
+async function sign(url: string, params: Record<string, string>): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(AUTH_TOKEN), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const signed = url + Object.keys(params).sort().map(name => name + params[name]).join('');
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(signed));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+function webhookRequest(params: Record<string, string>, signature: string | null): Request {
+  return new Request('http://localhost/twilio-sms/inbound-sms', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-www-form-urlencoded',
+      'x-forwarded-host': 'project.supabase.co',
+      ...(signature && { 'x-twilio-signature': signature })
+    },
+    body: new URLSearchParams(params).toString()
+  });
+}
+
+Deno.test('accepts the signature from Twilio\'s documentation', async () => {
+  assertEquals(await validateTwilioSignature(AUTH_TOKEN, DOCS_SIGNATURE, DOCS_URL, DOCS_PARAMS), true);
+});
+
+Deno.test('rejects a signature once a parameter or the URL changes', async () => {
+  assertEquals(await validateTwilioSignature(AUTH_TOKEN, DOCS_SIGNATURE, DOCS_URL, { ...DOCS_PARAMS, From: '+15550000000' }), false);
+  assertEquals(await validateTwilioSignature(AUTH_TOKEN, DOCS_SIGNATURE, `${DOCS_URL}&baz=3`, DOCS_PARAMS), false);
+  assertEquals(await validateTwilioSignature(AUTH_TOKEN, DOCS_SIGNATURE.slice(0, -2), DOCS_URL, DOCS_PARAMS), false);
+});
+
+Deno.test('returns the form params of a request signed for the public function URL', async () => {
+  const params = { From: '+15551234567', Body: 'Done & dusted' };
+  const signature = await sign('https://project.supabase.co/functions/v1/twilio-sms/inbound-sms', params);
+  assertEquals(await verifyTwilioRequest(webhookRequest(params, signature), AUTH_TOKEN, 'test'), params);
+});
+
+Deno.test('turns away unsigned and wrongly signed requests with a 403', async () => {
+  const params = { From: '+15551234567', Body: 'STOP' };
+  const unsigned = await verifyTwilioRequest(webhookRequest(params, null), AUTH_TOKEN, 'test');
+  assertEquals(unsigned instanceof Response && unsigned.status, 403);
+
+  const signedElsewhere = await sign('https://attacker.example/functions/v1/twilio-sms/inbound-sms', params);
+  const forged = await verifyTwilioRequest(webhookRequest(params, signedElsewhere), AUTH_TOKEN, 'test');
+  assertEquals(forged instanceof Response && forged.status, 403);
+});
+
+Deno.test('compares secrets exactly', () => {
+  assertEquals(constantTimeEquals('Bearer service-key', 'Bearer service-key'), true);
+  assertEquals(constantTimeEquals('Bearer service-key', 'Bearer service-kez'), false);
+  assertEquals(constantTimeEquals('Bearer service-key', 'Bearer service-key '), false);
+  assertEquals(constantTimeEquals('Bearer service-key', ''), false);
+});
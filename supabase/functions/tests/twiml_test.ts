@@ -0,0 +1,128 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { buildTwiML, escapeXml, gather, pause, record, redirect, say } from '../_shared/twiml.ts'
+import {
+  generateHangupTwiML,
+  generateRealtimeTwiML,
+  generateTwiML,
+  generateUnknownCallerTwiML,
+  generateVoicemailTwiML
+} from '../_shared/call-twiml.ts'
+import { signStreamToken } from '../_shared/stream-token.ts'
+
+// Inline snapshots of the TwiML sent at each stage of a call. A change to any of them changes
+// what Twilio does on a live call, so update them deliberately.
+
+const WEBHOOK_URL = 'https://project.supabase.co/functions/v1/twilio-call-handler/twiml-webhook';
+const ACTION_URL = `${WEBHOOK_URL}?user_id=user_123&amp;call_id=call-1`;
+const HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+Deno.test('escapes every XML special character', () => {
+  assertEquals(escapeXml(`&<>"'`), '&amp;&lt;&gt;&quot;&apos;');
+});
+
+Deno.test('greeting plays the rendered audio and listens for an answer', () => {
+  assertEquals(
+    generateTwiML('https://storage.example/tts/a.mp3?token=abc&expires=600', 'Hi!', WEBHOOK_URL, 'user_123', 'call-1'),
+    `${HEADER}
+<Response>
+  <Play>https://storage.example/tts/a.mp3?token=abc&amp;expires=600</Play>
+  <Gather input="speech" timeout="10" speechTimeout="auto" action="${ACTION_URL}" method="POST">
+    <Say voice="alice">Please respond when you&apos;re ready.</Say>
+  </Gather>
+  <Say voice="alice">I didn&apos;t hear a response. Have a great day!</Say>
+  <Hangup/>
+</Response>`
+  );
+});
+
+Deno.test('reply without rendered audio is read out by Twilio, escaped', () => {
+  assertEquals(
+    generateTwiML(null, `Tom & Jerry's <"plan">`, WEBHOOK_URL, 'user_123', 'call-1'),
+    `${HEADER}
+<Response>
+  <Say voice="alice">Tom &amp; Jerry&apos;s &lt;&quot;plan&quot;&gt;</Say>
+  <Gather input="speech" timeout="10" speechTimeout="auto" action="${ACTION_URL}" method="POST">
+    <Say voice="alice">Please respond when you&apos;re ready.</Say>
+  </Gather>
+  <Say voice="alice">I didn&apos;t hear a response. Have a great day!</Say>
+  <Hangup/>
+</Response>`
+  );
+});
+
+Deno.test('gather accepts speech and DTMF, with pauses, recording and redirects around it', () => {
+  assertEquals(
+    buildTwiML([
+      gather({ input: ['speech', 'dtmf'], numDigits: 1, finishOnKey: '#', actionOnEmptyResult: true, action: 'https://x.test/a?b=1&c=2' }, [
+        say('Press 1 for "yes" & 2 for <no>', { language: 'en-US' }),
+        pause(2)
+      ]),
+      record({ maxLength: 30, playBeep: true, trim: 'trim-silence' }),
+      redirect('https://x.test/next', 'GET')
+    ]),
+    `${HEADER}
+<Response>
+  <Gather input="speech dtmf" numDigits="1" finishOnKey="#" actionOnEmptyResult="true" action="https://x.test/a?b=1&amp;c=2">
+    <Say language="en-US">Press 1 for &quot;yes&quot; &amp; 2 for &lt;no&gt;</Say>
+    <Pause length="2"/>
+  </Gather>
+  <Record maxLength="30" playBeep="true" trim="trim-silence"/>
+  <Redirect method="GET">https://x.test/next</Redirect>
+</Response>`
+  );
+});
+
+Deno.test('voicemail plays after the beep and hangs up', () => {
+  assertEquals(
+    generateVoicemailTwiML('https://storage.example/vm.mp3', 'unused'),
+    `${HEADER}
+<Response>
+  <Play>https://storage.example/vm.mp3</Play>
+  <Hangup/>
+</Response>`
+  );
+  assertEquals(
+    generateVoicemailTwiML(null, `Talk soon & don't forget`),
+    `${HEADER}
+<Response>
+  <Say voice="alice">Talk soon &amp; don&apos;t forget</Say>
+  <Hangup/>
+</Response>`
+  );
+});
+
+Deno.test('stream connect passes signed parameters and falls back to the TwiML loop', async () => {
+  const token = await signStreamToken('service-key', 'call-1', 'user_123');
+  assertEquals(
+    await generateRealtimeTwiML('https://project.supabase.co', 'service-key', WEBHOOK_URL, 'user_123', 'call-1'),
+    `${HEADER}
+<Response>
+  <Connect>
+    <Stream url="wss://project.supabase.co/functions/v1/twilio-media-stream">
+      <Parameter name="call_id" value="call-1"/>
+      <Parameter name="user_id" value="user_123"/>
+      <Parameter name="token" value="${token}"/>
+    </Stream>
+  </Connect>
+  <Redirect method="POST">${ACTION_URL}&amp;fallback=1</Redirect>
+</Response>`
+  );
+});
+
+Deno.test('unknown callers are told how to link their number, then hung up on', () => {
+  assertEquals(
+    generateUnknownCallerTwiML(),
+    `${HEADER}
+<Response>
+  <Say voice="alice">Hi, thanks for calling My Future Self. We couldn&apos;t find an account with the number you&apos;re calling from. Add this phone number to your profile in the app, then call back any time to talk with your future self. Goodbye!</Say>
+  <Hangup/>
+</Response>`
+  );
+});
+
+Deno.test('hangup ends the call without speaking', () => {
+  assertEquals(generateHangupTwiML(), `${HEADER}
+<Response>
+  <Hangup/>
+</Response>`);
+});
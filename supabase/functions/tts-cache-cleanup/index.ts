@@ -0,0 +1,256 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { LEGACY_TEMP_FOLDER, TTS_CACHE_BUCKET } from '../_shared/tts-cache.ts'
+import { constantTimeEquals } from '../_shared/twilio-request.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Hours cached audio may go unused before it is purged, unless TTS_CACHE_TTL_HOURS overrides it
+const DEFAULT_TTL_HOURS = 24;
+
+// Objects removed per storage request
+const BATCH_SIZE = 100;
+
+interface CleanupSummary {
+  ttlHours: number;
+  cacheEntriesPurged: number;
+  tempFilesPurged: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+interface SuccessResponse {
+  success: true;
+  message: string;
+  summary: CleanupSummary;
+  timestamp: string;
+  requestId: string;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Create standardized success response
+function createSuccessResponse(
+  message: string,
+  summary: CleanupSummary,
+  requestId: string
+): Response {
+  const successResponse: SuccessResponse = {
+    success: true,
+    message,
+    summary,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('INFO', `Success response created: ${message}`, requestId, { ...summary });
+
+  return new Response(JSON.stringify(successResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): { supabaseUrl: string; supabaseServiceKey: string; ttlHours: number } {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const ttlSetting = Deno.env.get('TTS_CACHE_TTL_HOURS');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  const ttlHours = ttlSetting ? Number(ttlSetting) : DEFAULT_TTL_HOURS;
+  if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+    throw new Error(`Invalid TTS_CACHE_TTL_HOURS: ${ttlSetting}`);
+  }
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId);
+  return { supabaseUrl, supabaseServiceKey, ttlHours };
+}
+
+// Remove cached audio that has not been played since the cutoff, then its cache entries
+async function purgeCacheEntries(
+  supabase: SupabaseClient,
+  cutoff: Date,
+  requestId: string
+): Promise<number> {
+  let purged = 0;
+
+  while (true) {
+    const { data: entries, error } = await supabase
+      .from('tts_cache')
+      .select('cache_key, storage_path')
+      .lt('last_used_at', cutoff.toISOString())
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load expired cache entries: ${error.message}`);
+    }
+
+    if (!entries || entries.length === 0) {
+      return purged;
+    }
+
+    // Audio goes first; an entry left without audio is simply rendered again on its next use
+    const { error: removeError } = await supabase.storage
+      .from(TTS_CACHE_BUCKET)
+      .remove(entries.map(entry => entry.storage_path));
+
+    if (removeError) {
+      throw new Error(`Failed to remove cached audio: ${removeError.message}`);
+    }
+
+    const { error: deleteError } = await supabase
+      .from('tts_cache')
+      .delete()
+      .in('cache_key', entries.map(entry => entry.cache_key));
+
+    if (deleteError) {
+      throw new Error(`Failed to delete cache entries: ${deleteError.message}`);
+    }
+
+    purged += entries.length;
+    logWithContext('INFO', 'Purged expired TTS cache entries', requestId, { count: entries.length });
+  }
+}
+
+// Remove one-off audio left in the temp folder by the handler before the cache existed
+async function purgeLegacyTempFiles(
+  supabase: SupabaseClient,
+  cutoff: Date,
+  requestId: string
+): Promise<number> {
+  let purged = 0;
+
+  while (true) {
+    const { data: files, error } = await supabase.storage
+      .from(TTS_CACHE_BUCKET)
+      .list(LEGACY_TEMP_FOLDER, { limit: BATCH_SIZE, sortBy: { column: 'created_at', order: 'asc' } });
+
+    if (error) {
+      throw new Error(`Failed to list temp audio: ${error.message}`);
+    }
+
+    // Oldest first, so the batch ends at the first file still within the TTL
+    const expired = (files || []).filter(file => file.created_at && new Date(file.created_at) < cutoff);
+    if (expired.length === 0) {
+      return purged;
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(TTS_CACHE_BUCKET)
+      .remove(expired.map(file => `${LEGACY_TEMP_FOLDER}/${file.name}`));
+
+    if (removeError) {
+      throw new Error(`Failed to remove temp audio: ${removeError.message}`);
+    }
+
+    purged += expired.length;
+    logWithContext('INFO', 'Purged legacy temp audio', requestId, { count: expired.length });
+  }
+}
+
+serve(async (req) => {
+  const requestId = generateRequestId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    logWithContext('INFO', 'CORS preflight request handled', requestId);
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  logWithContext('INFO', 'TTS cache cleanup function invoked', requestId, {
+    method: req.method,
+    url: req.url,
+    userAgent: req.headers.get('user-agent')
+  });
+
+  try {
+    // Validate environment variables
+    const { supabaseUrl, supabaseServiceKey, ttlHours } = validateEnvironment(requestId);
+
+    // Only the cron job, which authenticates with the service role key, may run the cleanup
+    const authHeader = req.headers.get('authorization');
+    if (!constantTimeEquals(`Bearer ${supabaseServiceKey}`, authHeader || '')) {
+      return createErrorResponse('Unauthorized: cleanup requires service role key', requestId, 401);
+    }
+
+    // Create Supabase admin client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const cutoff = new Date(Date.now() - ttlHours * 60 * 60 * 1000);
+    const summary: CleanupSummary = {
+      ttlHours,
+      cacheEntriesPurged: await purgeCacheEntries(supabase, cutoff, requestId),
+      tempFilesPurged: await purgeLegacyTempFiles(supabase, cutoff, requestId)
+    };
+
+    return createSuccessResponse('TTS cache cleanup completed', summary, requestId);
+
+  } catch (error) {
+    logWithContext('ERROR', 'Unexpected error in tts-cache-cleanup', requestId, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred while cleaning up the TTS cache',
+      requestId,
+      500
+    );
+  }
+});
@@ -1,4 +1,19 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  generateHangupTwiML,
+  generateRealtimeTwiML,
+  generateTwiML,
+  generateUnknownCallerTwiML,
+  generateVoicemailTwiML
+} from '../_shared/call-twiml.ts'
+import { TTS_CACHE_BUCKET, ttsCacheKey, ttsCachePath } from '../_shared/tts-cache.ts'
+import { checkContactPolicy } from '../_shared/contact-policy.ts'
+import { extractMemoriesFromCall } from '../_shared/user-memories.ts'
+import { llmProviderFromEnv, type LlmProvider } from '../_shared/llm-provider.ts'
+import { synthesizeWithFailover, ttsProvidersFromEnv, type TtsProvider } from '../_shared/tts-provider.ts'
+import { formatUserDataBlock, sanitizePromptText } from '../_shared/prompt-assembly.ts'
+import { verifyClerkToken } from '../_shared/clerk-auth.ts'
+import { constantTimeEquals, findUserByPhoneNumber, verifyTwilioRequest } from '../_shared/twilio-request.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,9 +22,95 @@ const corsHeaders = {
   'Access-Control-Max-Age': '86400', // Cache preflight for 24 hours
 }
 
+// Realtime Media Streams conversations are opt-in; the TwiML loop below stays the default and the fallback
+const REALTIME_ENABLED = Deno.env.get('TWILIO_REALTIME_ENABLED') === 'true';
+
+// Seconds a signed TTS audio URL stays valid for Twilio to fetch it
+const TTS_SIGNED_URL_SECONDS = 600;
+
+// Phone numbers must be E.164: a plus sign, country code and up to 15 digits
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// SMS verification codes expire after this many minutes
+const VERIFICATION_CODE_TTL_MINUTES = 10;
+
+// Wrong codes allowed before the user has to request a new one
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+// Seconds a user must wait before another code is texted
+const VERIFICATION_RESEND_SECONDS = 30;
+
+// Final call statuses Twilio reports to the StatusCallback
+const CALL_OUTCOMES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'] as const;
+
+type CallOutcome = typeof CALL_OUTCOMES[number];
+
+// Outcome stored on the call log; a machine pickup where a voicemail was left completes as `voicemail_left`
+type RecordedOutcome = CallOutcome | 'voicemail_left';
+
+interface RetryRule {
+  retries: number; // Extra attempts after the first dial
+  delayMinutes: number;
+  finalStatus: 'missed' | 'failed';
+}
+
+// How a scheduled check-in is retried depending on why the call did not connect
+const RETRY_POLICY: Record<Exclude<RecordedOutcome, 'completed'>, RetryRule> = {
+  'no-answer': { retries: 1, delayMinutes: 15, finalStatus: 'missed' },
+  'voicemail_left': { retries: 0, delayMinutes: 0, finalStatus: 'missed' }, // The user already got the message
+  'busy': { retries: 0, delayMinutes: 0, finalStatus: 'missed' }, // The user declined or is on another call
+  'failed': { retries: 1, delayMinutes: 15, finalStatus: 'failed' },
+  'canceled': { retries: 0, delayMinutes: 0, finalStatus: 'failed' }
+};
+
 interface InitiateCallRequest {
   user_id: string;
-  to_phone_number: string;
+  scheduled_call_id?: string; // Set by call-scheduler for automated check-in calls
+}
+
+interface SendVerificationRequest {
+  phone_number: string;
+}
+
+interface VerifyPhoneRequest {
+  code: string;
+}
+
+interface ConversationTurn {
+  role: 'user' | 'assistant' | 'action';
+  content: string;
+}
+
+interface AIReply {
+  message: string;
+  actions: string[]; // Actions the future self took before replying
+}
+
+interface Voicemail {
+  text: string;
+  audioPath: string | null; // null when no TTS provider could render it; read out with <Say> instead
+}
+
+interface PhoneCall {
+  id: string;
+  startedAt: string;
+  turns: ConversationTurn[];
+  voicemail: Voicemail | null;
+}
+
+interface LoggedTurn extends ConversationTurn {
+  audioPath?: string | null;
+}
+
+interface CallOutcomeRecord {
+  callSid: string;
+  callId: string | null;
+  userId: string | null;
+  scheduledCallId: string | null;
+  outcome: CallOutcome;
+  durationSeconds: number;
+  price: number | null;
+  priceUnit: string | null;
 }
 
 interface ErrorResponse {
@@ -92,50 +193,54 @@ function createSuccessResponse(
 function validateEnvironment(requestId: string): { 
   supabaseUrl: string; 
   supabaseServiceKey: string; 
-  supabaseAnonKey: string;
   twilioAccountSid: string;
   twilioAuthToken: string;
   twilioFromNumber: string;
+  clerkIssuer: string;
+  llm: LlmProvider;
+  ttsProviders: TtsProvider[];
 } {
   logWithContext('INFO', 'Validating environment variables', requestId);
   
   const supabaseUrl = Deno.env.get('SUPABASE_URL');
   const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
   const twilioAccountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
   const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
   const twilioFromNumber = Deno.env.get('TWILIO_FROM_NUMBER');
+  const clerkIssuer = Deno.env.get('CLERK_ISSUER');
   
   const missing = [];
   if (!supabaseUrl) missing.push('SUPABASE_URL');
   if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
-  if (!supabaseAnonKey) missing.push('SUPABASE_ANON_KEY');
   if (!twilioAccountSid) missing.push('TWILIO_ACCOUNT_SID');
   if (!twilioAuthToken) missing.push('TWILIO_AUTH_TOKEN');
   if (!twilioFromNumber) missing.push('TWILIO_FROM_NUMBER');
+  if (!clerkIssuer) missing.push('CLERK_ISSUER');
   
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+
+  // The LLM and TTS providers check their own settings (LLM_PROVIDER, TTS_PROVIDERS and their keys)
+  const llm = llmProviderFromEnv();
+  const ttsProviders = ttsProvidersFromEnv();
   
-  logWithContext('INFO', 'Environment variables validated successfully', requestId);
-  return { supabaseUrl, supabaseServiceKey, supabaseAnonKey, twilioAccountSid, twilioAuthToken, twilioFromNumber };
+  logWithContext('INFO', 'Environment variables validated successfully', requestId, {
+    llmProvider: llm.name,
+    ttsProviders: ttsProviders.map(provider => provider.name)
+  });
+  return { supabaseUrl, supabaseServiceKey, twilioAccountSid, twilioAuthToken, twilioFromNumber, clerkIssuer, llm, ttsProviders };
 }
 
-// Extract user ID from Clerk JWT
-function extractUserIdFromJWT(authHeader: string | null, requestId: string): string {
+// Extract user ID from Clerk JWT. This function is deployed without Supabase's JWT check, so
+// the token's signature, issuer and expiry are verified before its user id is trusted.
+async function extractUserIdFromJWT(authHeader: string | null, clerkIssuer: string, requestId: string): Promise<string> {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     throw new Error('Missing or invalid authorization header');
   }
 
   try {
-    const token = authHeader.substring(7);
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    const userId = payload.sub;
-    
-    if (!userId) {
-      throw new Error('No user ID found in JWT');
-    }
+    const userId = await verifyClerkToken(authHeader.substring(7), clerkIssuer);
     
     logWithContext('INFO', 'User ID extracted from JWT', requestId, { userId });
     return userId;
@@ -145,83 +250,6 @@ function extractUserIdFromJWT(authHeader: string | null, requestId: string): str
   }
 }
 
-// Twilio signature validation using Web Crypto API
-async function validateTwilioSignature(
-  authToken: string,
-  signature: string,
-  url: string,
-  params: Record<string, string>,
-  requestId: string
-): Promise<boolean> {
-  try {
-    logWithContext('INFO', 'Starting Twilio signature validation', requestId, {
-      url,
-      paramsCount: Object.keys(params).length, 
-      hasSignature: !!signature,
-      signaturePreview: signature.substring(0, 20) + '...'
-    });
-
-    // Sort parameters alphabetically
-    const sortedKeys = Object.keys(params).sort();
-
-    // Create the signature string according to Twilio's specification
-    // Start with the full URL
-    let signatureString = url;
-    
-    // Append sorted parameters
-    for (const key of sortedKeys) {
-      signatureString += key + params[key];
-    }
-    
-    logWithContext('INFO', 'Generated signature string for validation', requestId, {
-      signatureStringLength: signatureString.length,
-      urlPart: url,
-      paramKeys: sortedKeys,
-      signatureStringPreview: signatureString.substring(0, 150) + '...'
-    });
-
-    // Create HMAC-SHA1 hash using Web Crypto API
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(authToken);
-    const messageData = encoder.encode(signatureString);
-    
-    // Import the key for HMAC
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-1' },
-      false,
-      ['sign']
-    );
-    
-    // Generate the HMAC signature
-    const signatureBuffer = await crypto.subtle.sign('HMAC', cryptoKey, messageData);
-    
-    // Convert to base64
-    const signatureArray = new Uint8Array(signatureBuffer);
-    const binaryString = Array.from(signatureArray, byte => String.fromCharCode(byte)).join('');
-    const computedSignature = btoa(binaryString);
-    
-    const isValid = computedSignature === signature;
-    
-    logWithContext('INFO', 'Signature validation completed', requestId, {
-      isValid,
-      computedSignature: computedSignature.substring(0, 20) + '...',
-      providedSignature: signature.substring(0, 20) + '...',
-      authTokenLength: authToken.length
-    });
-    
-    return isValid;
-    
-  } catch (error) {
-    logWithContext('ERROR', 'Error during signature validation', requestId, {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    return false;
-  }
-}
-
 // Get user's voice preference from database
 async function getUserVoicePreference(
   supabase: any,
@@ -267,14 +295,731 @@ async function getUserVoicePreference(
   }
 }
 
-// Call OpenAI chat completion Edge Function
-async function getAIResponse(
+// Get the verified phone number stored on the user's profile; calls are only placed to verified numbers
+async function getUserPhoneNumber(
+  supabase: SupabaseClient,
+  userId: string,
+  requestId: string
+): Promise<string> {
+  logWithContext('INFO', 'Fetching user phone number', requestId, { userId });
+
+  const { data: userProfile, error } = await supabase
+    .from('user_profiles')
+    .select('phone_number, phone_verified_at')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    logWithContext('ERROR', 'Error fetching user phone number', requestId, {
+      error: error.message,
+      code: error.code,
+      userId
+    });
+    throw new Error(`Failed to fetch user phone number: ${error.message}`);
+  }
+
+  if (!userProfile?.phone_number) {
+    throw new Error('No phone number on file for user');
+  }
+
+  if (!userProfile.phone_verified_at) {
+    throw new Error('Phone number has not been verified');
+  }
+
+  return userProfile.phone_number;
+}
+
+// Mark a scheduled check-in call as answered once Twilio reaches the webhook
+async function markScheduledCallAnswered(
+  supabase: SupabaseClient,
+  scheduledCallId: string,
+  callSid: string,
+  requestId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_calls')
+    .update({
+      status: 'answered',
+      answered_at: new Date().toISOString(),
+      call_sid: callSid
+    })
+    .eq('id', scheduledCallId)
+    .eq('status', 'dialing');
+
+  if (error) {
+    // Recording the outcome must never break the live call
+    logWithContext('WARN', 'Failed to mark scheduled call as answered', requestId, {
+      scheduledCallId,
+      error: error.message
+    });
+    return;
+  }
+
+  logWithContext('INFO', 'Scheduled call marked as answered', requestId, { scheduledCallId, callSid });
+}
+
+// Create the call log row before dialing so the voicemail can be rendered against it
+async function createOutboundCall(
+  supabase: SupabaseClient,
+  userId: string,
+  scheduledCallId: string | null,
+  requestId: string
+): Promise<string> {
+  const { data: call, error } = await supabase
+    .from('calls')
+    .insert({
+      user_id: userId,
+      channel: 'phone',
+      direction: 'outbound',
+      scheduled_call_id: scheduledCallId
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logWithContext('ERROR', 'Error creating call', requestId, {
+      error: error.message,
+      code: error.code,
+      userId
+    });
+    throw new Error(`Failed to create call: ${error.message}`);
+  }
+
+  logWithContext('INFO', 'Call log created before dialing', requestId, { callId: call.id });
+  return call.id;
+}
+
+// Find or create the call log row for this call and load the turns spoken so far.
+// Outbound calls carry the call log id in the webhook URL; otherwise the CallSid is used.
+async function loadPhoneCall(
+  supabase: SupabaseClient,
+  callSid: string,
+  callId: string | null,
+  userId: string,
+  scheduledCallId: string | null,
+  requestId: string
+): Promise<PhoneCall> {
+  const callQuery = supabase
+    .from('calls')
+    .select('id, started_at, voicemail_text, voicemail_audio_path');
+
+  const { data: existingCall, error: selectError } = await (callId
+    ? callQuery.eq('id', callId)
+    : callQuery.eq('call_sid', callSid)
+  ).maybeSingle();
+
+  if (selectError) {
+    logWithContext('ERROR', 'Error loading call', requestId, {
+      error: selectError.message,
+      code: selectError.code,
+      callSid
+    });
+    throw new Error(`Failed to load call: ${selectError.message}`);
+  }
+
+  let call = existingCall;
+
+  if (!call) {
+    const { data: createdCall, error: insertError } = await supabase
+      .from('calls')
+      .insert({
+        user_id: userId,
+        channel: 'phone',
+        direction: 'outbound',
+        call_sid: callSid,
+        scheduled_call_id: scheduledCallId
+      })
+      .select('id, started_at, voicemail_text, voicemail_audio_path')
+      .single();
+
+    if (insertError) {
+      logWithContext('ERROR', 'Error creating call', requestId, {
+        error: insertError.message,
+        code: insertError.code,
+        callSid
+      });
+      throw new Error(`Failed to create call: ${insertError.message}`);
+    }
+
+    call = createdCall;
+    logWithContext('INFO', 'Call log created', requestId, { callSid, callId: call.id });
+  }
+
+  const { data: turns, error: turnsError } = await supabase
+    .from('call_turns')
+    .select('role, content')
+    .eq('call_id', call.id)
+    .order('turn_index', { ascending: true });
+
+  if (turnsError) {
+    logWithContext('ERROR', 'Error loading call turns', requestId, {
+      error: turnsError.message,
+      code: turnsError.code,
+      callId: call.id
+    });
+    throw new Error(`Failed to load call turns: ${turnsError.message}`);
+  }
+
+  logWithContext('INFO', 'Call turns loaded', requestId, { callSid, callId: call.id, turnsCount: turns?.length || 0 });
+
+  return {
+    id: call.id,
+    startedAt: call.started_at,
+    turns: turns || [],
+    voicemail: call.voicemail_text
+      ? { text: call.voicemail_text, audioPath: call.voicemail_audio_path }
+      : null
+  };
+}
+
+// Copy spoken audio into the call-audio bucket so the call log can play it back
+async function archiveTurnAudio(
+  supabase: SupabaseClient,
+  callId: string,
+  fileName: string,
+  audioBlob: Blob,
+  requestId: string
+): Promise<string | null> {
+  const audioPath = `${callId}/${fileName}.mp3`;
+
+  const { error } = await supabase.storage
+    .from('call-audio')
+    .upload(audioPath, audioBlob, {
+      contentType: 'audio/mpeg',
+      upsert: true
+    });
+
+  if (error) {
+    // Missing playback audio must never break the live call
+    logWithContext('WARN', 'Failed to archive turn audio', requestId, { audioPath, error: error.message });
+    return null;
+  }
+
+  return audioPath;
+}
+
+// Append new turns to the call log and refresh the call's running duration
+async function appendCallTurns(
+  supabase: SupabaseClient,
+  call: PhoneCall,
+  userId: string,
+  turns: LoggedTurn[],
+  requestId: string
+): Promise<void> {
+  const rows = turns.map((turn, index) => ({
+    call_id: call.id,
+    user_id: userId,
+    turn_index: call.turns.length + index,
+    role: turn.role,
+    content: turn.content,
+    audio_path: turn.audioPath || null
+  }));
+
+  const { error: insertError } = await supabase
+    .from('call_turns')
+    .insert(rows);
+
+  if (insertError) {
+    logWithContext('ERROR', 'Error saving call turns', requestId, {
+      error: insertError.message,
+      code: insertError.code,
+      callId: call.id
+    });
+    throw new Error(`Failed to save call turns: ${insertError.message}`);
+  }
+
+  const endedAt = new Date();
+  const { error: updateError } = await supabase
+    .from('calls')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_seconds: Math.round((endedAt.getTime() - new Date(call.startedAt).getTime()) / 1000)
+    })
+    .eq('id', call.id);
+
+  if (updateError) {
+    logWithContext('WARN', 'Failed to update call duration', requestId, { callId: call.id, error: updateError.message });
+  }
+
+  logWithContext('INFO', 'Call turns saved', requestId, { callId: call.id, turnsAdded: rows.length });
+}
+
+// Generate a random six-digit verification code
+function generateVerificationCode(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1000000;
+  return value.toString().padStart(6, '0');
+}
+
+// Hash a verification code together with the user and number it was issued for
+async function hashVerificationCode(userId: string, phoneNumber: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${phoneNumber}:${code}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Send a text message using Twilio
+async function sendSms(
+  toNumber: string,
+  fromNumber: string,
+  body: string,
+  twilioAccountSid: string,
+  twilioAuthToken: string,
+  requestId: string
+): Promise<void> {
+  logWithContext('INFO', 'Sending SMS', requestId, {
+    toNumber: toNumber.substring(0, 6) + '***' // Mask phone number for privacy
+  });
+
+  const auth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({
+      To: toNumber,
+      From: fromNumber,
+      Body: body
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    logWithContext('ERROR', 'Twilio SMS API error', requestId, {
+      status: response.status,
+      error: errorData
+    });
+    throw new Error(`Twilio API error (${response.status}): ${errorData}`);
+  }
+
+  logWithContext('INFO', 'SMS sent successfully', requestId);
+}
+
+// Generate the future self's next reply, save it with the turns that led to it and return the TwiML that speaks it
+async function speakNextTurn(
+  supabase: SupabaseClient,
+  call: PhoneCall,
   userId: string,
+  newTurns: LoggedTurn[],
   context: string,
   supabaseUrl: string,
+  ttsProviders: TtsProvider[],
+  requestId: string
+): Promise<string> {
+  // Get AI response, letting the future self act on what was said
+  const aiReply = await getAIResponse(userId, context, [...call.turns, ...newTurns], 'phone', call.id, supabaseUrl, requestId);
+  const aiResponseText = aiReply.message;
+  const actionTurns: LoggedTurn[] = aiReply.actions.map(action => ({ role: 'action', content: action }));
+
+  // Get user's voice preference
+  const voicePreference = await getUserVoicePreference(supabase, userId, requestId);
+
+  // Generate speech from AI response; without it Twilio reads the reply out itself
+  const speech = await generateSpeech(supabase, aiResponseText, voicePreference, ttsProviders, requestId);
+
+  // Save the updated conversation, with the reply audio for call log playback
+  const audioPath = speech
+    ? await archiveTurnAudio(supabase, call.id, String(call.turns.length + newTurns.length + actionTurns.length), speech.audioBlob, requestId)
+    : null;
+  await appendCallTurns(supabase, call, userId, [...newTurns, ...actionTurns, { role: 'assistant', content: aiResponseText, audioPath }], requestId);
+
+  // Generate TwiML response
+  const webhookUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/twiml-webhook`;
+  const twimlResponse = generateTwiML(speech?.audioUrl || null, aiResponseText, webhookUrl, userId, call.id);
+
+  logWithContext('INFO', 'TwiML response generated successfully', requestId, {
+    twimlLength: twimlResponse.length,
+    audioUrl: speech?.audioUrl || null
+  });
+
+  return twimlResponse;
+}
+
+// Create the call log row for a call the user placed to the Twilio number
+async function createInboundCall(
+  supabase: SupabaseClient,
+  callSid: string,
+  userId: string,
+  requestId: string
+): Promise<PhoneCall> {
+  const { data: call, error } = await supabase
+    .from('calls')
+    .insert({
+      user_id: userId,
+      channel: 'phone',
+      direction: 'inbound',
+      call_sid: callSid
+    })
+    .select('id, started_at')
+    .single();
+
+  if (error) {
+    logWithContext('ERROR', 'Error creating inbound call', requestId, {
+      error: error.message,
+      code: error.code,
+      callSid
+    });
+    throw new Error(`Failed to create call: ${error.message}`);
+  }
+
+  logWithContext('INFO', 'Inbound call log created', requestId, { callSid, callId: call.id });
+  return { id: call.id, startedAt: call.started_at, turns: [], voicemail: null };
+}
+
+// Titles of the goals that made a scheduled check-in due
+async function getScheduledGoalTitles(
+  supabase: SupabaseClient,
+  scheduledCallId: string,
+  requestId: string
+): Promise<string[]> {
+  const { data: scheduledCall, error } = await supabase
+    .from('scheduled_calls')
+    .select('goal_ids')
+    .eq('id', scheduledCallId)
+    .single();
+
+  if (error || !scheduledCall?.goal_ids?.length) {
+    return [];
+  }
+
+  const { data: goals, error: goalsError } = await supabase
+    .from('goals')
+    .select('title')
+    .in('id', scheduledCall.goal_ids);
+
+  if (goalsError) {
+    logWithContext('WARN', 'Failed to fetch goals for voicemail', requestId, { scheduledCallId, error: goalsError.message });
+    return [];
+  }
+
+  return (goals || []).map((goal: { title: string }) => goal.title);
+}
+
+// Render the voicemail before dialing so it can play the moment a machine's beep is detected
+async function renderVoicemail(
+  supabase: SupabaseClient,
+  callId: string,
+  userId: string,
+  scheduledCallId: string | null,
+  supabaseUrl: string,
+  ttsProviders: TtsProvider[],
+  requestId: string
+): Promise<void> {
+  try {
+    const goalTitles = scheduledCallId ? await getScheduledGoalTitles(supabase, scheduledCallId, requestId) : [];
+    // The titles are user-written, so they are passed as data rather than as part of the instruction
+    const goalSummary = goalTitles.length > 0
+      ? 'the goals this check-in is about, whose titles are in the goal_titles block below'
+      : 'the goals they are working on today';
+    const titlesBlock = goalTitles.length > 0
+      ? `\n\n${formatUserDataBlock('goal_titles', goalTitles.map(title => JSON.stringify(sanitizePromptText(title))).join('\n'))}`
+      : '';
+    const context = `The user did not pick up, so this message will be left on their voicemail. Keep it under 30 seconds and do not ask questions. Briefly summarize ${goalSummary}, encourage them, and say you will talk soon.${titlesBlock}`;
+
+    const { message: voicemailText } = await getAIResponse(userId, context, [], null, null, supabaseUrl, requestId);
+    const voicePreference = await getUserVoicePreference(supabase, userId, requestId);
+    const speech = await generateSpeech(supabase, voicemailText, voicePreference, ttsProviders, requestId);
+
+    // Without archived audio the voicemail is read out with <Say>
+    const audioPath = speech ? await archiveTurnAudio(supabase, callId, 'voicemail', speech.audioBlob, requestId) : null;
+
+    const { error } = await supabase
+      .from('calls')
+      .update({ voicemail_text: voicemailText, voicemail_audio_path: audioPath })
+      .eq('id', callId);
+
+    if (error) {
+      throw new Error(`Failed to save voicemail: ${error.message}`);
+    }
+
+    logWithContext('INFO', 'Voicemail rendered', requestId, { callId, audioPath, textLength: voicemailText.length });
+
+  } catch (error) {
+    // The call still goes out without a voicemail; a machine pickup then just hangs up
+    logWithContext('WARN', 'Failed to render voicemail', requestId, {
+      callId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Play the pre-rendered voicemail to an answering machine and log it on the call
+async function leaveVoicemail(
+  supabase: SupabaseClient,
+  call: PhoneCall,
+  userId: string,
   requestId: string
 ): Promise<string> {
-  logWithContext('INFO', 'Calling OpenAI chat completion Edge Function', requestId, { userId, context });
+  if (!call.voicemail) {
+    logWithContext('WARN', 'Machine answered but no voicemail was rendered, hanging up', requestId, { callId: call.id });
+    return generateHangupTwiML();
+  }
+
+  // Twilio fetches the audio itself, so hand it a short-lived signed URL to the private bucket
+  let audioUrl: string | null = null;
+  if (call.voicemail.audioPath) {
+    const { data: signedUrlData, error } = await supabase.storage
+      .from('call-audio')
+      .createSignedUrl(call.voicemail.audioPath, 600);
+
+    if (error || !signedUrlData) {
+      logWithContext('ERROR', 'Failed to sign voicemail audio URL, hanging up', requestId, {
+        callId: call.id,
+        error: error?.message
+      });
+      return generateHangupTwiML();
+    }
+
+    audioUrl = signedUrlData.signedUrl;
+  }
+
+  await appendCallTurns(supabase, call, userId, [
+    { role: 'assistant', content: call.voicemail.text, audioPath: call.voicemail.audioPath }
+  ], requestId);
+
+  const { error: outcomeError } = await supabase
+    .from('calls')
+    .update({ outcome: 'voicemail_left' })
+    .eq('id', call.id);
+
+  if (outcomeError) {
+    logWithContext('WARN', 'Failed to record voicemail outcome', requestId, { callId: call.id, error: outcomeError.message });
+  }
+
+  logWithContext('INFO', 'Leaving voicemail', requestId, { callId: call.id, spokenBy: audioUrl ? 'audio' : 'say' });
+  return generateVoicemailTwiML(audioUrl, call.voicemail.text);
+}
+
+// Look up what Twilio billed for a call; the price is often not settled yet when the call ends
+async function fetchCallPrice(
+  callSid: string,
+  twilioAccountSid: string,
+  twilioAuthToken: string,
+  requestId: string
+): Promise<{ price: number | null; priceUnit: string | null }> {
+  try {
+    const auth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Calls/${callSid}.json`, {
+      headers: { 'Authorization': `Basic ${auth}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio API error (${response.status}): ${await response.text()}`);
+    }
+
+    const callData = await response.json();
+
+    return {
+      price: callData.price !== null && callData.price !== undefined ? Number(callData.price) : null,
+      priceUnit: callData.price_unit || null
+    };
+
+  } catch (error) {
+    // A missing price must never block recording the outcome
+    logWithContext('WARN', 'Failed to fetch call price', requestId, {
+      callSid,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { price: null, priceUnit: null };
+  }
+}
+
+// Record the final outcome of a phone call, creating the call log row if it is missing
+async function recordCallOutcome(
+  supabase: SupabaseClient,
+  record: CallOutcomeRecord,
+  requestId: string
+): Promise<RecordedOutcome> {
+  const callQuery = supabase
+    .from('calls')
+    .select('id, outcome');
+
+  const { data: existingCall, error: selectError } = await (record.callId
+    ? callQuery.eq('id', record.callId)
+    : callQuery.eq('call_sid', record.callSid)
+  ).maybeSingle();
+
+  if (selectError) {
+    throw new Error(`Failed to load call: ${selectError.message}`);
+  }
+
+  // Twilio reports a machine pickup as completed; keep the voicemail the webhook left
+  const outcome: RecordedOutcome = record.outcome === 'completed' && existingCall?.outcome === 'voicemail_left'
+    ? 'voicemail_left'
+    : record.outcome;
+
+  const fields = {
+    call_sid: record.callSid,
+    status: 'completed',
+    outcome,
+    ended_at: new Date().toISOString(),
+    duration_seconds: record.durationSeconds,
+    price: record.price,
+    price_unit: record.priceUnit
+  };
+
+  if (!existingCall && !record.userId) {
+    // Unknown inbound callers never get a call log row
+    logWithContext('INFO', 'No call log for status callback, skipping', requestId, { callSid: record.callSid });
+    return outcome;
+  }
+
+  const { error } = existingCall
+    ? await supabase
+      .from('calls')
+      .update(fields)
+      .eq('id', existingCall.id)
+    : await supabase
+      .from('calls')
+      .insert({
+        ...fields,
+        user_id: record.userId,
+        channel: 'phone',
+        scheduled_call_id: record.scheduledCallId
+      });
+
+  if (error) {
+    logWithContext('ERROR', 'Error recording call outcome', requestId, {
+      error: error.message,
+      code: error.code,
+      callSid: record.callSid
+    });
+    throw new Error(`Failed to record call outcome: ${error.message}`);
+  }
+
+  logWithContext('INFO', 'Call outcome recorded', requestId, {
+    callSid: record.callSid,
+    outcome,
+    durationSeconds: record.durationSeconds,
+    price: record.price
+  });
+
+  return outcome;
+}
+
+// Remember the facts the user shared on a completed call. Best-effort: a failure is logged
+// and never fails the status callback
+async function rememberCallFacts(
+  supabase: SupabaseClient,
+  callSid: string,
+  callId: string | null,
+  llm: LlmProvider,
+  requestId: string
+): Promise<void> {
+  try {
+    const callQuery = supabase
+      .from('calls')
+      .select('id');
+
+    const { data: call, error } = await (callId
+      ? callQuery.eq('id', callId)
+      : callQuery.eq('call_sid', callSid)
+    ).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load call: ${error.message}`);
+    }
+
+    if (!call) {
+      return;
+    }
+
+    const stored = await extractMemoriesFromCall(supabase, call.id, llm);
+    logWithContext('INFO', 'Extracted memories from call', requestId, { callSid, stored });
+  } catch (error) {
+    logWithContext('WARN', 'Failed to extract memories from call', requestId, {
+      callSid,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Settle the scheduled check-in behind a call: mark it answered, queue a retry or give up
+async function applyRetryPolicy(
+  supabase: SupabaseClient,
+  scheduledCallId: string,
+  callSid: string,
+  outcome: RecordedOutcome,
+  requestId: string
+): Promise<void> {
+  const { data: scheduledCall, error: selectError } = await supabase
+    .from('scheduled_calls')
+    .select('id, status, attempt_count, window_end')
+    .eq('id', scheduledCallId)
+    .single();
+
+  if (selectError) {
+    throw new Error(`Failed to load scheduled call: ${selectError.message}`);
+  }
+
+  // Only the attempt that is still dialing is settled here; the TwiML webhook may already have marked it answered
+  if (scheduledCall.status !== 'dialing') {
+    await supabase
+      .from('scheduled_calls')
+      .update({ last_outcome: outcome })
+      .eq('id', scheduledCallId);
+
+    logWithContext('INFO', 'Scheduled call already settled, outcome recorded', requestId, {
+      scheduledCallId,
+      status: scheduledCall.status,
+      outcome
+    });
+    return;
+  }
+
+  const now = new Date();
+  let update: Record<string, unknown>;
+
+  if (outcome === 'completed') {
+    update = { status: 'answered', answered_at: now.toISOString() };
+  } else {
+    const rule = RETRY_POLICY[outcome];
+    const nextAttemptAt = new Date(now.getTime() + rule.delayMinutes * 60 * 1000);
+    const canRetry = scheduledCall.attempt_count <= rule.retries && nextAttemptAt < new Date(scheduledCall.window_end);
+
+    update = {
+      status: canRetry ? 'pending' : rule.finalStatus,
+      next_attempt_at: canRetry ? nextAttemptAt.toISOString() : now.toISOString()
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from('scheduled_calls')
+    .update({ ...update, call_sid: callSid, last_outcome: outcome })
+    .eq('id', scheduledCallId)
+    .eq('status', 'dialing');
+
+  if (updateError) {
+    throw new Error(`Failed to update scheduled call: ${updateError.message}`);
+  }
+
+  logWithContext('INFO', 'Retry policy applied to scheduled call', requestId, {
+    scheduledCallId,
+    outcome,
+    attemptCount: scheduledCall.attempt_count,
+    status: update.status,
+    nextAttemptAt: update.next_attempt_at || null
+  });
+}
+
+// Call OpenAI chat completion Edge Function. Passing the channel lets the future self take actions;
+// the call id links any safety event raised by the user's last turn to this call.
+async function getAIResponse(
+  userId: string,
+  context: string,
+  history: ConversationTurn[],
+  channel: 'phone' | null,
+  callId: string | null,
+  supabaseUrl: string,
+  requestId: string
+): Promise<AIReply> {
+  logWithContext('INFO', 'Calling OpenAI chat completion Edge Function', requestId, {
+    userId,
+    context,
+    historyTurns: history.length
+  });
 
   try {
     const edgeFunctionUrl = `${supabaseUrl}/functions/v1/openai-chat-completion`;
@@ -287,7 +1032,10 @@ async function getAIResponse(
       },
       body: JSON.stringify({
         user_id: userId,
-        context: context
+        context: context,
+        history: history,
+        ...(channel && { channel }),
+        ...(callId && { call_id: callId })
       })
     });
 
@@ -308,10 +1056,11 @@ async function getAIResponse(
     }
 
     logWithContext('INFO', 'AI response generated successfully', requestId, { 
-      messageLength: result.message.length 
+      messageLength: result.message.length,
+      actions: result.actions
     });
 
-    return result.message;
+    return { message: result.message, actions: result.actions || [] };
 
   } catch (error) {
     logWithContext('ERROR', 'Error calling OpenAI Edge Function', requestId, {
@@ -322,117 +1071,172 @@ async function getAIResponse(
   }
 }
 
-// Call ElevenLabs TTS Edge Function and upload to storage
+// Look up previously rendered audio for this voice, model and text
+async function getCachedSpeech(
+  supabase: SupabaseClient,
+  cacheKey: string,
+  requestId: string
+): Promise<{ storagePath: string; audioBlob: Blob } | null> {
+  const { data: entry } = await supabase
+    .from('tts_cache')
+    .select('storage_path')
+    .eq('cache_key', cacheKey)
+    .maybeSingle();
+
+  if (!entry) {
+    return null;
+  }
+
+  const { data: audioBlob, error: downloadError } = await supabase.storage
+    .from(TTS_CACHE_BUCKET)
+    .download(entry.storage_path);
+
+  if (downloadError || !audioBlob) {
+    // The entry outlived its audio; render it again
+    logWithContext('WARN', 'Cached speech missing from storage', requestId, { cacheKey, error: downloadError?.message });
+    return null;
+  }
+
+  // Keep frequently used phrases from expiring
+  await supabase
+    .from('tts_cache')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('cache_key', cacheKey);
+
+  return { storagePath: entry.storage_path, audioBlob };
+}
+
+// Render speech with the TTS provider chain, reusing cached audio for text that was already
+// rendered. Returns null when no provider could render it or the audio could not be stored and
+// signed for Twilio, so the caller can fall back to <Say>.
 async function generateSpeech(
+  supabase: SupabaseClient,
   text: string,
   voiceId: string,
-  supabaseUrl: string,
-  supabaseAnonKey: string,
+  ttsProviders: TtsProvider[],
   requestId: string
-): Promise<string> {
-  logWithContext('INFO', 'Calling ElevenLabs TTS Edge Function', requestId, { 
-    textLength: text.length, 
-    voiceId 
-  });
-
+): Promise<{ audioUrl: string; audioBlob: Blob } | null> {
   try {
-    const edgeFunctionUrl = `${supabaseUrl}/functions/v1/elevenlabs-proxy/tts`;
-    
-    const response = await fetch(edgeFunctionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`
-      },
-      body: JSON.stringify({
-        voiceId: voiceId,
-        text: text
-      })
-    });
+    const primaryProvider = ttsProviders[0];
+    const cached = primaryProvider
+      ? await getCachedSpeech(supabase, await ttsCacheKey(voiceId, primaryProvider.modelId, text), requestId)
+      : null;
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      logWithContext('ERROR', 'ElevenLabs TTS Edge Function error', requestId, {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
+    let storagePath: string;
+    let audioBlob: Blob;
+
+    if (cached) {
+      logWithContext('INFO', 'Using cached speech', requestId, { provider: primaryProvider.name, voiceId });
+      ({ storagePath, audioBlob } = cached);
+    } else {
+      logWithContext('INFO', 'Rendering speech', requestId, { 
+        textLength: text.length, 
+        voiceId,
+        providers: ttsProviders.map(provider => provider.name)
       });
-      throw new Error(errorData.error || `ElevenLabs TTS failed: ${response.status}`);
-    }
 
-    const audioBlob = await response.blob();
-    
-    // Upload audio to Supabase Storage and return public URL
-    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey);
-    
-    const filename = `tts-${requestId}-${Date.now()}.mp3`;
-    const filePath = `temp/${filename}`; // Store in a 'temp' folder within the bucket
+      const rendered = await synthesizeWithFailover(ttsProviders, text, voiceId, (provider, error) => {
+        logWithContext('WARN', 'TTS provider failed, failing over', requestId, { provider: provider.name, error: error.message });
+      });
+
+      if (!rendered) {
+        logWithContext('WARN', 'No TTS provider could render speech, falling back to <Say>', requestId, { voiceId });
+        return null;
+      }
 
-    logWithContext('INFO', 'Uploading generated audio to Supabase Storage', requestId, { filePath, audioSize: audioBlob.size });
+      // Audio is cached under the provider that rendered it
+      const cacheKey = await ttsCacheKey(voiceId, rendered.provider.modelId, text);
+      audioBlob = rendered.audio;
+      storagePath = ttsCachePath(cacheKey);
 
-    const { data: uploadData, error: uploadError } = await supabaseClient.storage
-      .from('twilio-audio-cache')
-      .upload(filePath, audioBlob, {
-        contentType: 'audio/mpeg',
-        upsert: true // Overwrite if file with same name exists (unlikely with timestamp)
+      logWithContext('INFO', 'Uploading generated audio to TTS cache', requestId, {
+        storagePath,
+        provider: rendered.provider.name,
+        audioSize: audioBlob.size
       });
 
-    if (uploadError) {
-      logWithContext('ERROR', 'Failed to upload audio to Supabase Storage', requestId, { error: uploadError.message });
-      throw new Error(`Failed to upload audio to storage: ${uploadError.message}`);
+      const { error: uploadError } = await supabase.storage
+        .from(TTS_CACHE_BUCKET)
+        .upload(storagePath, audioBlob, {
+          contentType: 'audio/mpeg',
+          upsert: true // Another call may have rendered the same text concurrently
+        });
+
+      if (uploadError) {
+        logWithContext('ERROR', 'Failed to upload audio to Supabase Storage, falling back to <Say>', requestId, { error: uploadError.message });
+        return null;
+      }
+
+      const { error: cacheError } = await supabase
+        .from('tts_cache')
+        .upsert({
+          cache_key: cacheKey,
+          voice_id: voiceId,
+          model_id: rendered.provider.modelId,
+          storage_path: storagePath,
+          size_bytes: audioBlob.size,
+          last_used_at: new Date().toISOString()
+        });
+
+      if (cacheError) {
+        // The audio still plays; it just won't be reused
+        logWithContext('WARN', 'Failed to record TTS cache entry', requestId, { cacheKey, error: cacheError.message });
+      }
     }
 
-    const { data: publicUrlData } = supabaseClient.storage
-      .from('twilio-audio-cache')
-      .getPublicUrl(filePath);
+    // Twilio fetches the audio right away, so the URL only needs to outlive the request
+    const { data: signedUrlData, error: signedUrlError } = await supabase.storage
+      .from(TTS_CACHE_BUCKET)
+      .createSignedUrl(storagePath, TTS_SIGNED_URL_SECONDS);
 
-    const publicAudioUrl = publicUrlData.publicUrl;
+    if (signedUrlError || !signedUrlData) {
+      logWithContext('ERROR', 'Failed to sign audio URL, falling back to <Say>', requestId, { storagePath, error: signedUrlError?.message });
+      return null;
+    }
 
-    logWithContext('INFO', 'Speech uploaded and public URL generated successfully', requestId, { 
-      publicAudioUrl,
+    logWithContext('INFO', 'Speech ready with signed URL', requestId, { 
+      storagePath,
+      cached: !!cached,
       audioSize: audioBlob.size 
     });
 
-    return publicAudioUrl;
+    return { audioUrl: signedUrlData.signedUrl, audioBlob };
 
   } catch (error) {
-    logWithContext('ERROR', 'Error calling ElevenLabs TTS Edge Function or uploading audio', requestId, {
+    logWithContext('ERROR', 'Error rendering speech or uploading audio, falling back to <Say>', requestId, {
       error: error instanceof Error ? error.message : String(error),
       voiceId
     });
-    throw error;
+    return null;
   }
 }
 
-// Generate TwiML response using simple XML construction
-function generateTwiML(audioUrl: string, webhookUrl: string, userId: string): string {
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Play>${audioUrl}</Play>
-  <Gather input="speech" timeout="10" speechTimeout="auto" action="${webhookUrl}?user_id=${userId}" method="POST">
-    <Say voice="alice">Please respond when you're ready.</Say>
-  </Gather>
-  <Say voice="alice">I didn't hear a response. Have a great day!</Say>
-  <Hangup/>
-</Response>`;
-}
-
 // Initiate outbound call using Twilio
 async function initiateCall(
   toNumber: string,
   fromNumber: string,
   webhookUrl: string,
+  statusCallbackUrl: string,
   userId: string,
   twilioAccountSid: string,
   twilioAuthToken: string,
-  requestId: string
+  requestId: string,
+  callId: string,
+  scheduledCallId?: string
 ): Promise<string> {
   logWithContext('INFO', 'Initiating Twilio call', requestId, { 
     toNumber: toNumber.substring(0, 6) + '***', // Mask phone number for privacy
     fromNumber,
-    userId 
+    userId,
+    callId,
+    scheduledCallId
   });
 
+  const callbackParams = new URLSearchParams({ user_id: userId, call_id: callId });
+  if (scheduledCallId) {
+    callbackParams.set('scheduled_call_id', scheduledCallId);
+  }
+
   try {
     // Create Twilio client using basic auth
     const auth = btoa(`${twilioAccountSid}:${twilioAuthToken}`);
@@ -446,8 +1250,12 @@ async function initiateCall(
       body: new URLSearchParams({
         To: toNumber,
         From: fromNumber,
-        Url: `${webhookUrl}?user_id=${userId}`,
-        Method: 'POST'
+        Url: `${webhookUrl}?${callbackParams.toString()}`,
+        Method: 'POST',
+        StatusCallback: `${statusCallbackUrl}?${callbackParams.toString()}`,
+        StatusCallbackMethod: 'POST',
+        // Wait for the greeting to finish so a voicemail starts right after the beep
+        MachineDetection: 'DetectMessageEnd'
       })
     });
 
@@ -502,49 +1310,102 @@ Deno.serve(async (req) => {
 
   try {
     // Validate environment variables
-    const { supabaseUrl, supabaseServiceKey, supabaseAnonKey, twilioAccountSid, twilioAuthToken, twilioFromNumber } = validateEnvironment(requestId);
+    const { supabaseUrl, supabaseServiceKey, twilioAccountSid, twilioAuthToken, twilioFromNumber, clerkIssuer, llm, ttsProviders } = validateEnvironment(requestId);
 
     // Create Supabase admin client
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Route handling
     if (pathname.endsWith('/initiate-call')) {
-      // Handle call initiation - requires JWT authentication
+      // Handle call initiation - requires JWT authentication, or the service role key for scheduled calls
       logWithContext('INFO', 'Processing call initiation request', requestId);
 
-      // Extract user ID from JWT
       const authHeader = req.headers.get('authorization');
-      const userId = extractUserIdFromJWT(authHeader, requestId);
+      const isSchedulerRequest = constantTimeEquals(`Bearer ${supabaseServiceKey}`, authHeader || '');
 
       // Parse request body
       const requestBody: InitiateCallRequest = await req.json();
-      
-      if (!requestBody.user_id || !requestBody.to_phone_number) {
-        return createErrorResponse('Missing required fields: user_id and to_phone_number', requestId, 400);
-      }
 
-      // Verify the requesting user matches the user_id in the request
-      if (userId !== requestBody.user_id) {
-        logWithContext('ERROR', 'User ID mismatch', requestId, { 
-          jwtUserId: userId, 
-          requestUserId: requestBody.user_id 
+      if (isSchedulerRequest) {
+        if (!requestBody.user_id || !requestBody.scheduled_call_id) {
+          return createErrorResponse('Missing required fields: user_id and scheduled_call_id', requestId, 400);
+        }
+
+        logWithContext('INFO', 'Processing scheduled call initiation', requestId, {
+          userId: requestBody.user_id,
+          scheduledCallId: requestBody.scheduled_call_id
         });
-        return createErrorResponse('Unauthorized: User ID mismatch', requestId, 403);
+
+      } else {
+        // Extract user ID from JWT
+        const userId = await extractUserIdFromJWT(authHeader, clerkIssuer, requestId);
+
+        if (!requestBody.user_id) {
+          return createErrorResponse('Missing required field: user_id', requestId, 400);
+        }
+
+        // Verify the requesting user matches the user_id in the request
+        if (userId !== requestBody.user_id) {
+          logWithContext('ERROR', 'User ID mismatch', requestId, { 
+            jwtUserId: userId, 
+            requestUserId: requestBody.user_id 
+          });
+          return createErrorResponse('Unauthorized: User ID mismatch', requestId, 403);
+        }
+      }
+
+      // Scheduled check-ins honor quiet hours and vacations; calls the user asks for only need a profile
+      const decision = await checkContactPolicy(supabase, {
+        userId: requestBody.user_id,
+        channel: 'phone',
+        purpose: isSchedulerRequest ? 'check_in' : 'user_requested',
+        detail: { scheduled_call_id: requestBody.scheduled_call_id || null }
+      });
+
+      if (!decision.allowed) {
+        return createErrorResponse(`Call suppressed by contact policy: ${decision.reason}`, requestId, 409);
       }
 
-      // Construct webhook URL for TwiML responses
+      // Calls only ever go to the verified number on the profile, never one supplied by the client
+      const toPhoneNumber = await getUserPhoneNumber(supabase, requestBody.user_id, requestId);
+
+      // Construct webhook URLs for TwiML responses and the final call status
       const webhookUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/twiml-webhook`;
+      const statusCallbackUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/status-callback`;
+
+      const scheduledCallId = isSchedulerRequest ? requestBody.scheduled_call_id || null : null;
+
+      // Log the call and render a voicemail in case a machine picks up
+      const callId = await createOutboundCall(supabase, requestBody.user_id, scheduledCallId, requestId);
+      await renderVoicemail(supabase, callId, requestBody.user_id, scheduledCallId, supabaseUrl, ttsProviders, requestId);
 
       // Initiate the call
-      const callSid = await initiateCall(
-        requestBody.to_phone_number,
-        twilioFromNumber,
-        webhookUrl,
-        requestBody.user_id,
-        twilioAccountSid,
-        twilioAuthToken,
-        requestId
-      );
+      let callSid: string;
+      try {
+        callSid = await initiateCall(
+          toPhoneNumber,
+          twilioFromNumber,
+          webhookUrl,
+          statusCallbackUrl,
+          requestBody.user_id,
+          twilioAccountSid,
+          twilioAuthToken,
+          requestId,
+          callId,
+          scheduledCallId || undefined
+        );
+      } catch (error) {
+        await supabase
+          .from('calls')
+          .update({ status: 'completed', outcome: 'failed', ended_at: new Date().toISOString() })
+          .eq('id', callId);
+        throw error;
+      }
+
+      await supabase
+        .from('calls')
+        .update({ call_sid: callSid })
+        .eq('id', callId);
 
       return createSuccessResponse(
         'Call initiated successfully',
@@ -552,86 +1413,158 @@ Deno.serve(async (req) => {
         callSid
       );
 
-    } else if (pathname.endsWith('/twiml-webhook')) {
-      // Handle TwiML webhook requests from Twilio - requires signature validation
-      logWithContext('INFO', 'Processing TwiML webhook request', requestId);
+    } else if (pathname.endsWith('/send-verification')) {
+      // Text a one-time code to the number the user wants calls on - requires JWT authentication
+      logWithContext('INFO', 'Processing phone verification request', requestId);
 
-      // Get Twilio signature from headers
-      const twilioSignature = req.headers.get('x-twilio-signature');
-      if (!twilioSignature) {
-        logWithContext('ERROR', 'Missing Twilio signature header', requestId, {
-          availableHeaders: Object.fromEntries(req.headers.entries())
-        });
-        return new Response('Missing Twilio signature', { 
-          status: 403,
-          headers: { 'Content-Type': 'text/plain' }
-        });
+      const userId = await extractUserIdFromJWT(req.headers.get('authorization'), clerkIssuer, requestId);
+      const requestBody: SendVerificationRequest = await req.json();
+      const phoneNumber = requestBody.phone_number?.trim();
+
+      if (!phoneNumber || !E164_PATTERN.test(phoneNumber)) {
+        return createErrorResponse('Phone number must be in international format, e.g. +15551234567', requestId, 400);
       }
 
-      // Get the raw body as text for signature validation
-      const rawBody = await req.text();
-      
-      // Parse the raw URL-encoded body into a params object
-      const params = Object.fromEntries(new URLSearchParams(rawBody));
-
-      // Reconstruct the exact HTTPS URL that Twilio called
-      // CRITICAL: Use x-forwarded-host to get the original domain, fallback to host
-      const proto = req.headers.get('x-forwarded-proto') || 'https';
-      const forwardedHost = req.headers.get('x-forwarded-host');
-      const regularHost = req.headers.get('host');
-      const host = forwardedHost || regularHost;
-      
-      if (!host) {
-        logWithContext('ERROR', 'Missing host/x-forwarded-host headers for URL reconstruction', requestId, {
-          host: regularHost,
-          forwardedHost: forwardedHost,
-          allHeaders: Object.fromEntries(req.headers.entries())
-        });
-        return new Response('Missing host header', { 
-          status: 400,
-          headers: { 'Content-Type': 'text/plain' }
+      const { data: pendingVerification } = await supabase
+        .from('phone_verifications')
+        .select('last_sent_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (pendingVerification && Date.now() - new Date(pendingVerification.last_sent_at).getTime() < VERIFICATION_RESEND_SECONDS * 1000) {
+        return createErrorResponse(`Please wait ${VERIFICATION_RESEND_SECONDS} seconds before requesting another code`, requestId, 429);
+      }
+
+      // Verification codes are transactional, but still never go to a user who replied STOP
+      const decision = await checkContactPolicy(supabase, { userId, channel: 'sms', purpose: 'transactional' });
+      if (!decision.allowed) {
+        const message = decision.reason === 'sms_opted_out'
+          ? 'You have opted out of texts. Reply START to our number to receive texts again.'
+          : `Text suppressed by contact policy: ${decision.reason}`;
+        return createErrorResponse(message, requestId, 409);
+      }
+
+      const code = generateVerificationCode();
+      const now = new Date();
+
+      const { error: upsertError } = await supabase
+        .from('phone_verifications')
+        .upsert({
+          user_id: userId,
+          phone_number: phoneNumber,
+          code_hash: await hashVerificationCode(userId, phoneNumber, code),
+          attempt_count: 0,
+          expires_at: new Date(now.getTime() + VERIFICATION_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+          last_sent_at: now.toISOString()
+        }, { onConflict: 'user_id' });
+
+      if (upsertError) {
+        logWithContext('ERROR', 'Error saving phone verification', requestId, {
+          error: upsertError.message,
+          code: upsertError.code,
+          userId
         });
+        throw new Error(`Failed to start phone verification: ${upsertError.message}`);
       }
-      
-      const { pathname, search } = new URL(req.url);
-      const fullPath = `/functions/v1${pathname}${search}`;
-      const fullUrl = `${proto}://${host}${fullPath}`;
-
-      logWithContext('INFO', 'Reconstructed URL for signature validation', requestId, {
-        originalHost: regularHost,
-        forwardedHost: forwardedHost,
-        selectedHost: host,
-        pathname: pathname,
-        search: search,
-        fullUrl: fullUrl,
-        rawBodyLength: rawBody.length,
-        paramsCount: Object.keys(params).length,
-        signaturePresent: !!twilioSignature
-      });
 
-      // Validate Twilio signature using our custom implementation
-      const isValidSignature = await validateTwilioSignature(
+      await sendSms(
+        phoneNumber,
+        twilioFromNumber,
+        `Your MyFutrSelf verification code is ${code}. It expires in ${VERIFICATION_CODE_TTL_MINUTES} minutes.`,
+        twilioAccountSid,
         twilioAuthToken,
-        twilioSignature,
-        fullUrl,
-        params,
         requestId
       );
 
-      if (!isValidSignature) {
-        logWithContext('ERROR', 'Invalid Twilio signature', requestId, {
-          providedSignature: twilioSignature.substring(0, 20) + '...',
-          url: fullUrl,
-          paramsCount: Object.keys(params).length,
-          rawBodyPreview: rawBody.substring(0, 200) + '...'
-        });
-        return new Response('Invalid Twilio signature', { 
-          status: 403,
-          headers: { 'Content-Type': 'text/plain' }
+      return createSuccessResponse('Verification code sent', requestId);
+
+    } else if (pathname.endsWith('/verify-phone')) {
+      // Confirm the one-time code and save the verified number on the profile - requires JWT authentication
+      logWithContext('INFO', 'Processing phone code confirmation', requestId);
+
+      const userId = await extractUserIdFromJWT(req.headers.get('authorization'), clerkIssuer, requestId);
+      const requestBody: VerifyPhoneRequest = await req.json();
+      const code = requestBody.code?.trim();
+
+      if (!code) {
+        return createErrorResponse('Missing required field: code', requestId, 400);
+      }
+
+      const { data: verification, error: verificationError } = await supabase
+        .from('phone_verifications')
+        .select('id, phone_number, code_hash, attempt_count, expires_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (verificationError) {
+        throw new Error(`Failed to load phone verification: ${verificationError.message}`);
+      }
+
+      if (!verification || new Date(verification.expires_at) < new Date()) {
+        return createErrorResponse('Verification code expired. Please request a new one.', requestId, 400);
+      }
+
+      if (verification.attempt_count >= MAX_VERIFICATION_ATTEMPTS) {
+        return createErrorResponse('Too many incorrect codes. Please request a new one.', requestId, 429);
+      }
+
+      if (await hashVerificationCode(userId, verification.phone_number, code) !== verification.code_hash) {
+        await supabase
+          .from('phone_verifications')
+          .update({ attempt_count: verification.attempt_count + 1 })
+          .eq('id', verification.id);
+
+        logWithContext('WARN', 'Incorrect verification code', requestId, { userId, attemptCount: verification.attempt_count + 1 });
+        return createErrorResponse('Incorrect verification code', requestId, 400);
+      }
+
+      // Inbound calls are matched by number, so a verified number can only belong to one account
+      const { data: existingOwner } = await supabase
+        .from('user_profiles')
+        .select('user_id')
+        .eq('phone_number', verification.phone_number)
+        .not('phone_verified_at', 'is', null)
+        .neq('user_id', userId)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingOwner) {
+        return createErrorResponse('This phone number is already verified on another account', requestId, 409);
+      }
+
+      const { error: profileError } = await supabase
+        .from('user_profiles')
+        .update({
+          phone_number: verification.phone_number,
+          phone_verified_at: new Date().toISOString()
+        })
+        .eq('user_id', userId);
+
+      if (profileError) {
+        logWithContext('ERROR', 'Error saving verified phone number', requestId, {
+          error: profileError.message,
+          code: profileError.code,
+          userId
         });
+        throw new Error(`Failed to save phone number: ${profileError.message}`);
       }
 
-      logWithContext('INFO', 'Twilio signature validated successfully', requestId);
+      await supabase
+        .from('phone_verifications')
+        .delete()
+        .eq('id', verification.id);
+
+      logWithContext('INFO', 'Phone number verified', requestId, { userId });
+      return createSuccessResponse('Phone number verified', requestId);
+
+    } else if (pathname.endsWith('/twiml-webhook')) {
+      // Handle TwiML webhook requests from Twilio - requires signature validation
+      logWithContext('INFO', 'Processing TwiML webhook request', requestId);
+
+      const params = await verifyTwilioRequest(req, twilioAuthToken, requestId);
+      if (params instanceof Response) {
+        return params;
+      }
 
       // Extract user_id from query parameters
       const userId = url.searchParams.get('user_id');
@@ -651,43 +1584,128 @@ Deno.serve(async (req) => {
         hasSpeechResult: !!params.SpeechResult,
         speechResult: params.SpeechResult || 'none',
         confidence: params.Confidence || 'none',
+        answeredBy: params.AnsweredBy || 'none',
         userId
       });
 
-      let aiResponseText: string;
+      // Reload everything said so far on this call so the future self keeps the thread
+      const callSid: string = params.CallSid;
+      const scheduledCallId = url.searchParams.get('scheduled_call_id');
+      const call = await loadPhoneCall(supabase, callSid, url.searchParams.get('call_id'), userId, scheduledCallId, requestId);
+
+      // Machine detection finishes before the first webhook hit, so answering machines never get the conversation
+      const answeredBy = params.AnsweredBy || '';
+      if (!params.SpeechResult && (answeredBy.startsWith('machine') || answeredBy === 'fax')) {
+        const machineTwiML = answeredBy === 'fax'
+          ? generateHangupTwiML()
+          : await leaveVoicemail(supabase, call, userId, requestId);
+
+        return new Response(machineTwiML, {
+          headers: {
+            'Content-Type': 'text/xml',
+            ...corsHeaders
+          }
+        });
+      }
+
+      const newTurns: LoggedTurn[] = [];
       let context: string;
 
-      if (params.SpeechResult) {
+      if (url.searchParams.get('fallback') === '1' && !params.SpeechResult) {
+        // The realtime stream dropped mid-call - carry on with the TwiML loop without greeting again
+        context = 'The line cut out for a moment during this motivational phone call. Briefly acknowledge it and pick up where you left off.';
+        logWithContext('WARN', 'Realtime stream ended, falling back to TwiML loop', requestId, {
+          callId: call.id,
+          historyTurns: call.turns.length
+        });
+      } else if (params.SpeechResult) {
         // User has spoken - this is a follow-up interaction
-        context = `The user just said: "${params.SpeechResult}". Please respond appropriately and continue the conversation about their goals.`;
+        newTurns.push({ role: 'user', content: params.SpeechResult });
+        context = 'This is an ongoing motivational phone call. Respond to what the user just said and continue the conversation about their goals.';
         logWithContext('INFO', 'Processing user speech input', requestId, { 
           speechResult: params.SpeechResult,
-          confidence: params.Confidence 
+          confidence: params.Confidence,
+          historyTurns: call.turns.length
         });
       } else {
         // Initial call - generate greeting
         context = 'This is the beginning of a motivational call. Greet the user warmly and ask how they are doing with their goals.';
         logWithContext('INFO', 'Generating initial greeting', requestId);
+
+        // The first webhook hit means a scheduled check-in was picked up
+        if (scheduledCallId) {
+          await markScheduledCallAnswered(supabase, scheduledCallId, callSid, requestId);
+        }
+
+        if (REALTIME_ENABLED) {
+          const webhookUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/twiml-webhook`;
+          const realtimeTwiML = await generateRealtimeTwiML(supabaseUrl, supabaseServiceKey, webhookUrl, userId, call.id);
+          logWithContext('INFO', 'Connecting call to realtime media stream', requestId, { callId: call.id });
+
+          return new Response(realtimeTwiML, {
+            headers: {
+              'Content-Type': 'text/xml',
+              ...corsHeaders
+            }
+          });
+        }
       }
 
-      // Get AI response
-      aiResponseText = await getAIResponse(userId, context, supabaseUrl, requestId);
+      const twimlResponse = await speakNextTurn(supabase, call, userId, newTurns, context, supabaseUrl, ttsProviders, requestId);
 
-      // Get user's voice preference
-      const voicePreference = await getUserVoicePreference(supabase, userId, requestId);
+      return new Response(twimlResponse, {
+        headers: {
+          'Content-Type': 'text/xml',
+          ...corsHeaders
+        }
+      });
 
-      // Generate speech from AI response
-      const audioUrl = await generateSpeech(aiResponseText, voicePreference, supabaseUrl, supabaseAnonKey, requestId);
+    } else if (pathname.endsWith('/inbound-call')) {
+      // Handle calls placed to the Twilio number - requires signature validation
+      logWithContext('INFO', 'Processing inbound call request', requestId);
 
-      // Generate TwiML response
-      const webhookUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/twiml-webhook`;
-      const twimlResponse = generateTwiML(audioUrl, webhookUrl, userId);
+      const params = await verifyTwilioRequest(req, twilioAuthToken, requestId);
+      if (params instanceof Response) {
+        return params;
+      }
+
+      const callSid: string = params.CallSid;
+      const userId = params.From ? (await findUserByPhoneNumber(supabase, params.From, requestId))?.userId || null : null;
 
-      logWithContext('INFO', 'TwiML response generated successfully', requestId, {
-        twimlLength: twimlResponse.length,
-        audioUrl: audioUrl
+      logWithContext('INFO', 'Inbound call data received', requestId, {
+        callSid,
+        from: params.From ? params.From.substring(0, 6) + '***' : 'none', // Mask phone number for privacy
+        knownCaller: !!userId
       });
 
+      if (!userId) {
+        return new Response(generateUnknownCallerTwiML(), {
+          headers: {
+            'Content-Type': 'text/xml',
+            ...corsHeaders
+          }
+        });
+      }
+
+      const call = await createInboundCall(supabase, callSid, userId, requestId);
+
+      if (REALTIME_ENABLED) {
+        const webhookUrl = `${supabaseUrl}/functions/v1/twilio-call-handler/twiml-webhook`;
+        const realtimeTwiML = await generateRealtimeTwiML(supabaseUrl, supabaseServiceKey, webhookUrl, userId, call.id);
+        logWithContext('INFO', 'Connecting inbound call to realtime media stream', requestId, { callId: call.id });
+
+        return new Response(realtimeTwiML, {
+          headers: {
+            'Content-Type': 'text/xml',
+            ...corsHeaders
+          }
+        });
+      }
+
+      const context = 'The user called you because they want a pep talk. Greet them warmly, thank them for reaching out and ask what is on their mind today.';
+
+      const twimlResponse = await speakNextTurn(supabase, call, userId, [], context, supabaseUrl, ttsProviders, requestId);
+
       return new Response(twimlResponse, {
         headers: {
           'Content-Type': 'text/xml',
@@ -695,6 +1713,59 @@ Deno.serve(async (req) => {
         }
       });
 
+    } else if (pathname.endsWith('/status-callback')) {
+      // Handle the final call status from Twilio - requires signature validation
+      logWithContext('INFO', 'Processing status callback request', requestId);
+
+      const params = await verifyTwilioRequest(req, twilioAuthToken, requestId);
+      if (params instanceof Response) {
+        return params;
+      }
+
+      // Inbound calls report their status from the number's configuration, without user_id
+      const userId = url.searchParams.get('user_id');
+
+      const callSid: string = params.CallSid;
+      const outcome = params.CallStatus as CallOutcome;
+
+      logWithContext('INFO', 'Status callback data received', requestId, {
+        callSid,
+        callStatus: params.CallStatus,
+        callDuration: params.CallDuration,
+        userId
+      });
+
+      if (!CALL_OUTCOMES.includes(outcome)) {
+        // Only the final status is subscribed to, but intermediate events are ignored just in case
+        logWithContext('INFO', 'Ignoring non-final call status', requestId, { callSid, callStatus: params.CallStatus });
+        return new Response(null, { status: 204, headers: corsHeaders });
+      }
+
+      const scheduledCallId = url.searchParams.get('scheduled_call_id');
+      const { price, priceUnit } = await fetchCallPrice(callSid, twilioAccountSid, twilioAuthToken, requestId);
+
+      const callId = url.searchParams.get('call_id');
+      const recordedOutcome = await recordCallOutcome(supabase, {
+        callSid,
+        callId,
+        userId,
+        scheduledCallId,
+        outcome,
+        durationSeconds: Number(params.CallDuration) || 0,
+        price,
+        priceUnit
+      }, requestId);
+
+      if (scheduledCallId) {
+        await applyRetryPolicy(supabase, scheduledCallId, callSid, recordedOutcome, requestId);
+      }
+
+      if (recordedOutcome === 'completed') {
+        await rememberCallFacts(supabase, callSid, callId, llm, requestId);
+      }
+
+      return new Response(null, { status: 204, headers: corsHeaders });
+
     } else {
       return createErrorResponse('Invalid endpoint', requestId, 404);
     }
@@ -0,0 +1,538 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyStreamToken } from '../_shared/stream-token.ts'
+import { synthesizeWithFailover, ttsProvidersFromEnv, type TtsProvider } from '../_shared/tts-provider.ts'
+import {
+  isUnclearTranscript,
+  REPEAT_PROMPT,
+  streamingSttProviderFromEnv,
+  type LiveTranscription,
+  type StreamingSttProvider,
+  type Transcript
+} from '../_shared/stt-provider.ts'
+
+// ElevenLabs model used for streamed replies; turbo keeps time-to-first-audio low
+const ELEVENLABS_STREAMING_MODEL = 'eleven_turbo_v2';
+
+// One second of 8kHz μ-law audio per media message
+const MEDIA_CHUNK_BYTES = 8000;
+
+interface ConversationTurn {
+  role: 'user' | 'assistant' | 'action';
+  content: string;
+}
+
+interface AIReply {
+  message: string;
+  actions: string[]; // Actions the future self took before replying
+}
+
+// Twilio Media Streams messages this function reacts to
+interface TwilioStreamMessage {
+  event: 'connected' | 'start' | 'media' | 'mark' | 'stop';
+  streamSid?: string;
+  start?: {
+    streamSid: string;
+    callSid: string;
+    customParameters: Record<string, string>;
+  };
+  media?: {
+    track: string;
+    payload: string; // Base64 μ-law audio
+  };
+  mark?: {
+    name: string;
+  };
+}
+
+interface StreamEnvironment {
+  supabaseUrl: string;
+  supabaseServiceKey: string;
+  sttProvider: StreamingSttProvider;
+  ttsProviders: TtsProvider[];
+}
+
+interface RealtimeSession {
+  streamSid: string | null;
+  callId: string | null;
+  userId: string | null;
+  voiceId: string;
+  startedAt: string | null;
+  turns: ConversationTurn[];
+  transcription: LiveTranscription | null;
+  isSpeaking: boolean;
+  speechAbort: AbortController | null;
+  responseSequence: number;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): StreamEnvironment {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  // The providers check their own settings (DEEPGRAM_API_KEY, TTS_PROVIDERS and their keys)
+  const sttProvider = streamingSttProviderFromEnv();
+  const ttsProviders = ttsProvidersFromEnv(ELEVENLABS_STREAMING_MODEL);
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId, {
+    sttProvider: sttProvider.name,
+    ttsProviders: ttsProviders.map(provider => provider.name)
+  });
+  return { supabaseUrl, supabaseServiceKey, sttProvider, ttsProviders };
+}
+
+// Decode a base64 Media Streams payload into raw μ-law bytes
+function decodeBase64(payload: string): Uint8Array {
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Encode raw μ-law bytes as a base64 Media Streams payload
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Call OpenAI chat completion Edge Function. Passing the channel lets the future self take actions;
+// the call id links any safety event raised by the user's last turn to this call.
+async function getAIResponse(
+  userId: string,
+  context: string,
+  history: ConversationTurn[],
+  channel: 'phone' | null,
+  callId: string | null,
+  env: StreamEnvironment,
+  requestId: string
+): Promise<AIReply> {
+  const response = await fetch(`${env.supabaseUrl}/functions/v1/openai-chat-completion`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${env.supabaseServiceKey}`
+    },
+    body: JSON.stringify({
+      user_id: userId,
+      context,
+      history,
+      ...(channel && { channel }),
+      ...(callId && { call_id: callId })
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    logWithContext('ERROR', 'OpenAI Edge Function error', requestId, {
+      status: response.status,
+      error: result.error
+    });
+    throw new Error(result.error || `OpenAI Edge Function failed: ${response.status}`);
+  }
+
+  return { message: result.message, actions: result.actions || [] };
+}
+
+// Load the call log row, the conversation so far and the user's voice
+async function loadCall(
+  supabase: SupabaseClient,
+  session: RealtimeSession,
+  requestId: string
+): Promise<'outbound' | 'inbound'> {
+  const { data: call, error: callError } = await supabase
+    .from('calls')
+    .select('started_at, direction')
+    .eq('id', session.callId)
+    .single();
+
+  if (callError) {
+    throw new Error(`Failed to load call: ${callError.message}`);
+  }
+
+  const { data: turns, error: turnsError } = await supabase
+    .from('call_turns')
+    .select('role, content')
+    .eq('call_id', session.callId)
+    .order('turn_index', { ascending: true });
+
+  if (turnsError) {
+    throw new Error(`Failed to load call turns: ${turnsError.message}`);
+  }
+
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select('voice_preference')
+    .eq('user_id', session.userId)
+    .single();
+
+  session.startedAt = call.started_at;
+  session.turns = turns || [];
+  session.voiceId = userProfile?.voice_preference || 'friendly_mentor'; // Default voice
+
+  logWithContext('INFO', 'Realtime call loaded', requestId, {
+    callId: session.callId,
+    direction: call.direction,
+    turnsCount: session.turns.length
+  });
+
+  return call.direction;
+}
+
+// Save a turn to the call log and refresh the call's running duration
+async function saveTurn(
+  supabase: SupabaseClient,
+  session: RealtimeSession,
+  turn: ConversationTurn,
+  requestId: string
+): Promise<void> {
+  const turnIndex = session.turns.length;
+  session.turns.push(turn);
+
+  const { error } = await supabase
+    .from('call_turns')
+    .insert({
+      call_id: session.callId,
+      user_id: session.userId,
+      turn_index: turnIndex,
+      role: turn.role,
+      content: turn.content
+    });
+
+  if (error) {
+    // A missing transcript line must never break the live call
+    logWithContext('WARN', 'Failed to save realtime turn', requestId, { callId: session.callId, turnIndex, error: error.message });
+    return;
+  }
+
+  const endedAt = new Date();
+  await supabase
+    .from('calls')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_seconds: session.startedAt
+        ? Math.round((endedAt.getTime() - new Date(session.startedAt).getTime()) / 1000)
+        : null
+    })
+    .eq('id', session.callId);
+}
+
+// Render a reply with the TTS provider chain and play it into the call as μ-law frames
+async function speak(
+  socket: WebSocket,
+  session: RealtimeSession,
+  text: string,
+  env: StreamEnvironment,
+  requestId: string
+): Promise<void> {
+  const abort = new AbortController();
+  session.speechAbort = abort;
+  session.isSpeaking = true;
+
+  try {
+    const rendered = await synthesizeWithFailover(env.ttsProviders, text, session.voiceId, (provider, error) => {
+      logWithContext('WARN', 'TTS provider failed, failing over', requestId, { provider: provider.name, error: error.message });
+    }, 'ulaw_8000');
+
+    if (!rendered) {
+      throw new Error('No TTS provider could render the reply');
+    }
+
+    // The caller started talking while the reply was rendered
+    if (abort.signal.aborted) {
+      logWithContext('INFO', 'Reply interrupted by caller', requestId, { callId: session.callId });
+      return;
+    }
+
+    const audio = new Uint8Array(await rendered.audio.arrayBuffer());
+    for (let offset = 0; offset < audio.length; offset += MEDIA_CHUNK_BYTES) {
+      socket.send(JSON.stringify({
+        event: 'media',
+        streamSid: session.streamSid,
+        media: { payload: encodeBase64(audio.subarray(offset, offset + MEDIA_CHUNK_BYTES)) }
+      }));
+    }
+
+    // Twilio echoes the mark back once everything before it has played
+    socket.send(JSON.stringify({
+      event: 'mark',
+      streamSid: session.streamSid,
+      mark: { name: `reply-${session.turns.length}` }
+    }));
+
+  } catch (error) {
+    session.isSpeaking = false;
+    throw error;
+  } finally {
+    if (session.speechAbort === abort) {
+      session.speechAbort = null;
+    }
+  }
+}
+
+// Stop the future self mid-sentence when the caller starts talking
+function bargeIn(socket: WebSocket, session: RealtimeSession, requestId: string) {
+  if (!session.isSpeaking) {
+    return;
+  }
+
+  session.speechAbort?.abort();
+  session.isSpeaking = false;
+
+  // Drop any audio Twilio has buffered but not yet played
+  socket.send(JSON.stringify({ event: 'clear', streamSid: session.streamSid }));
+  logWithContext('INFO', 'Caller barged in, playback cleared', requestId, { callId: session.callId });
+}
+
+// Reply to a finished caller utterance
+async function respond(
+  socket: WebSocket,
+  supabase: SupabaseClient,
+  session: RealtimeSession,
+  transcript: Transcript,
+  env: StreamEnvironment,
+  requestId: string
+): Promise<void> {
+  const sequence = ++session.responseSequence;
+
+  // Replying to a garbled transcript only confuses the conversation, so ask for it again.
+  // Nothing is saved to the call log.
+  if (isUnclearTranscript(transcript)) {
+    logWithContext('INFO', 'Transcript not confident enough, asking the caller to repeat', requestId, {
+      callId: session.callId,
+      confidence: transcript.confidence,
+      textLength: transcript.text.length
+    });
+    await speak(socket, session, REPEAT_PROMPT, env, requestId);
+    return;
+  }
+
+  await saveTurn(supabase, session, { role: 'user', content: transcript.text }, requestId);
+
+  const reply = await getAIResponse(
+    session.userId as string,
+    'This is an ongoing live phone call. Respond to what the user just said in one to three short spoken sentences and keep the conversation about their goals going.',
+    session.turns,
+    'phone',
+    session.callId,
+    env,
+    requestId
+  );
+
+  // Actions already happened, so they stay in the transcript even if the reply is superseded
+  for (const action of reply.actions) {
+    await saveTurn(supabase, session, { role: 'action', content: action }, requestId);
+  }
+
+  // The caller kept talking while the reply was generated; the newer utterance answers instead
+  if (sequence !== session.responseSequence) {
+    logWithContext('INFO', 'Discarding superseded reply', requestId, { callId: session.callId });
+    return;
+  }
+
+  await saveTurn(supabase, session, { role: 'assistant', content: reply.message }, requestId);
+  await speak(socket, session, reply.message, env, requestId);
+}
+
+// Open the live transcription of the caller
+function connectTranscriber(
+  socket: WebSocket,
+  supabase: SupabaseClient,
+  session: RealtimeSession,
+  env: StreamEnvironment,
+  requestId: string
+): LiveTranscription {
+  return env.sttProvider.connect({
+    // Real words, not just noise, interrupt the reply that is playing
+    onSpeech: () => bargeIn(socket, session, requestId),
+
+    onUtterance: (transcript) => {
+      logWithContext('INFO', 'Caller utterance complete', requestId, {
+        callId: session.callId,
+        utteranceLength: transcript.text.length,
+        confidence: transcript.confidence
+      });
+      respond(socket, supabase, session, transcript, env, requestId).catch(error => {
+        logWithContext('ERROR', 'Error responding to caller', requestId, {
+          callId: session.callId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        // Closing the stream hands the call back to the TwiML loop
+        socket.close();
+      });
+    },
+
+    onError: () => {
+      logWithContext('ERROR', 'Live transcription error', requestId, { callId: session.callId, sttProvider: env.sttProvider.name });
+      socket.close();
+    }
+  });
+}
+
+// Verify the stream, load the call and greet the user if nothing has been said yet
+async function startSession(
+  socket: WebSocket,
+  supabase: SupabaseClient,
+  session: RealtimeSession,
+  start: NonNullable<TwilioStreamMessage['start']>,
+  env: StreamEnvironment,
+  requestId: string
+): Promise<void> {
+  const { call_id: callId, user_id: userId, token } = start.customParameters;
+
+  if (!callId || !userId || !token || !(await verifyStreamToken(env.supabaseServiceKey, callId, userId, token))) {
+    logWithContext('ERROR', 'Invalid stream token', requestId, { callSid: start.callSid });
+    socket.close();
+    return;
+  }
+
+  session.streamSid = start.streamSid;
+  session.callId = callId;
+  session.userId = userId;
+
+  const direction = await loadCall(supabase, session, requestId);
+  session.transcription = connectTranscriber(socket, supabase, session, env, requestId);
+
+  if (session.turns.length > 0) {
+    return;
+  }
+
+  const context = direction === 'inbound'
+    ? 'The user called you because they want a pep talk. Greet them warmly, thank them for reaching out and ask what is on their mind today.'
+    : 'This is the beginning of a motivational call. Greet the user warmly and ask how they are doing with their goals.';
+
+  const { message: greeting } = await getAIResponse(userId, context, [], null, null, env, requestId);
+  await saveTurn(supabase, session, { role: 'assistant', content: greeting }, requestId);
+  await speak(socket, session, greeting, env, requestId);
+}
+
+Deno.serve((req) => {
+  const requestId = generateRequestId();
+
+  if (req.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return createErrorResponse('Expected a WebSocket upgrade from Twilio Media Streams', requestId, 426);
+  }
+
+  let env: StreamEnvironment;
+  try {
+    env = validateEnvironment(requestId);
+  } catch (error) {
+    return createErrorResponse(error instanceof Error ? error.message : 'Invalid environment', requestId, 500);
+  }
+
+  const supabase = createClient(env.supabaseUrl, env.supabaseServiceKey);
+  const { socket, response } = Deno.upgradeWebSocket(req);
+
+  const session: RealtimeSession = {
+    streamSid: null,
+    callId: null,
+    userId: null,
+    voiceId: 'friendly_mentor',
+    startedAt: null,
+    turns: [],
+    transcription: null,
+    isSpeaking: false,
+    speechAbort: null,
+    responseSequence: 0
+  };
+
+  socket.onmessage = (event) => {
+    const message: TwilioStreamMessage = JSON.parse(event.data);
+
+    switch (message.event) {
+      case 'start':
+        logWithContext('INFO', 'Media stream started', requestId, { callSid: message.start?.callSid });
+        startSession(socket, supabase, session, message.start!, env, requestId).catch(error => {
+          logWithContext('ERROR', 'Error starting realtime session', requestId, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+          socket.close();
+        });
+        break;
+
+      case 'media':
+        // Forward caller audio to the transcriber once it is connected
+        if (message.media) {
+          session.transcription?.send(decodeBase64(message.media.payload));
+        }
+        break;
+
+      case 'mark':
+        // The last reply finished playing
+        session.isSpeaking = false;
+        break;
+
+      case 'stop':
+        logWithContext('INFO', 'Media stream stopped', requestId, { callId: session.callId, turnsCount: session.turns.length });
+        session.transcription?.close();
+        break;
+    }
+  };
+
+  socket.onclose = () => {
+    session.speechAbort?.abort();
+    session.transcription?.close();
+  };
+
+  return response;
+});
@@ -0,0 +1,864 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildTwiML, message } from '../_shared/twiml.ts'
+import { checkContactPolicy, parseOptKeyword, setSmsOptOut } from '../_shared/contact-policy.ts'
+import { CHECK_IN_FREQUENCIES, isCheckInDue, type CheckInGoal } from '../_shared/check-in-schedule.ts'
+import { getLocalDate, resolveTimeZone, zonedTimeToUtc } from '../_shared/time-zone.ts'
+import { constantTimeEquals, findUserByPhoneNumber, verifyTwilioRequest, type PhoneNumberOwner } from '../_shared/twilio-request.ts'
+import { formatUserDataBlock, sanitizePromptText } from '../_shared/prompt-assembly.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-twilio-signature',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Replies to the carrier-standard keywords
+const OPT_OUT_REPLY = 'You have been unsubscribed from MyFutrSelf texts and will not receive any more messages. Reply START to resubscribe.';
+const OPT_IN_REPLY = 'You have been resubscribed to MyFutrSelf texts. Reply STOP at any time to unsubscribe.';
+const HELP_REPLY = 'MyFutrSelf: check-in texts from your future self. Manage your contact preferences in the app. Reply STOP to unsubscribe.';
+
+// Sent instead of the future self's reply when it could not be written
+const FALLBACK_REPLY = "Sorry, I can't reply right now. Please text me again in a few minutes.";
+
+// Earlier texts passed to the AI so it keeps the thread of the conversation
+const SMS_HISTORY_LIMIT = 20;
+
+// Minutes a check-in may stay claimed before a later run treats its sending run as dead
+const SENDING_TIMEOUT_MINUTES = 10;
+
+// Keeps AI replies to about two SMS segments
+const SMS_STYLE = 'You are texting, so reply in plain text under 300 characters, without markdown.';
+
+// Whole-message replies that log progress on the goal being discussed. YES is left out
+// because it is also a carrier keyword for resubscribing.
+const QUICK_REPLIES: Record<GoalProgressStatus, string[]> = {
+  done: ['DONE', 'DID IT', 'I DID IT', 'COMPLETED', 'COMPLETE', 'FINISHED'],
+  skipped: ['SKIPPED', 'SKIP', 'SKIPPED IT', 'NOT TODAY', 'MISSED', 'MISSED IT']
+};
+
+type GoalProgressStatus = 'done' | 'skipped';
+
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface SmsProfile {
+  user_id: string;
+  phone_number: string;
+  preferred_sms_time_start: string;
+  preferred_sms_time_end: string;
+  time_zone: string | null;
+}
+
+interface SmsGoal extends CheckInGoal {
+  id: string;
+  user_id: string;
+}
+
+interface SmsCheckInRow {
+  id: string;
+  user_id: string;
+  goal_ids: string[];
+  window_end: string;
+}
+
+interface SendSummary {
+  planned: number;
+  sent: number;
+  deferred: number;
+  suppressed: number;
+  failed: number;
+  expired: number;
+  recovered: number;
+}
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  timestamp: string;
+  requestId: string;
+}
+
+interface SuccessResponse {
+  success: true;
+  message: string;
+  summary: SendSummary;
+  timestamp: string;
+  requestId: string;
+}
+
+// Generate unique request ID for tracking
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Enhanced logging function
+function logWithContext(level: 'INFO' | 'WARN' | 'ERROR', message: string, requestId: string, data?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  const logEntry = {
+    timestamp,
+    level,
+    requestId,
+    message,
+    ...(data && { data })
+  };
+  console.log(`[${level}] ${JSON.stringify(logEntry)}`);
+}
+
+// Create standardized error response
+function createErrorResponse(
+  error: string,
+  requestId: string,
+  statusCode: number = 500
+): Response {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('ERROR', `Error response created: ${error}`, requestId);
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// Create standardized success response
+function createSuccessResponse(
+  message: string,
+  summary: SendSummary,
+  requestId: string
+): Response {
+  const successResponse: SuccessResponse = {
+    success: true,
+    message,
+    summary,
+    timestamp: new Date().toISOString(),
+    requestId
+  };
+
+  logWithContext('INFO', `Success response created: ${message}`, requestId, { ...summary });
+
+  return new Response(JSON.stringify(successResponse), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 200,
+  });
+}
+
+// Create a TwiML response for Twilio's messaging webhook
+function createTwiMLResponse(twiml: string): Response {
+  return new Response(twiml, {
+    headers: {
+      'Content-Type': 'text/xml',
+      ...corsHeaders
+    }
+  });
+}
+
+// Validate environment variables
+function validateEnvironment(requestId: string): {
+  supabaseUrl: string;
+  supabaseServiceKey: string;
+  twilio: TwilioConfig;
+} {
+  logWithContext('INFO', 'Validating environment variables', requestId);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const twilioAccountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const twilioFromNumber = Deno.env.get('TWILIO_FROM_NUMBER');
+
+  const missing = [];
+  if (!supabaseUrl) missing.push('SUPABASE_URL');
+  if (!supabaseServiceKey) missing.push('SUPABASE_SERVICE_ROLE_KEY');
+  if (!twilioAccountSid) missing.push('TWILIO_ACCOUNT_SID');
+  if (!twilioAuthToken) missing.push('TWILIO_AUTH_TOKEN');
+  if (!twilioFromNumber) missing.push('TWILIO_FROM_NUMBER');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+  }
+
+  logWithContext('INFO', 'Environment variables validated successfully', requestId);
+  return {
+    supabaseUrl,
+    supabaseServiceKey,
+    twilio: { accountSid: twilioAccountSid, authToken: twilioAuthToken, fromNumber: twilioFromNumber }
+  };
+}
+
+// Match a whole message against the quick replies
+function parseQuickReply(body: string): GoalProgressStatus | null {
+  const reply = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  if (QUICK_REPLIES.done.includes(reply)) return 'done';
+  if (QUICK_REPLIES.skipped.includes(reply)) return 'skipped';
+  return null;
+}
+
+// Call OpenAI chat completion Edge Function. Goal titles are written by the user, so they are
+// sent in <user_data> blocks after the instructions, which refer to them by the block's kind.
+async function getAIResponse(
+  userId: string,
+  context: string,
+  goalTitles: Record<string, string>,
+  history: ConversationTurn[],
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  requestId: string
+): Promise<string> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/openai-chat-completion`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify({
+      user_id: userId,
+      context: [
+        `${context} ${SMS_STYLE}`,
+        ...Object.entries(goalTitles).map(([kind, title]) => formatUserDataBlock(kind, JSON.stringify(sanitizePromptText(title))))
+      ].join('\n\n'),
+      history
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    logWithContext('ERROR', 'OpenAI Edge Function error', requestId, {
+      status: response.status,
+      error: result.error
+    });
+    throw new Error(result.error || `OpenAI Edge Function failed: ${response.status}`);
+  }
+
+  return result.message;
+}
+
+// Send a text message using Twilio and return its SID
+async function sendSms(
+  toNumber: string,
+  body: string,
+  twilio: TwilioConfig,
+  requestId: string
+): Promise<string> {
+  logWithContext('INFO', 'Sending SMS', requestId, {
+    toNumber: toNumber.substring(0, 6) + '***' // Mask phone number for privacy
+  });
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${twilio.accountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${twilio.accountSid}:${twilio.authToken}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({
+      To: toNumber,
+      From: twilio.fromNumber,
+      Body: body
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    logWithContext('ERROR', 'Twilio SMS API error', requestId, {
+      status: response.status,
+      error: errorData
+    });
+    throw new Error(`Twilio API error (${response.status}): ${errorData}`);
+  }
+
+  const result = await response.json();
+  logWithContext('INFO', 'SMS sent successfully', requestId, { messageSid: result.sid });
+  return result.sid;
+}
+
+// Save a text to the user's SMS thread
+async function saveSmsMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  direction: 'inbound' | 'outbound',
+  body: string,
+  requestId: string,
+  links: { goalId?: string | null; smsCheckInId?: string | null; messageSid?: string | null } = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('sms_messages')
+    .insert({
+      user_id: userId,
+      direction,
+      body,
+      goal_id: links.goalId || null,
+      sms_check_in_id: links.smsCheckInId || null,
+      message_sid: links.messageSid || null
+    });
+
+  if (error) {
+    // A missing transcript line must never stop the reply
+    logWithContext('WARN', 'Failed to save SMS message', requestId, { userId, direction, error: error.message });
+  }
+}
+
+// Load the most recent texts with the user as conversation turns, oldest first
+async function loadSmsHistory(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ConversationTurn[]> {
+  const { data: messages, error } = await supabase
+    .from('sms_messages')
+    .select('direction, body')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(SMS_HISTORY_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load SMS history: ${error.message}`);
+  }
+
+  return (messages || []).reverse().map(sms => ({
+    role: sms.direction === 'inbound' ? 'user' : 'assistant',
+    content: sms.body
+  }));
+}
+
+async function getGoalTitle(supabase: SupabaseClient, goalId: string): Promise<string> {
+  const { data: goal } = await supabase
+    .from('goals')
+    .select('title')
+    .eq('id', goalId)
+    .maybeSingle();
+
+  return goal?.title || 'your goal';
+}
+
+// Create sms_check_ins rows for every user with a texting check-in due today in their time zone
+async function planSmsCheckIns(
+  supabase: SupabaseClient,
+  now: Date,
+  requestId: string
+): Promise<number> {
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('user_id, phone_number, preferred_sms_time_start, preferred_sms_time_end, time_zone')
+    .eq('onboarding_completed', true)
+    .eq('sms_notifications_enabled', true)
+    .not('phone_number', 'is', null)
+    .not('phone_verified_at', 'is', null)
+    .not('preferred_sms_time_start', 'is', null)
+    .not('preferred_sms_time_end', 'is', null);
+
+  if (profilesError) {
+    throw new Error(`Failed to fetch profiles: ${profilesError.message}`);
+  }
+
+  if (!profiles || profiles.length === 0) {
+    logWithContext('INFO', 'No users eligible for SMS check-ins', requestId);
+    return 0;
+  }
+
+  const { data: goals, error: goalsError } = await supabase
+    .from('goals')
+    .select('id, user_id, frequency, start_date, created_at')
+    .in('user_id', (profiles as SmsProfile[]).map(profile => profile.user_id))
+    .in('frequency', CHECK_IN_FREQUENCIES);
+
+  if (goalsError) {
+    throw new Error(`Failed to fetch goals: ${goalsError.message}`);
+  }
+
+  const rows = (profiles as SmsProfile[])
+    .map(profile => {
+      const timeZone = resolveTimeZone(profile.time_zone);
+      const today = getLocalDate(now, timeZone);
+      const dueGoalIds = (goals as SmsGoal[] || [])
+        .filter(goal => goal.user_id === profile.user_id && isCheckInDue(goal, today))
+        .map(goal => goal.id);
+
+      if (dueGoalIds.length === 0) {
+        return null;
+      }
+
+      return {
+        user_id: profile.user_id,
+        goal_ids: dueGoalIds,
+        scheduled_date: today,
+        send_at: zonedTimeToUtc(today, profile.preferred_sms_time_start, timeZone).toISOString(),
+        window_end: zonedTimeToUtc(today, profile.preferred_sms_time_end, timeZone).toISOString()
+      };
+    })
+    // Skip windows that already closed today
+    .filter((row): row is NonNullable<typeof row> => row !== null && new Date(row.window_end) > now);
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  // Existing rows for the same user and day are left untouched so nobody is texted twice
+  const { data: inserted, error: insertError } = await supabase
+    .from('sms_check_ins')
+    .upsert(rows, { onConflict: 'user_id,scheduled_date', ignoreDuplicates: true })
+    .select('id');
+
+  if (insertError) {
+    throw new Error(`Failed to create SMS check-ins: ${insertError.message}`);
+  }
+
+  logWithContext('INFO', 'SMS check-ins planned', requestId, { candidates: rows.length, created: inserted?.length || 0 });
+  return inserted?.length || 0;
+}
+
+// Send a check-in text about the first due goal
+async function sendCheckIn(
+  supabase: SupabaseClient,
+  checkIn: SmsCheckInRow,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  twilio: TwilioConfig,
+  requestId: string
+): Promise<void> {
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('phone_number')
+    .eq('user_id', checkIn.user_id)
+    .not('phone_verified_at', 'is', null)
+    .single();
+
+  if (profileError || !profile?.phone_number) {
+    throw new Error('User has no verified phone number');
+  }
+
+  // One goal at a time keeps "done" and "skipped" replies unambiguous; the rest follow in the conversation
+  const goalId = checkIn.goal_ids[0];
+  const goalTitle = await getGoalTitle(supabase, goalId);
+  const moreGoals = checkIn.goal_ids.length - 1;
+
+  const context = `This is a check-in text message about the user's goal whose title is in the goal block below. Ask how it is going today and let them know they can reply "done" or "skipped".${moreGoals > 0 ? ` Mention you will also ask about ${moreGoals} other goal${moreGoals === 1 ? '' : 's'} after this one.` : ''}`;
+  const body = await getAIResponse(
+    checkIn.user_id,
+    context,
+    { goal: goalTitle },
+    await loadSmsHistory(supabase, checkIn.user_id),
+    supabaseUrl,
+    supabaseServiceKey,
+    requestId
+  );
+
+  const messageSid = await sendSms(profile.phone_number, body, twilio, requestId);
+  await saveSmsMessage(supabase, checkIn.user_id, 'outbound', body, requestId, { goalId, smsCheckInId: checkIn.id, messageSid });
+
+  await supabase
+    .from('sms_check_ins')
+    .update({ status: 'sent', message_sid: messageSid, sent_at: new Date().toISOString(), last_error: null })
+    .eq('id', checkIn.id);
+}
+
+// Release check-ins left in `sending` by a run that ended before finishing them. A text that
+// went out is recorded as sent; otherwise the check-in is retried while its window is open.
+async function recoverAbandonedCheckIns(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: SendSummary,
+  requestId: string
+): Promise<void> {
+  const claimDeadline = new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+
+  const { data: abandoned, error: abandonedError } = await supabase
+    .from('sms_check_ins')
+    .select('id, window_end')
+    .eq('status', 'sending')
+    .lt('claimed_at', claimDeadline.toISOString());
+
+  if (abandonedError) {
+    throw new Error(`Failed to fetch abandoned SMS check-ins: ${abandonedError.message}`);
+  }
+
+  for (const checkIn of abandoned || []) {
+    // The run saves the text as soon as Twilio accepts it, before marking the check-in sent
+    const { data: sentMessage } = await supabase
+      .from('sms_messages')
+      .select('message_sid, created_at')
+      .eq('sms_check_in_id', checkIn.id)
+      .eq('direction', 'outbound')
+      .limit(1)
+      .maybeSingle();
+
+    const update = sentMessage
+      ? { status: 'sent', message_sid: sentMessage.message_sid, sent_at: sentMessage.created_at, last_error: null }
+      : new Date(checkIn.window_end) > now
+        ? { status: 'pending', claimed_at: null }
+        : { status: 'failed', last_error: 'The sending run ended before the check-in was sent' };
+
+    await supabase
+      .from('sms_check_ins')
+      .update(update)
+      .eq('id', checkIn.id)
+      .eq('status', 'sending');
+
+    logWithContext('WARN', 'Recovered abandoned SMS check-in', requestId, { smsCheckInId: checkIn.id, status: update.status });
+  }
+
+  summary.recovered = abandoned?.length || 0;
+}
+
+// Recover abandoned claims, expire closed windows, then claim and send every check-in that is due
+async function dispatchDueCheckIns(
+  supabase: SupabaseClient,
+  now: Date,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  twilio: TwilioConfig,
+  summary: SendSummary,
+  requestId: string
+): Promise<void> {
+  await recoverAbandonedCheckIns(supabase, now, summary, requestId);
+
+  const { data: expired, error: expiredError } = await supabase
+    .from('sms_check_ins')
+    .update({ status: 'expired' })
+    .eq('status', 'pending')
+    .lt('window_end', now.toISOString())
+    .select('id');
+
+  if (expiredError) {
+    throw new Error(`Failed to expire SMS check-ins: ${expiredError.message}`);
+  }
+
+  summary.expired = expired?.length || 0;
+
+  const { data: dueCheckIns, error: dueError } = await supabase
+    .from('sms_check_ins')
+    .select('id, user_id, goal_ids, window_end')
+    .eq('status', 'pending')
+    .lte('send_at', now.toISOString())
+    .order('send_at', { ascending: true });
+
+  if (dueError) {
+    throw new Error(`Failed to fetch due SMS check-ins: ${dueError.message}`);
+  }
+
+  for (const checkIn of (dueCheckIns as SmsCheckInRow[]) || []) {
+    // Quiet hours and vacations push the text later in its window, or suppress it for the day
+    const decision = await checkContactPolicy(supabase, {
+      userId: checkIn.user_id,
+      channel: 'sms',
+      purpose: 'check_in',
+      detail: { sms_check_in_id: checkIn.id }
+    }, now);
+
+    if (!decision.allowed) {
+      const deferred = decision.resumeAt !== null && decision.resumeAt < new Date(checkIn.window_end);
+
+      await supabase
+        .from('sms_check_ins')
+        .update(deferred
+          ? { send_at: decision.resumeAt!.toISOString() }
+          : { status: 'suppressed', last_error: `Suppressed by contact policy: ${decision.reason}` })
+        .eq('id', checkIn.id)
+        .eq('status', 'pending');
+
+      summary[deferred ? 'deferred' : 'suppressed'] += 1;
+      continue;
+    }
+
+    // Claim the row only if it is still pending so overlapping runs cannot text twice
+    const { data: claimed } = await supabase
+      .from('sms_check_ins')
+      .update({ status: 'sending', claimed_at: new Date().toISOString() })
+      .eq('id', checkIn.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      logWithContext('WARN', 'SMS check-in already claimed by another run', requestId, { smsCheckInId: checkIn.id });
+      continue;
+    }
+
+    try {
+      await sendCheckIn(supabase, checkIn, supabaseUrl, supabaseServiceKey, twilio, requestId);
+      summary.sent += 1;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logWithContext('ERROR', 'Failed to send SMS check-in', requestId, { smsCheckInId: checkIn.id, error: errorMessage });
+
+      await supabase
+        .from('sms_check_ins')
+        .update({ status: 'failed', last_error: errorMessage })
+        .eq('id', checkIn.id);
+
+      summary.failed += 1;
+    }
+  }
+}
+
+// The goal the latest check-in text was about, with the check-in it belongs to
+async function findGoalUnderDiscussion(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ goalId: string; smsCheckInId: string | null } | null> {
+  const { data: lastGoalMessage } = await supabase
+    .from('sms_messages')
+    .select('goal_id, sms_check_in_id')
+    .eq('user_id', userId)
+    .eq('direction', 'outbound')
+    .not('goal_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return lastGoalMessage ? { goalId: lastGoalMessage.goal_id, smsCheckInId: lastGoalMessage.sms_check_in_id } : null;
+}
+
+// The next goal of a check-in that has no progress logged for the day yet
+async function findNextCheckInGoal(
+  supabase: SupabaseClient,
+  smsCheckInId: string,
+  userId: string,
+  localDate: string
+): Promise<string | null> {
+  const { data: checkIn } = await supabase
+    .from('sms_check_ins')
+    .select('goal_ids')
+    .eq('id', smsCheckInId)
+    .maybeSingle();
+
+  if (!checkIn) {
+    return null;
+  }
+
+  const { data: progress } = await supabase
+    .from('goal_progress')
+    .select('goal_id')
+    .eq('user_id', userId)
+    .eq('logged_on', localDate)
+    .in('goal_id', checkIn.goal_ids);
+
+  const loggedGoalIds = new Set((progress || []).map(entry => entry.goal_id));
+  return (checkIn.goal_ids as string[]).find(goalId => !loggedGoalIds.has(goalId)) || null;
+}
+
+// Log a quick reply against the goal being discussed
+async function logGoalProgress(
+  supabase: SupabaseClient,
+  userId: string,
+  goalId: string,
+  status: GoalProgressStatus,
+  note: string,
+  localDate: string,
+  requestId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('goal_progress')
+    .insert({
+      user_id: userId,
+      goal_id: goalId,
+      status,
+      source: 'sms',
+      logged_on: localDate,
+      note
+    });
+
+  if (error) {
+    throw new Error(`Failed to log goal progress: ${error.message}`);
+  }
+
+  logWithContext('INFO', 'Goal progress logged from SMS', requestId, { userId, goalId, status });
+}
+
+// Reply to a text from a known user, logging quick replies against the goal being discussed
+async function replyToText(
+  supabase: SupabaseClient,
+  sender: PhoneNumberOwner,
+  body: string,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  requestId: string
+): Promise<string> {
+  const history = await loadSmsHistory(supabase, sender.userId);
+  const discussion = await findGoalUnderDiscussion(supabase, sender.userId);
+  const quickReply = parseQuickReply(body);
+
+  await saveSmsMessage(supabase, sender.userId, 'inbound', body, requestId, {
+    goalId: discussion?.goalId,
+    smsCheckInId: discussion?.smsCheckInId
+  });
+
+  let context = 'This is an ongoing text conversation. Respond to what the user just said and keep encouraging them with their goals.';
+  const goalTitles: Record<string, string> = {};
+  let replyGoalId: string | null = null;
+
+  if (quickReply && discussion) {
+    const localDate = getLocalDate(new Date(), sender.timeZone);
+    await logGoalProgress(supabase, sender.userId, discussion.goalId, quickReply, body, localDate, requestId);
+
+    goalTitles.goal = await getGoalTitle(supabase, discussion.goalId);
+    context = quickReply === 'done'
+      ? 'The user just texted that they completed their goal in the goal block below today. Celebrate it briefly.'
+      : 'The user just texted that they skipped their goal in the goal block below today. Respond kindly, without guilt, and encourage them for next time.';
+
+    // Move the check-in on to the next goal that is due today
+    const nextGoalId = discussion.smsCheckInId
+      ? await findNextCheckInGoal(supabase, discussion.smsCheckInId, sender.userId, localDate)
+      : null;
+
+    if (nextGoalId) {
+      goalTitles.next_goal = await getGoalTitle(supabase, nextGoalId);
+      context += ' Then ask how their goal in the next_goal block is going today, and remind them they can reply "done" or "skipped".';
+      replyGoalId = nextGoalId;
+    }
+  } else if (discussion) {
+    goalTitles.goal = await getGoalTitle(supabase, discussion.goalId);
+    context += ' The conversation is about their goal in the goal block below.';
+    replyGoalId = discussion.goalId;
+  }
+
+  const reply = await getAIResponse(
+    sender.userId,
+    context,
+    goalTitles,
+    [...history, { role: 'user', content: body }],
+    supabaseUrl,
+    supabaseServiceKey,
+    requestId
+  );
+
+  await saveSmsMessage(supabase, sender.userId, 'outbound', reply, requestId, {
+    goalId: replyGoalId,
+    smsCheckInId: discussion?.smsCheckInId
+  });
+
+  return reply;
+}
+
+Deno.serve(async (req) => {
+  const requestId = generateRequestId();
+  const url = new URL(req.url);
+  const pathname = url.pathname;
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    logWithContext('INFO', 'CORS preflight request handled', requestId);
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  logWithContext('INFO', 'Twilio SMS function invoked', requestId, {
+    method: req.method,
+    pathname,
+    twilioSignature: req.headers.get('x-twilio-signature') ? 'present' : 'missing'
+  });
+
+  try {
+    // Validate environment variables
+    const { supabaseUrl, supabaseServiceKey, twilio } = validateEnvironment(requestId);
+
+    // Create Supabase admin client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Route handling
+    if (pathname.endsWith('/send-check-ins')) {
+      // Plan and send due check-in texts - only the cron job, with the service role key, may run this
+      if (!constantTimeEquals(`Bearer ${supabaseServiceKey}`, req.headers.get('authorization') || '')) {
+        return createErrorResponse('Unauthorized: sending check-ins requires service role key', requestId, 401);
+      }
+
+      const now = new Date();
+      const summary: SendSummary = {
+        planned: 0,
+        sent: 0,
+        deferred: 0,
+        suppressed: 0,
+        failed: 0,
+        expired: 0,
+        recovered: 0
+      };
+
+      summary.planned = await planSmsCheckIns(supabase, now, requestId);
+      await dispatchDueCheckIns(supabase, now, supabaseUrl, supabaseServiceKey, twilio, summary, requestId);
+
+      return createSuccessResponse('SMS check-in run completed', summary, requestId);
+
+    } else if (pathname.endsWith('/inbound-sms')) {
+      // Handle texts sent to the Twilio number - requires signature validation
+      logWithContext('INFO', 'Processing inbound SMS', requestId);
+
+      const params = await verifyTwilioRequest(req, twilio.authToken, requestId);
+      if (params instanceof Response) {
+        return params;
+      }
+
+      const body = (params.Body || '').trim();
+      const sender = params.From ? await findUserByPhoneNumber(supabase, params.From, requestId) : null;
+      const keyword = parseOptKeyword(body);
+
+      logWithContext('INFO', 'Inbound SMS received', requestId, {
+        messageSid: params.MessageSid,
+        from: params.From ? params.From.substring(0, 6) + '***' : 'none', // Mask phone number for privacy
+        knownSender: !!sender,
+        keyword
+      });
+
+      if (keyword === 'help') {
+        return createTwiMLResponse(buildTwiML([message(HELP_REPLY)]));
+      }
+
+      if (keyword && sender) {
+        await setSmsOptOut(supabase, sender.userId, keyword === 'stop');
+        logWithContext('INFO', keyword === 'stop' ? 'User opted out of texts' : 'User opted back in to texts', requestId, { userId: sender.userId });
+        return createTwiMLResponse(buildTwiML([message(keyword === 'stop' ? OPT_OUT_REPLY : OPT_IN_REPLY)]));
+      }
+
+      if (!sender || !body) {
+        return createTwiMLResponse(buildTwiML([]));
+      }
+
+      // The user started this exchange, so only an earlier STOP keeps the future self from replying
+      const decision = await checkContactPolicy(supabase, {
+        userId: sender.userId,
+        channel: 'sms',
+        purpose: 'user_requested',
+        detail: { message_sid: params.MessageSid }
+      });
+
+      if (!decision.allowed) {
+        return createTwiMLResponse(buildTwiML([]));
+      }
+
+      // Twilio does not retry a failed webhook, so the user still gets an answer when the reply fails
+      try {
+        const reply = await replyToText(supabase, sender, body, supabaseUrl, supabaseServiceKey, requestId);
+        return createTwiMLResponse(buildTwiML([message(reply)]));
+      } catch (error) {
+        logWithContext('ERROR', 'Failed to reply to text, sending fallback reply', requestId, {
+          userId: sender.userId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return createTwiMLResponse(buildTwiML([message(FALLBACK_REPLY)]));
+      }
+
+    } else {
+      return createErrorResponse('Invalid endpoint', requestId, 404);
+    }
+
+  } catch (error) {
+    logWithContext('ERROR', 'Unexpected error in twilio-sms', requestId, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing the message',
+      requestId,
+      500
+    );
+  }
+});
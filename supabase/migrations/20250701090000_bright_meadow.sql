@@ -0,0 +1,97 @@
+/*
+  # Create scheduled_calls table for automated check-in calls
+
+  1. New Columns
+    - `user_profiles.phone_number` (text) - E.164 number the scheduler dials for check-in calls
+
+  2. New Tables
+    - `scheduled_calls`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `goal_ids` (uuid array) - goals whose check-in frequency made this call due
+      - `scheduled_date` (date) - day the check-in belongs to
+      - `scheduled_for` (timestamptz) - start of the user's call window
+      - `window_end` (timestamptz) - end of the user's call window, no attempts after this
+      - `status` (text) - pending, dialing, answered, missed, failed or expired
+      - `attempt_count` (integer) - number of dial attempts made so far
+      - `next_attempt_at` (timestamptz) - earliest time the next attempt may be placed
+      - `last_attempt_at` (timestamptz) - when the latest attempt was dialed
+      - `answered_at` (timestamptz) - when the user picked up
+      - `call_sid` (text) - Twilio SID of the latest attempt
+      - `last_error` (text) - error from the latest failed attempt
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `scheduled_calls` table
+    - Users can view their own scheduled calls
+    - Rows are written by the call-scheduler and twilio-call-handler Edge Functions using the service role
+
+  4. Constraints
+    - Unique constraint on (user_id, scheduled_date) so a user is never dialed twice for the same day
+*/
+
+-- Add phone number used for scheduled calls
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS phone_number text;
+
+-- Create the scheduled_calls table
+CREATE TABLE IF NOT EXISTS scheduled_calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  goal_ids uuid[] NOT NULL DEFAULT '{}',
+  scheduled_date date NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempt_count integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL,
+  last_attempt_at timestamptz,
+  answered_at timestamptz,
+  call_sid text,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_scheduled_calls_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+
+  CONSTRAINT scheduled_calls_status_check
+    CHECK (status IN ('pending', 'dialing', 'answered', 'missed', 'failed', 'expired')),
+
+  -- One check-in call per user per day prevents double-dialing
+  CONSTRAINT unique_user_scheduled_date
+    UNIQUE (user_id, scheduled_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE scheduled_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled calls"
+  ON scheduled_calls
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Index used by the dispatcher to find calls that are ready to dial
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_due
+  ON scheduled_calls (status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_call_sid
+  ON scheduled_calls (call_sid)
+  WHERE call_sid IS NOT NULL;
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_scheduled_calls_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_scheduled_calls_updated_at
+  BEFORE UPDATE ON scheduled_calls
+  FOR EACH ROW EXECUTE FUNCTION update_scheduled_calls_updated_at();
+
+COMMENT ON COLUMN user_profiles.phone_number IS 'E.164 phone number used for scheduled check-in calls';
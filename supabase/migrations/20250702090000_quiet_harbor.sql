@@ -0,0 +1,59 @@
+/*
+  # Create call_sessions table for multi-turn phone conversations
+
+  1. New Tables
+    - `call_sessions`
+      - `id` (uuid, primary key)
+      - `call_sid` (text, unique) - Twilio CallSid the session belongs to
+      - `user_id` (text, foreign key to user_profiles)
+      - `turns` (jsonb) - ordered array of `{ role, content }` turns spoken on the call
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `call_sessions` table
+    - Users can view their own call sessions
+    - Rows are written by the twilio-call-handler Edge Function using the service role
+
+  3. Purpose
+    - Each TwiML webhook turn reloads the conversation so far, so the future self
+      remembers what was said earlier on the same call
+*/
+
+-- Create the call_sessions table
+CREATE TABLE IF NOT EXISTS call_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_sid text UNIQUE NOT NULL,
+  user_id text NOT NULL,
+  turns jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_call_sessions_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE
+);
+
+-- Enable Row Level Security
+ALTER TABLE call_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own call sessions"
+  ON call_sessions
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_user_id
+  ON call_sessions(user_id);
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_call_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_call_sessions_updated_at
+  BEFORE UPDATE ON call_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_call_sessions_updated_at();
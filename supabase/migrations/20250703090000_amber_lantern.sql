@@ -0,0 +1,179 @@
+/*
+  # Create calls and call_turns tables for call history
+
+  1. New Tables
+    - `calls`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `channel` (text) - `phone` for Twilio calls, `in_app` for VoiceChatModal sessions
+      - `direction` (text) - `outbound` or `inbound`
+      - `call_sid` (text, unique) - Twilio CallSid for phone calls
+      - `scheduled_call_id` (uuid, foreign key to scheduled_calls) - set for scheduled check-ins
+      - `status` (text) - `in_progress` or `completed`
+      - `started_at` (timestamptz)
+      - `ended_at` (timestamptz) - time of the last turn until the call is completed
+      - `duration_seconds` (integer)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `call_turns`
+      - `id` (uuid, primary key)
+      - `call_id` (uuid, foreign key to calls)
+      - `user_id` (text, foreign key to user_profiles)
+      - `turn_index` (integer) - position of the turn within the call
+      - `role` (text) - `user` or `assistant`
+      - `content` (text) - transcript of the turn
+      - `audio_path` (text) - path in the `call-audio` bucket of the spoken reply
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Create private `call-audio` bucket holding the TTS audio of each assistant turn
+    - Objects are stored under `<call_id>/<turn_index>.mp3`
+
+  3. Security
+    - Enable RLS on both tables; users can view their own calls and turns
+    - Users can read audio in folders of calls they own
+    - Rows and audio are written by Edge Functions using the service role
+
+  4. Data Migration
+    - Copy conversations from `call_sessions` into `calls`/`call_turns` and drop `call_sessions`
+*/
+
+-- Create the calls table
+CREATE TABLE IF NOT EXISTS calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  channel text NOT NULL,
+  direction text NOT NULL DEFAULT 'outbound',
+  call_sid text UNIQUE,
+  scheduled_call_id uuid,
+  status text NOT NULL DEFAULT 'in_progress',
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  duration_seconds integer,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_calls_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT fk_calls_scheduled_call_id
+    FOREIGN KEY (scheduled_call_id) REFERENCES scheduled_calls(id) ON DELETE SET NULL,
+
+  CONSTRAINT calls_channel_check CHECK (channel IN ('phone', 'in_app')),
+  CONSTRAINT calls_direction_check CHECK (direction IN ('outbound', 'inbound')),
+  CONSTRAINT calls_status_check CHECK (status IN ('in_progress', 'completed'))
+);
+
+-- Create the call_turns table
+CREATE TABLE IF NOT EXISTS call_turns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id uuid NOT NULL,
+  user_id text NOT NULL,
+  turn_index integer NOT NULL,
+  role text NOT NULL,
+  content text NOT NULL,
+  audio_path text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_call_turns_call_id
+    FOREIGN KEY (call_id) REFERENCES calls(id) ON DELETE CASCADE,
+  CONSTRAINT fk_call_turns_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+
+  CONSTRAINT call_turns_role_check CHECK (role IN ('user', 'assistant')),
+  CONSTRAINT unique_call_turn_index UNIQUE (call_id, turn_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_turns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calls"
+  ON calls
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can view their own call turns"
+  ON call_turns
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_calls_user_started_at
+  ON calls(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_call_turns_call_id
+  ON call_turns(call_id, turn_index);
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_calls_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_calls_updated_at
+  BEFORE UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION update_calls_updated_at();
+
+-- Create the call-audio bucket if it doesn't exist
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES (
+    'call-audio',
+    'call-audio',
+    false,
+    10485760, -- 10MB limit per turn
+    ARRAY['audio/mpeg', 'audio/mp3']
+  )
+  ON CONFLICT (id) DO NOTHING;
+END $$;
+
+DROP POLICY IF EXISTS "Users can view audio from their own calls" ON storage.objects;
+
+-- Policy for SELECT operations (creating signed URLs for playback)
+CREATE POLICY "Users can view audio from their own calls"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'call-audio' AND
+    EXISTS (
+      SELECT 1
+      FROM public.calls
+      WHERE calls.id::text = (storage.foldername(name))[1]
+        AND calls.user_id = requesting_user_id()
+    )
+  );
+
+-- Migrate existing phone conversations from call_sessions
+INSERT INTO calls (user_id, channel, direction, call_sid, status, started_at, ended_at, duration_seconds)
+SELECT
+  user_id,
+  'phone',
+  'outbound',
+  call_sid,
+  'completed',
+  created_at,
+  updated_at,
+  EXTRACT(EPOCH FROM (updated_at - created_at))::integer
+FROM call_sessions
+ON CONFLICT (call_sid) DO NOTHING;
+
+INSERT INTO call_turns (call_id, user_id, turn_index, role, content)
+SELECT
+  calls.id,
+  call_sessions.user_id,
+  turn.ordinality - 1,
+  turn.value->>'role',
+  turn.value->>'content'
+FROM call_sessions
+JOIN calls ON calls.call_sid = call_sessions.call_sid
+CROSS JOIN LATERAL jsonb_array_elements(call_sessions.turns) WITH ORDINALITY AS turn(value, ordinality)
+ON CONFLICT (call_id, turn_index) DO NOTHING;
+
+DROP TABLE IF EXISTS call_sessions;
+DROP FUNCTION IF EXISTS update_call_sessions_updated_at();
@@ -0,0 +1,30 @@
+/*
+  # Record Twilio call outcomes from the status callback
+
+  1. New Columns
+    - `calls.outcome` (text) - final Twilio status: completed, busy, no-answer, failed or canceled
+    - `calls.price` (numeric) - amount Twilio billed for the call, negative as reported by Twilio
+    - `calls.price_unit` (text) - currency of `price`, e.g. USD
+    - `scheduled_calls.last_outcome` (text) - Twilio outcome of the latest dial attempt
+
+  2. Purpose
+    - twilio-call-handler registers a StatusCallback on every outbound call and records
+      the outcome, duration and price when the call ends
+    - Calls that were never answered now appear in the call log with their outcome
+    - The outcome of a scheduled attempt decides whether it is retried
+*/
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS outcome text,
+ADD COLUMN IF NOT EXISTS price numeric(10, 4),
+ADD COLUMN IF NOT EXISTS price_unit text;
+
+ALTER TABLE calls
+ADD CONSTRAINT calls_outcome_check
+  CHECK (outcome IN ('completed', 'busy', 'no-answer', 'failed', 'canceled'));
+
+ALTER TABLE scheduled_calls
+ADD COLUMN IF NOT EXISTS last_outcome text;
+
+COMMENT ON COLUMN calls.outcome IS 'Final Twilio CallStatus reported by the status callback';
+COMMENT ON COLUMN scheduled_calls.last_outcome IS 'Twilio CallStatus of the latest dial attempt';
@@ -0,0 +1,26 @@
+/*
+  # Pre-rendered voicemails for answering machines
+
+  1. New Columns
+    - `calls.voicemail_text` (text) - voicemail script rendered before dialing
+    - `calls.voicemail_audio_path` (text) - path of the rendered voicemail in the `call-audio` bucket
+
+  2. Changes
+    - `calls.outcome` accepts `voicemail_left` for calls answered by a machine where
+      the future self left a voicemail
+
+  3. Purpose
+    - Outbound calls enable Twilio answering-machine detection; the voicemail is rendered
+      up front so it can play as soon as the greeting's beep is detected
+*/
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS voicemail_text text,
+ADD COLUMN IF NOT EXISTS voicemail_audio_path text;
+
+ALTER TABLE calls
+DROP CONSTRAINT IF EXISTS calls_outcome_check;
+
+ALTER TABLE calls
+ADD CONSTRAINT calls_outcome_check
+  CHECK (outcome IN ('completed', 'busy', 'no-answer', 'failed', 'canceled', 'voicemail_left'));
@@ -0,0 +1,71 @@
+/*
+  # Verify phone numbers with an SMS one-time code
+
+  1. New Columns
+    - `user_profiles.phone_verified_at` (timestamptz) - when the user confirmed `phone_number` by SMS code
+
+  2. New Tables
+    - `phone_verifications`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles, unique) - one pending verification per user
+      - `phone_number` (text) - E.164 number the code was sent to
+      - `code_hash` (text) - SHA-256 hash of the code, the code itself is never stored
+      - `attempt_count` (integer) - wrong codes entered so far
+      - `expires_at` (timestamptz)
+      - `last_sent_at` (timestamptz) - used to throttle resends
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `phone_verifications` with no policies; only the twilio-call-handler
+      Edge Function reads and writes it using the service role
+    - Users can no longer change `phone_number` or `phone_verified_at` directly; both are
+      only written by the verification flow, so scheduled and inbound calls can trust them
+
+  4. Existing Data
+    - Numbers saved before verification existed stay on the profile but are unverified
+*/
+
+-- Add verification timestamp to user profiles
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS phone_verified_at timestamptz;
+
+-- Create the phone_verifications table
+CREATE TABLE IF NOT EXISTS phone_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text UNIQUE NOT NULL,
+  phone_number text NOT NULL,
+  code_hash text NOT NULL,
+  attempt_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  last_sent_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_phone_verifications_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE
+);
+
+-- Enable Row Level Security (service role only)
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Keep users from editing their verified phone number outside the verification flow
+CREATE OR REPLACE FUNCTION protect_verified_phone_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.phone_number = OLD.phone_number;
+    NEW.phone_verified_at = OLD.phone_verified_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_verified_phone_number
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_verified_phone_number();
+
+-- Inbound calls look users up by their verified number
+CREATE INDEX IF NOT EXISTS idx_user_profiles_verified_phone_number
+  ON user_profiles (phone_number)
+  WHERE phone_verified_at IS NOT NULL;
+
+COMMENT ON COLUMN user_profiles.phone_verified_at IS 'When phone_number was confirmed with an SMS one-time code';
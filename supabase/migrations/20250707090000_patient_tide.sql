@@ -0,0 +1,57 @@
+/*
+  # Content-addressed TTS audio cache
+
+  1. New Tables
+    - `tts_cache`
+      - `cache_key` (text, primary key) - SHA-256 of voice ID, model and text
+      - `voice_id` (text) - ElevenLabs voice the audio was rendered with
+      - `model_id` (text) - ElevenLabs model the audio was rendered with
+      - `storage_path` (text) - path of the audio in the `twilio-audio-cache` bucket
+      - `size_bytes` (integer)
+      - `created_at` (timestamp)
+      - `last_used_at` (timestamptz) - refreshed on every cache hit, used for expiry
+
+  2. Storage
+    - Make the `twilio-audio-cache` bucket private; Twilio now plays audio from
+      short-lived signed URLs instead of permanent public ones
+    - Cached audio is stored under `tts/<cache_key>.mp3`
+
+  3. Security
+    - Enable RLS on `tts_cache` with no policies; only Edge Functions read and write it
+      using the service role
+
+  4. Expiry
+    - The `tts-cache-cleanup` Edge Function deletes entries unused for longer than
+      `TTS_CACHE_TTL_HOURS`, along with leftover audio from the old `temp/` folder
+*/
+
+-- Create the tts_cache table
+CREATE TABLE IF NOT EXISTS tts_cache (
+  cache_key text PRIMARY KEY,
+  voice_id text NOT NULL,
+  model_id text NOT NULL,
+  storage_path text NOT NULL,
+  size_bytes integer,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (service role only)
+ALTER TABLE tts_cache ENABLE ROW LEVEL SECURITY;
+
+-- The cleanup job looks up entries by last use
+CREATE INDEX IF NOT EXISTS idx_tts_cache_last_used_at ON tts_cache (last_used_at);
+
+-- Create the twilio-audio-cache bucket if it doesn't exist, and make sure it is private
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES (
+    'twilio-audio-cache',
+    'twilio-audio-cache',
+    false,
+    10485760, -- 10MB limit per utterance
+    ARRAY['audio/mpeg', 'audio/mp3']
+  )
+  ON CONFLICT (id) DO UPDATE SET public = false;
+END $$;
@@ -0,0 +1,21 @@
+/*
+  # Time zones for contact windows
+
+  1. New Columns
+    - `user_profiles.time_zone` (text) - IANA time zone, such as `America/New_York`, that
+      `preferred_time_*` and `preferred_sms_time_*` are expressed in
+
+  2. Purpose
+    - Contact windows are wall-clock times without a zone. The onboarding preferences step
+      detects the browser's time zone and lets the user change it, and schedulers turn
+      windows into timestamps in that zone, so calls keep their local time across DST changes
+
+  3. Existing Data
+    - Profiles without a time zone keep being scheduled in UTC until the user saves
+      their contact preferences again
+*/
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS time_zone text;
+
+COMMENT ON COLUMN user_profiles.time_zone IS 'IANA time zone the preferred contact windows are expressed in; UTC when unset';
@@ -0,0 +1,136 @@
+/*
+  # Contact policy: SMS opt-out, quiet hours and vacation mode
+
+  1. New Columns
+    - `user_profiles.sms_opted_out_at` (timestamptz) - when the user texted STOP; cleared by START
+    - `user_profiles.contact_paused_until` (date) - vacation mode; no check-ins are sent before
+      this date in the user's time zone
+
+  2. New Tables
+    - `quiet_hours`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `weekday` (smallint) - 0 for Sunday through 6 for Saturday
+      - `start_time` (time) - start of the quiet period, in the user's time zone
+      - `end_time` (time) - end of the quiet period; 24:00 blocks the rest of the day
+      - `created_at` (timestamp)
+    - `contact_suppressions`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `channel` (text) - phone, sms or email
+      - `purpose` (text) - check_in, user_requested or transactional
+      - `reason` (text) - why the contact policy blocked the attempt
+      - `detail` (jsonb) - context of the attempt, such as the scheduled call
+      - `created_at` (timestamp)
+
+  3. Changes
+    - `scheduled_calls.status` accepts `suppressed` for check-ins the contact policy blocked
+      for the rest of their window
+
+  4. Security
+    - Enable RLS on both tables
+    - Users can manage their own quiet hours and view their own suppressions
+    - Suppressions are written by Edge Functions using the service role
+    - Users cannot change `sms_opted_out_at` directly; only STOP and START texts do
+*/
+
+-- Add opt-out and vacation columns to user profiles
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS sms_opted_out_at timestamptz,
+ADD COLUMN IF NOT EXISTS contact_paused_until date;
+
+-- Create the quiet_hours table
+CREATE TABLE IF NOT EXISTS quiet_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  weekday smallint NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_quiet_hours_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT quiet_hours_weekday_check
+    CHECK (weekday BETWEEN 0 AND 6),
+  CONSTRAINT quiet_hours_range_check
+    CHECK (start_time < end_time)
+);
+
+-- Create the contact_suppressions table
+CREATE TABLE IF NOT EXISTS contact_suppressions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  channel text NOT NULL,
+  purpose text NOT NULL,
+  reason text NOT NULL,
+  detail jsonb,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_contact_suppressions_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT contact_suppressions_channel_check
+    CHECK (channel IN ('phone', 'sms', 'email')),
+  CONSTRAINT contact_suppressions_purpose_check
+    CHECK (purpose IN ('check_in', 'user_requested', 'transactional')),
+  CONSTRAINT contact_suppressions_reason_check
+    CHECK (reason IN ('sms_opted_out', 'channel_disabled', 'vacation', 'quiet_hours', 'profile_not_found'))
+);
+
+-- Enable Row Level Security
+ALTER TABLE quiet_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiet hours"
+  ON quiet_hours
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can insert their own quiet hours"
+  ON quiet_hours
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can delete their own quiet hours"
+  ON quiet_hours
+  FOR DELETE
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can view their own contact suppressions"
+  ON contact_suppressions
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_quiet_hours_user_weekday
+  ON quiet_hours (user_id, weekday);
+
+CREATE INDEX IF NOT EXISTS idx_contact_suppressions_user_created_at
+  ON contact_suppressions (user_id, created_at DESC);
+
+-- Allow scheduled calls to be suppressed by the contact policy
+ALTER TABLE scheduled_calls
+DROP CONSTRAINT IF EXISTS scheduled_calls_status_check;
+
+ALTER TABLE scheduled_calls
+ADD CONSTRAINT scheduled_calls_status_check
+  CHECK (status IN ('pending', 'dialing', 'answered', 'missed', 'failed', 'expired', 'suppressed'));
+
+-- Keep users from editing their verified phone number or SMS opt-out outside Edge Functions
+CREATE OR REPLACE FUNCTION protect_verified_phone_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.phone_number = OLD.phone_number;
+    NEW.phone_verified_at = OLD.phone_verified_at;
+    NEW.sms_opted_out_at = OLD.sms_opted_out_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN user_profiles.sms_opted_out_at IS 'When the user replied STOP to a text; no texts are sent while set';
+COMMENT ON COLUMN user_profiles.contact_paused_until IS 'Vacation mode: check-ins resume on this date in the user''s time zone';
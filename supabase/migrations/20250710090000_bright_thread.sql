@@ -0,0 +1,153 @@
+/*
+  # Two-way SMS check-ins
+
+  1. New Tables
+    - `sms_check_ins`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `goal_ids` (uuid[]) - goals whose check-in frequency falls on `scheduled_date`
+      - `scheduled_date` (date) - the user's local date of the check-in
+      - `send_at` (timestamptz) - when the text should go out
+      - `window_end` (timestamptz) - end of the user's SMS window
+      - `status` (text) - pending, sending, sent, suppressed, failed or expired
+      - `message_sid` (text) - Twilio SID of the check-in text
+      - `sent_at` (timestamptz)
+      - `last_error` (text)
+      - `created_at`, `updated_at` (timestamp)
+    - `sms_messages`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `direction` (text) - `inbound` from the user or `outbound` from the future self
+      - `body` (text)
+      - `goal_id` (uuid, foreign key to goals) - goal the message is about, if any
+      - `sms_check_in_id` (uuid, foreign key to sms_check_ins) - check-in the message belongs to
+      - `message_sid` (text) - Twilio SID, when known
+      - `created_at` (timestamp)
+    - `goal_progress`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `goal_id` (uuid, foreign key to goals)
+      - `status` (text) - `done` or `skipped`
+      - `source` (text) - where the progress was reported, `sms` for quick replies
+      - `logged_on` (date) - the user's local date the progress counts for
+      - `note` (text) - the user's own words
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on all three tables; users can view their own rows
+    - Rows are written by the twilio-sms Edge Function using the service role
+
+  3. Purpose
+    - twilio-sms texts users on days their goals are due, within their SMS window, and
+      continues the conversation when they reply. Quick replies such as "done" or
+      "skipped" are logged against the goal the conversation is about
+*/
+
+-- Create the sms_check_ins table
+CREATE TABLE IF NOT EXISTS sms_check_ins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  goal_ids uuid[] NOT NULL DEFAULT '{}',
+  scheduled_date date NOT NULL,
+  send_at timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  message_sid text,
+  sent_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_sms_check_ins_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT sms_check_ins_status_check
+    CHECK (status IN ('pending', 'sending', 'sent', 'suppressed', 'failed', 'expired')),
+  CONSTRAINT sms_check_ins_user_date_key
+    UNIQUE (user_id, scheduled_date)
+);
+
+-- Create the sms_messages table
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  direction text NOT NULL,
+  body text NOT NULL,
+  goal_id uuid,
+  sms_check_in_id uuid,
+  message_sid text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_sms_messages_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT fk_sms_messages_goal_id
+    FOREIGN KEY (goal_id) REFERENCES goals(id) ON DELETE SET NULL,
+  CONSTRAINT fk_sms_messages_sms_check_in_id
+    FOREIGN KEY (sms_check_in_id) REFERENCES sms_check_ins(id) ON DELETE SET NULL,
+  CONSTRAINT sms_messages_direction_check
+    CHECK (direction IN ('inbound', 'outbound'))
+);
+
+-- Create the goal_progress table
+CREATE TABLE IF NOT EXISTS goal_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  goal_id uuid NOT NULL,
+  status text NOT NULL,
+  source text NOT NULL,
+  logged_on date NOT NULL,
+  note text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_goal_progress_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT fk_goal_progress_goal_id
+    FOREIGN KEY (goal_id) REFERENCES goals(id) ON DELETE CASCADE,
+  CONSTRAINT goal_progress_status_check
+    CHECK (status IN ('done', 'skipped'))
+);
+
+-- Enable Row Level Security
+ALTER TABLE sms_check_ins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goal_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own SMS check-ins"
+  ON sms_check_ins
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can view their own SMS messages"
+  ON sms_messages
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can view their own goal progress"
+  ON goal_progress
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sms_check_ins_status_send_at
+  ON sms_check_ins (status, send_at);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_user_created_at
+  ON sms_messages (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_goal_progress_goal_logged_on
+  ON goal_progress (goal_id, logged_on DESC);
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_sms_check_ins_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_sms_check_ins_updated_at
+  BEFORE UPDATE ON sms_check_ins
+  FOR EACH ROW EXECUTE FUNCTION update_sms_check_ins_updated_at();
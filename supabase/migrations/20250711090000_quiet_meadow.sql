@@ -0,0 +1,93 @@
+/*
+  # Weekly email progress digest
+
+  1. New Columns
+    - `user_profiles.email` (text) - primary email address from Clerk, kept in sync by clerk-webhook
+
+  2. New Tables
+    - `email_digests`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `week_start` (date) - the user's local date the digest was planned for
+      - `send_at` (timestamptz) - when the digest should go out
+      - `window_end` (timestamptz) - end of the user's email window
+      - `status` (text) - pending, sending, sent, suppressed, failed or expired
+      - `sent_at` (timestamptz)
+      - `last_error` (text)
+      - `created_at`, `updated_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `email_digests`; users can view their own digests
+    - Digests are written by the email-digest Edge Function using the service role
+    - Users cannot change `email` directly; it always comes from Clerk
+
+  4. Purpose
+    - email-digest sends every user with email notifications a weekly summary within their
+      `preferred_email_time_start`/`preferred_email_time_end` window, at most once a week
+*/
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS email text;
+
+-- Create the email_digests table
+CREATE TABLE IF NOT EXISTS email_digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  week_start date NOT NULL,
+  send_at timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  sent_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_email_digests_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT email_digests_status_check
+    CHECK (status IN ('pending', 'sending', 'sent', 'suppressed', 'failed', 'expired')),
+  CONSTRAINT email_digests_user_week_key
+    UNIQUE (user_id, week_start)
+);
+
+-- Enable Row Level Security
+ALTER TABLE email_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own email digests"
+  ON email_digests
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_email_digests_status_send_at
+  ON email_digests (status, send_at);
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_email_digests_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_email_digests_updated_at
+  BEFORE UPDATE ON email_digests
+  FOR EACH ROW EXECUTE FUNCTION update_email_digests_updated_at();
+
+-- Keep users from editing their verified phone number, SMS opt-out or email outside Edge Functions
+CREATE OR REPLACE FUNCTION protect_verified_phone_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.phone_number = OLD.phone_number;
+    NEW.phone_verified_at = OLD.phone_verified_at;
+    NEW.sms_opted_out_at = OLD.sms_opted_out_at;
+    NEW.email = OLD.email;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN user_profiles.email IS 'Primary email address from Clerk; weekly digests are sent here';
@@ -0,0 +1,60 @@
+/*
+  # Waitlist email send log
+
+  1. New Tables
+    - `waitlist_emails`
+      - `id` (uuid, primary key)
+      - `waitlist_id` (uuid, foreign key to waitlist) - signup the email was sent for
+      - `email` (text) - lowercased recipient address
+      - `template` (text) - `welcome`, `invitation` or `launch`
+      - `status` (text) - sending, sent or failed
+      - `last_error` (text)
+      - `sent_at` (timestamptz)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `waitlist_emails` with no policies; only the send-waitlist-email Edge
+      Function reads and writes it using the service role
+
+  3. Purpose
+    - Every waitlist email is logged, and each address gets each template at most once, so
+      repeated signups or retried requests never send the same email twice
+*/
+
+-- Create the waitlist_emails table
+CREATE TABLE IF NOT EXISTS waitlist_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  waitlist_id uuid,
+  email text NOT NULL,
+  template text NOT NULL,
+  status text NOT NULL DEFAULT 'sending',
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_waitlist_emails_waitlist_id
+    FOREIGN KEY (waitlist_id) REFERENCES waitlist(id) ON DELETE SET NULL,
+  CONSTRAINT waitlist_emails_template_check
+    CHECK (template IN ('welcome', 'invitation', 'launch')),
+  CONSTRAINT waitlist_emails_status_check
+    CHECK (status IN ('sending', 'sent', 'failed')),
+  CONSTRAINT waitlist_emails_email_template_key
+    UNIQUE (email, template)
+);
+
+-- Enable Row Level Security
+ALTER TABLE waitlist_emails ENABLE ROW LEVEL SECURITY;
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_waitlist_emails_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_waitlist_emails_updated_at
+  BEFORE UPDATE ON waitlist_emails
+  FOR EACH ROW EXECUTE FUNCTION update_waitlist_emails_updated_at();
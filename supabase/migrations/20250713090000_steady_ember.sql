@@ -0,0 +1,57 @@
+/*
+  # Chat memory for in-app conversations
+
+  1. New Tables
+    - `chat_memories`
+      - `user_id` (text, primary key, foreign key to user_profiles)
+      - `summary` (text) - rolling summary of older in-app conversation turns
+      - `summarized_through` (timestamptz) - creation time of the newest turn folded into the summary
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `chat_memories`; users can view their own memory
+    - Memories are written by the in-app-voice-chat Edge Function using the service role
+
+  3. Purpose
+    - Each in-app message is answered with the recent turns of the user's earlier
+      conversations plus a summary of everything before them, so the future self can
+      follow up across sessions without the prompt growing without bound
+*/
+
+-- Create the chat_memories table
+CREATE TABLE IF NOT EXISTS chat_memories (
+  user_id text PRIMARY KEY,
+  summary text NOT NULL DEFAULT '',
+  summarized_through timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_chat_memories_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE
+);
+
+-- Enable Row Level Security
+ALTER TABLE chat_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat memory"
+  ON chat_memories
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Recent turns are read per user in creation order
+CREATE INDEX IF NOT EXISTS idx_call_turns_user_created_at
+  ON call_turns (user_id, created_at DESC);
+
+-- Add trigger for updated_at
+CREATE OR REPLACE FUNCTION update_chat_memories_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_chat_memories_updated_at
+  BEFORE UPDATE ON chat_memories
+  FOR EACH ROW EXECUTE FUNCTION update_chat_memories_updated_at();
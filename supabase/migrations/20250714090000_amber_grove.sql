@@ -0,0 +1,61 @@
+/*
+  # Long-term memories
+
+  1. New Tables
+    - `user_memories`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `content` (text) - one fact the user shared, such as "Their kid starts school in August"
+      - `source_call_id` (uuid, foreign key to calls) - phone call or in-app conversation it came from
+      - `created_at` (timestamp)
+
+  2. New Columns
+    - `calls.memories_extracted_at` (timestamptz) - when facts were extracted from the finished call
+
+  3. Security
+    - Enable RLS on `user_memories`; users can view and delete their own memories
+    - Memories are written by Edge Functions using the service role
+
+  4. Purpose
+    - Facts are extracted from each finished phone call and in-app conversation, and the
+      prompt builders include the ones most relevant to the current conversation. Users
+      review and delete them on the Memories page of the dashboard
+*/
+
+-- Create the user_memories table
+CREATE TABLE IF NOT EXISTS user_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  content text NOT NULL,
+  source_call_id uuid,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_user_memories_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT fk_user_memories_source_call_id
+    FOREIGN KEY (source_call_id) REFERENCES calls(id) ON DELETE SET NULL
+);
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS memories_extracted_at timestamptz;
+
+-- Enable Row Level Security
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memories"
+  ON user_memories
+  FOR SELECT
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+CREATE POLICY "Users can delete their own memories"
+  ON user_memories
+  FOR DELETE
+  TO authenticated
+  USING (requesting_user_id() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_created_at
+  ON user_memories (user_id, created_at DESC);
+
+COMMENT ON COLUMN calls.memories_extracted_at IS 'When long-term memories were extracted from this call; null until the call has been processed';
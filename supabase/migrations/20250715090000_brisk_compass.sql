@@ -0,0 +1,20 @@
+/*
+  # Actions in call transcripts
+
+  1. Changes
+    - `call_turns.role` accepts `action` for changes the future self made during a call, such
+      as logging progress or moving a goal's deadline; `content` is a one-line summary
+
+  2. Purpose
+    - The future self can act on what the user says through tool calling. Each action is
+      written to the transcript between the user's turn and the reply, so it shows up in
+      the call history and in the conversation history sent with later prompts
+*/
+
+-- Allow action turns in call transcripts
+ALTER TABLE call_turns
+DROP CONSTRAINT IF EXISTS call_turns_role_check;
+
+ALTER TABLE call_turns
+ADD CONSTRAINT call_turns_role_check
+  CHECK (role IN ('user', 'assistant', 'action'));
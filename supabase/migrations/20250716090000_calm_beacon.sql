@@ -0,0 +1,50 @@
+/*
+  # Safety events
+
+  1. New Tables
+    - `safety_events`
+      - `id` (uuid, primary key)
+      - `user_id` (text, foreign key to user_profiles)
+      - `call_id` (uuid, foreign key to calls) - conversation the utterance came from, if known
+      - `channel` (text) - `phone`, `in_app`, or null when the caller did not say
+      - `utterance` (text) - what the user said or typed
+      - `category` (text) - `self_harm` or `crisis`
+      - `detected_by` (text) - `pattern` (built-in phrases) or `moderation` (OpenAI moderation)
+      - `reviewed_at` (timestamp) - set once someone has followed up on the event
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `safety_events` with no user policies; events are written by Edge
+      Functions and reviewed using the service role
+
+  3. Purpose
+    - Every user utterance is classified before the future self replies. When one discloses
+      self-harm or a crisis, the reply is replaced with a safe-messaging response with
+      helpline information and the event is recorded here for review
+*/
+
+-- Create the safety_events table
+CREATE TABLE IF NOT EXISTS safety_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  call_id uuid,
+  channel text,
+  utterance text NOT NULL,
+  category text NOT NULL CHECK (category IN ('self_harm', 'crisis')),
+  detected_by text NOT NULL CHECK (detected_by IN ('pattern', 'moderation')),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT fk_safety_events_user_id
+    FOREIGN KEY (user_id) REFERENCES user_profiles(user_id) ON DELETE CASCADE,
+  CONSTRAINT fk_safety_events_call_id
+    FOREIGN KEY (call_id) REFERENCES calls(id) ON DELETE SET NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_safety_events_unreviewed
+  ON safety_events (created_at DESC)
+  WHERE reviewed_at IS NULL;
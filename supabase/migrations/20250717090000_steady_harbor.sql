@@ -0,0 +1,15 @@
+/*
+  # Crisis flag on calls
+
+  1. New Columns
+    - `calls.safety_flagged_at` (timestamptz) - when a self-harm or crisis disclosure was
+      first flagged in the phone call or in-app conversation
+
+  2. Purpose
+    - Once a call is flagged, the future self stays supportive and takes no actions for the
+      rest of it, even after the safe response has been folded into the conversation summary
+      or has fallen out of the history sent with each prompt
+*/
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS safety_flagged_at timestamptz;
@@ -0,0 +1,20 @@
+/*
+  # Claim time of SMS check-ins
+
+  1. New Columns
+    - `sms_check_ins.claimed_at` (timestamptz) - when a run of twilio-sms claimed the check-in
+      by moving it to `sending`
+
+  2. Purpose
+    - A run that ends before it finishes a claimed check-in, such as at the Edge Function time
+      limit, leaves it in `sending`. Later runs recover check-ins claimed too long ago: they are
+      marked sent if the text went out, otherwise retried while the window is open, or failed
+    - Check-ins already stuck in `sending` get the time of this migration, so they are recovered too
+*/
+
+ALTER TABLE sms_check_ins
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+UPDATE sms_check_ins
+SET claimed_at = now()
+WHERE status = 'sending' AND claimed_at IS NULL;
@@ -0,0 +1,20 @@
+/*
+  # Claim time of email digests
+
+  1. New Columns
+    - `email_digests.claimed_at` (timestamptz) - when a run of email-digest claimed the digest
+      by moving it to `sending`
+
+  2. Purpose
+    - A run that ends before it finishes a claimed digest, such as at the Edge Function time
+      limit, leaves it in `sending`. Later runs retry digests claimed too long ago while their
+      window is open and mark the rest failed
+    - Digests already stuck in `sending` get the time of this migration, so they are recovered too
+*/
+
+ALTER TABLE email_digests
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+UPDATE email_digests
+SET claimed_at = now()
+WHERE status = 'sending' AND claimed_at IS NULL;